@@ -1,16 +1,49 @@
 import type { NextConfig } from "next";
+import { readFileSync } from "fs";
+
+/**
+ * 读取应用注册表中的主机模式
+ * 注册表不存在或无法解析时返回空列表
+ */
+function getRegisteredHosts(): string[] {
+  try {
+    const file = process.env.APPLICATIONS_FILE || 'config/applications.json'
+    const { applications = [] } = JSON.parse(readFileSync(file, 'utf8'))
+    return applications.flatMap((app: { hosts?: string[] }) => app.hosts || [])
+  } catch {
+    return []
+  }
+}
+
+/**
+ * 开发身份模式下浏览器端 Supabase 客户端使用的默认地址与密钥
+ * 指向本服务的模拟接口，与 src/lib/config.ts 中的默认值一致
+ */
+function getDevModeEnv(): Record<string, string> {
+  if (!['true', '1'].includes(process.env.AUTH_DEV_MODE?.toLowerCase() || '')) {
+    return {}
+  }
+  const appUrl = process.env.NEXT_APP_URL || 'http://localhost:3000'
+  return {
+    NEXT_PUBLIC_SUPABASE_URL: process.env.NEXT_PUBLIC_SUPABASE_URL || `${appUrl}/api/dev`,
+    NEXT_PUBLIC_SUPABASE_ANON_KEY: process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || 'dev-anon-key',
+  }
+}
 
 const nextConfig: NextConfig = {
   // 启用 standalone 输出模式，用于 Docker 部署
   output: 'standalone',
   
   // 服务器外部包配置
-  serverExternalPackages: ['@supabase/supabase-js'],
+  serverExternalPackages: ['@supabase/supabase-js', 'ldapts'],
   
-  // 允许的开发环境跨域请求源（从环境变量读取）
-  allowedDevOrigins: process.env.ALLOWED_DOMAINS 
-    ? process.env.ALLOWED_DOMAINS.split(',').map(origin => origin.trim())
-    : ['localhost', '127.0.0.1'],
+  // 允许的开发环境跨域请求源（应用注册表中的主机与 ALLOWED_DOMAINS）
+  allowedDevOrigins: [
+    ...getRegisteredHosts(),
+    ...(process.env.ALLOWED_DOMAINS
+      ? process.env.ALLOWED_DOMAINS.split(',').map(origin => origin.trim().replace(/:(\d+|\*)$/, ''))
+      : ['localhost', '127.0.0.1'])
+  ],
   
   // 实验性功能
   experimental: {
@@ -20,6 +53,7 @@ const nextConfig: NextConfig = {
   // 环境变量配置
   env: {
     CUSTOM_KEY: process.env.CUSTOM_KEY,
+    ...getDevModeEnv(),
   },
   
   // 重定向配置
@@ -32,29 +66,6 @@ const nextConfig: NextConfig = {
       },
     ]
   },
-  
-  // 头部配置
-  async headers() {
-    return [
-      {
-        source: '/api/:path*',
-        headers: [
-          {
-            key: 'Access-Control-Allow-Origin',
-            value: '*',
-          },
-          {
-            key: 'Access-Control-Allow-Methods',
-            value: 'GET, POST, PUT, DELETE, OPTIONS',
-          },
-          {
-            key: 'Access-Control-Allow-Headers',
-            value: 'Content-Type, Authorization',
-          },
-        ],
-      },
-    ]
-  },
 };
 
 export default nextConfig;
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server'
+import { getPublicJwks } from '@/lib/identity-keys'
+import { logger } from '@/lib/logger'
+
+/**
+ * 身份断言公钥发布接口
+ * 后端应用使用这些公钥校验 ForwardAuth 传递的 X-User-Assertion 头部
+ * @returns JWKS 格式的公钥列表
+ */
+export async function GET() {
+  try {
+    const jwks = await getPublicJwks()
+
+    return NextResponse.json(jwks, {
+      headers: {
+        'Cache-Control': 'public, max-age=300'
+      }
+    })
+  } catch (error) {
+    logger.error('JWKS error', { error })
+    return NextResponse.json({ error: 'jwks_unavailable' }, { status: 500 })
+  }
+}
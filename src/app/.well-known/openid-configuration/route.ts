@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server'
+import { getIdentityKeys } from '@/lib/identity-keys'
+import { getIssuer, SUPPORTED_SCOPES } from '@/lib/oidc'
+
+/**
+ * OpenID Connect 发现文档
+ * @returns 签发者元数据
+ */
+export async function GET() {
+  const issuer = getIssuer()
+  const algorithms = Array.from(new Set((await getIdentityKeys()).map(key => key.alg)))
+
+  return NextResponse.json({
+    issuer,
+    authorization_endpoint: `${issuer}/api/oidc/authorize`,
+    token_endpoint: `${issuer}/api/oidc/token`,
+    userinfo_endpoint: `${issuer}/api/oidc/userinfo`,
+    jwks_uri: `${issuer}/.well-known/jwks.json`,
+    scopes_supported: SUPPORTED_SCOPES,
+    response_types_supported: ['code'],
+    grant_types_supported: ['authorization_code'],
+    subject_types_supported: ['public'],
+    id_token_signing_alg_values_supported: algorithms,
+    token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post', 'none'],
+    code_challenge_methods_supported: ['S256'],
+    claims_supported: ['sub', 'iss', 'aud', 'exp', 'iat', 'auth_time', 'nonce', 'email', 'email_verified', 'name', 'preferred_username', 'roles']
+  }, {
+    headers: {
+      'Cache-Control': 'public, max-age=300'
+    }
+  })
+}
@@ -0,0 +1,360 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+
+// 每页显示的事件数量
+const PAGE_SIZE = 50
+
+// 事件类型与显示名称
+const EVENT_TYPES: Record<string, string> = {
+  'login.success': '登录成功',
+  'login.failure': '登录失败',
+  'login.otp_send': '发送登录链接与验证码',
+  'oauth.callback_error': '第三方登录回调错误',
+  'logout': '登出',
+  'session.refresh': '会话刷新',
+  'session.refresh_failure': '会话刷新失败',
+  'forward_auth.allow': 'ForwardAuth 放行',
+  'forward_auth.deny': 'ForwardAuth 拒绝',
+  'mfa.verify': '二次验证成功',
+  'mfa.verify_failure': '二次验证失败',
+  'mfa.unenroll': '解除绑定验证器',
+  'mfa.recovery_codes_generate': '生成恢复码',
+  'mfa.recovery_code_use': '使用恢复码',
+  'password.reset_request': '申请重置密码',
+  'password.recovery': '打开重置密码链接',
+  'password.reset': '重置密码',
+  'password.change': '修改密码',
+  'password.change_failure': '修改密码失败',
+  'signup.success': '注册',
+  'signup.denied': '注册被拒绝',
+  'admin.user.invite': '管理：邀请用户',
+  'admin.user.disable': '管理：禁用账户',
+  'admin.user.enable': '管理：启用账户',
+  'admin.user.delete': '管理：删除账户',
+  'admin.user.roles': '管理：修改角色',
+  'admin.user.mfa_reset': '管理：重置 MFA',
+  'admin.user.sessions_revoke': '管理：强制下线',
+  'admin.invitation.create': '管理：创建注册邀请',
+  'admin.invitation.revoke': '管理：撤销注册邀请',
+  'admin.audit_export': '管理：导出审计日志'
+}
+
+/**
+ * 审计事件
+ */
+interface AuditEvent {
+  occurred_at: string
+  type: string
+  user_id: string | null
+  email: string | null
+  actor_id: string | null
+  actor_email: string | null
+  host: string | null
+  path: string | null
+  method: string | null
+  ip: string | null
+  user_agent: string | null
+  details: Record<string, unknown>
+}
+
+/**
+ * 筛选条件，时间为 datetime-local 输入框的本地时间
+ */
+interface AuditFilter {
+  user: string
+  host: string
+  type: string
+  from: string
+  to: string
+}
+
+const EMPTY_FILTER: AuditFilter = { user: '', host: '', type: '', from: '', to: '' }
+
+/**
+ * 将筛选条件转换为查询参数，本地时间转换为 ISO 时间
+ */
+function toSearchParams(filter: AuditFilter) {
+  const params = new URLSearchParams()
+  if (filter.user.trim()) {
+    params.set('user', filter.user.trim())
+  }
+  if (filter.host.trim()) {
+    params.set('host', filter.host.trim())
+  }
+  if (filter.type) {
+    params.set('type', filter.type)
+  }
+  if (filter.from) {
+    params.set('from', new Date(filter.from).toISOString())
+  }
+  if (filter.to) {
+    params.set('to', new Date(filter.to).toISOString())
+  }
+  return params
+}
+
+/**
+ * 审计日志页面
+ * 管理员可以按用户、主机、事件类型与时间范围筛选审计事件，并导出为 CSV 或 JSONL
+ */
+export default function AuditPage() {
+  const [events, setEvents] = useState<AuditEvent[]>([])
+  const [total, setTotal] = useState(0)
+  const [page, setPage] = useState(1)
+  const [form, setForm] = useState<AuditFilter>(EMPTY_FILTER)
+  const [filter, setFilter] = useState<AuditFilter>(EMPTY_FILTER)
+  const [loading, setLoading] = useState(true)
+  const [forbidden, setForbidden] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  /**
+   * 加载审计事件
+   */
+  const loadEvents = useCallback(async () => {
+    setLoading(true)
+    try {
+      const params = toSearchParams(filter)
+      params.set('page', String(page))
+      params.set('pageSize', String(PAGE_SIZE))
+      const response = await fetch(`/api/admin/audit?${params}`)
+      if (response.status === 401) {
+        window.location.href = '/login'
+        return
+      }
+      if (response.status === 403) {
+        setForbidden(true)
+        return
+      }
+      if (!response.ok) {
+        setError('加载审计日志失败')
+        return
+      }
+      const { events, total } = await response.json()
+      setEvents(events)
+      setTotal(total)
+      setError(null)
+    } catch (error) {
+      console.error('加载审计日志异常:', error)
+      setError('加载审计日志失败')
+    } finally {
+      setLoading(false)
+    }
+  }, [filter, page])
+
+  useEffect(() => {
+    loadEvents()
+  }, [loadEvents])
+
+  /**
+   * 更新筛选表单中的字段
+   */
+  const updateForm = (field: keyof AuditFilter) => (
+    e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>
+  ) => setForm({ ...form, [field]: e.target.value })
+
+  /**
+   * 生成导出链接
+   */
+  const exportUrl = (format: 'csv' | 'jsonl') => {
+    const params = toSearchParams(filter)
+    params.set('format', format)
+    return `/api/admin/audit/export?${params}`
+  }
+
+  if (forbidden) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="text-center">
+          <h1 className="text-xl font-semibold text-gray-900">无权访问审计日志</h1>
+          <p className="mt-2 text-sm text-gray-600">当前账户没有管理员角色。</p>
+          <a href="/dashboard" className="mt-4 inline-block text-sm text-blue-600 hover:text-blue-500 font-medium">
+            返回仪表板
+          </a>
+        </div>
+      </div>
+    )
+  }
+
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE))
+  const inputClassName = 'px-3 py-2 border border-gray-300 rounded-lg shadow-sm text-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500'
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* 导航栏 */}
+      <nav className="bg-white shadow">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between h-16">
+            <div className="flex items-center">
+              <h1 className="text-xl font-semibold text-gray-900">
+                审计日志
+              </h1>
+            </div>
+            <div className="flex items-center space-x-4">
+              <a href="/admin" className="text-sm text-blue-600 hover:text-blue-500 font-medium">
+                用户管理
+              </a>
+              <a href="/dashboard" className="text-sm text-blue-600 hover:text-blue-500 font-medium">
+                返回仪表板
+              </a>
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0">
+          {/* 筛选条件 */}
+          <div className="bg-white overflow-hidden shadow rounded-lg">
+            <div className="px-4 py-5 sm:p-6">
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault()
+                  setPage(1)
+                  setFilter(form)
+                }}
+                className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3"
+              >
+                <input
+                  type="text"
+                  value={form.user}
+                  onChange={updateForm('user')}
+                  placeholder="用户邮箱或 ID"
+                  className={inputClassName}
+                />
+                <input
+                  type="text"
+                  value={form.host}
+                  onChange={updateForm('host')}
+                  placeholder="主机，如 app1.mydomain.com"
+                  className={inputClassName}
+                />
+                <select value={form.type} onChange={updateForm('type')} className={inputClassName}>
+                  <option value="">全部事件类型</option>
+                  {Object.entries(EVENT_TYPES).map(([type, label]) => (
+                    <option key={type} value={type}>{label}</option>
+                  ))}
+                </select>
+                <label className="flex items-center gap-2 text-sm text-gray-600">
+                  从
+                  <input type="datetime-local" value={form.from} onChange={updateForm('from')} className={`flex-1 ${inputClassName}`} />
+                </label>
+                <label className="flex items-center gap-2 text-sm text-gray-600">
+                  到
+                  <input type="datetime-local" value={form.to} onChange={updateForm('to')} className={`flex-1 ${inputClassName}`} />
+                </label>
+                <div className="flex gap-2">
+                  <button
+                    type="submit"
+                    className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md text-sm font-medium transition-colors"
+                  >
+                    筛选
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setForm(EMPTY_FILTER)
+                      setPage(1)
+                      setFilter(EMPTY_FILTER)
+                    }}
+                    className="bg-gray-100 hover:bg-gray-200 text-gray-700 px-4 py-2 rounded-md text-sm font-medium transition-colors"
+                  >
+                    重置
+                  </button>
+                </div>
+              </form>
+            </div>
+          </div>
+
+          {/* 事件列表 */}
+          <div className="mt-6 bg-white overflow-hidden shadow rounded-lg">
+            <div className="px-4 py-5 sm:p-6">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-lg font-medium text-gray-900">
+                  事件（{total}）
+                </h2>
+                <div className="flex gap-4 text-sm font-medium">
+                  <a href={exportUrl('csv')} className="text-blue-600 hover:text-blue-500">导出 CSV</a>
+                  <a href={exportUrl('jsonl')} className="text-blue-600 hover:text-blue-500">导出 JSONL</a>
+                </div>
+              </div>
+
+              {error && (
+                <div className="mb-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+                  {error}
+                </div>
+              )}
+
+              {loading ? (
+                <p className="text-sm text-gray-500">加载中...</p>
+              ) : events.length === 0 ? (
+                <p className="text-sm text-gray-500">没有符合条件的事件</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200 text-sm">
+                    <thead>
+                      <tr className="text-left text-xs font-medium text-gray-500">
+                        <th className="py-2 pr-4">时间</th>
+                        <th className="py-2 pr-4">事件</th>
+                        <th className="py-2 pr-4">用户</th>
+                        <th className="py-2 pr-4">目标</th>
+                        <th className="py-2 pr-4">IP</th>
+                        <th className="py-2">详情</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {events.map((event, index) => (
+                        <tr key={`${event.occurred_at}-${index}`} className="align-top">
+                          <td className="py-2 pr-4 whitespace-nowrap text-gray-500">
+                            {new Date(event.occurred_at).toLocaleString('zh-CN')}
+                          </td>
+                          <td className="py-2 pr-4 whitespace-nowrap text-gray-900">
+                            {EVENT_TYPES[event.type] || event.type}
+                          </td>
+                          <td className="py-2 pr-4 text-gray-900">
+                            {event.email || event.user_id || '-'}
+                            {event.actor_email && (
+                              <p className="text-xs text-gray-500">操作人：{event.actor_email}</p>
+                            )}
+                          </td>
+                          <td className="py-2 pr-4 text-gray-900 break-all">
+                            {event.host ? `${event.method || ''} ${event.host}${event.path || ''}` : '-'}
+                          </td>
+                          <td className="py-2 pr-4 whitespace-nowrap text-gray-500">{event.ip || '-'}</td>
+                          <td className="py-2 text-xs text-gray-500 font-mono break-all">
+                            {Object.keys(event.details || {}).length > 0 ? JSON.stringify(event.details) : ''}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              {/* 分页 */}
+              {totalPages > 1 && (
+                <div className="mt-4 flex items-center justify-between text-sm">
+                  <button
+                    onClick={() => setPage(page - 1)}
+                    disabled={page <= 1}
+                    className="text-blue-600 hover:text-blue-500 disabled:text-gray-400 font-medium"
+                  >
+                    上一页
+                  </button>
+                  <span className="text-gray-500">第 {page} / {totalPages} 页</span>
+                  <button
+                    onClick={() => setPage(page + 1)}
+                    disabled={page >= totalPages}
+                    className="text-blue-600 hover:text-blue-500 disabled:text-gray-400 font-medium"
+                  >
+                    下一页
+                  </button>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </main>
+    </div>
+  )
+}
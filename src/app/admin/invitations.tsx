@@ -0,0 +1,214 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+
+/**
+ * 注册邀请
+ */
+interface RegistrationInvitation {
+  id: string
+  email: string | null
+  created_by_email: string | null
+  created_at: string
+  expires_at: string
+  used_at: string | null
+  revoked_at: string | null
+}
+
+/**
+ * 获取邀请状态
+ */
+function getStatus(invitation: RegistrationInvitation) {
+  if (invitation.used_at) {
+    return { label: '已使用', className: 'bg-green-100 text-green-800' }
+  }
+  if (invitation.revoked_at) {
+    return { label: '已撤销', className: 'bg-gray-100 text-gray-600' }
+  }
+  if (new Date(invitation.expires_at).getTime() <= Date.now()) {
+    return { label: '已过期', className: 'bg-yellow-100 text-yellow-800' }
+  }
+  return { label: '有效', className: 'bg-blue-100 text-blue-800' }
+}
+
+/**
+ * 注册邀请区块
+ * 限制注册模式下，持有邀请链接的用户可以自助注册；链接只在创建时显示一次，由管理员发送给被邀请人
+ */
+export function InvitationsSection() {
+  const [invitations, setInvitations] = useState<RegistrationInvitation[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [email, setEmail] = useState('')
+  const [expiresInDays, setExpiresInDays] = useState(7)
+  const [creating, setCreating] = useState(false)
+  const [createdUrl, setCreatedUrl] = useState<string | null>(null)
+
+  /**
+   * 加载邀请列表
+   */
+  const loadInvitations = useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/invitations')
+      if (!response.ok) {
+        setError('加载注册邀请失败')
+        return
+      }
+      const { invitations } = await response.json()
+      setInvitations(invitations)
+    } catch (error) {
+      console.error('加载注册邀请异常:', error)
+      setError('加载注册邀请失败')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadInvitations()
+  }, [loadInvitations])
+
+  /**
+   * 创建邀请
+   */
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setCreating(true)
+    setError(null)
+    setCreatedUrl(null)
+
+    try {
+      const response = await fetch('/api/admin/invitations', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ email: email || undefined, expiresInDays }),
+      })
+
+      if (!response.ok) {
+        setError('创建注册邀请失败')
+        return
+      }
+
+      const { url } = await response.json()
+      setCreatedUrl(url)
+      setEmail('')
+      await loadInvitations()
+    } catch (error) {
+      console.error('创建注册邀请异常:', error)
+      setError('创建注册邀请失败')
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  /**
+   * 撤销邀请
+   */
+  const handleRevoke = async (invitation: RegistrationInvitation) => {
+    if (!window.confirm(`确定撤销${invitation.email ? ` ${invitation.email} 的` : '该'}注册邀请吗？`)) {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/admin/invitations/${invitation.id}`, { method: 'DELETE' })
+      if (!response.ok) {
+        setError('撤销注册邀请失败')
+        return
+      }
+      await loadInvitations()
+    } catch (error) {
+      console.error('撤销注册邀请异常:', error)
+      setError('撤销注册邀请失败')
+    }
+  }
+
+  return (
+    <div className="mt-6 bg-white overflow-hidden shadow rounded-lg">
+      <div className="px-4 py-5 sm:p-6">
+        <h2 className="text-lg font-medium text-gray-900 mb-4">
+          注册邀请
+        </h2>
+        <p className="text-sm text-gray-600 mb-4">
+          注册模式为 restricted 时，持有邀请链接的用户可以自助注册。填写邮箱时只有该邮箱可以使用，每个链接只能使用一次。
+        </p>
+
+        {error && (
+          <div className="mb-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+            {error}
+          </div>
+        )}
+
+        {createdUrl && (
+          <div className="mb-4 bg-green-50 border border-green-200 text-green-800 px-4 py-3 rounded-lg text-sm">
+            <p className="mb-2">请复制注册链接并发送给被邀请人，关闭页面后将无法再次查看：</p>
+            <code className="block font-mono break-all bg-white border border-green-200 rounded px-2 py-1">
+              {createdUrl}
+            </code>
+          </div>
+        )}
+
+        <form onSubmit={handleCreate} className="flex gap-4 mb-6">
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="邮箱地址（可选）"
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg shadow-sm text-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+          <select
+            value={expiresInDays}
+            onChange={(e) => setExpiresInDays(Number(e.target.value))}
+            className="px-3 py-2 border border-gray-300 rounded-lg shadow-sm text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          >
+            <option value={1}>1 天内有效</option>
+            <option value={7}>7 天内有效</option>
+            <option value={30}>30 天内有效</option>
+          </select>
+          <button
+            type="submit"
+            disabled={creating}
+            className="bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white px-4 py-2 rounded-md text-sm font-medium transition-colors"
+          >
+            {creating ? '创建中...' : '创建邀请'}
+          </button>
+        </form>
+
+        {loading ? (
+          <p className="text-sm text-gray-500">加载中...</p>
+        ) : invitations.length === 0 ? (
+          <p className="text-sm text-gray-500">暂无注册邀请</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {invitations.map(invitation => {
+              const status = getStatus(invitation)
+              return (
+                <li key={invitation.id} className="py-3 flex items-center justify-between">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">
+                      {invitation.email || '任意邮箱'}
+                      <span className={`ml-2 px-2 py-0.5 rounded text-xs ${status.className}`}>{status.label}</span>
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {invitation.created_by_email || '未知'} 创建于 {new Date(invitation.created_at).toLocaleString('zh-CN')}，
+                      有效期至 {new Date(invitation.expires_at).toLocaleString('zh-CN')}
+                    </p>
+                  </div>
+                  {status.label === '有效' && (
+                    <button
+                      onClick={() => handleRevoke(invitation)}
+                      className="text-sm text-red-600 hover:text-red-500 font-medium"
+                    >
+                      撤销
+                    </button>
+                  )}
+                </li>
+              )
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
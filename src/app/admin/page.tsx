@@ -0,0 +1,398 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { InvitationsSection } from './invitations'
+
+// 每页显示的用户数量
+const PAGE_SIZE = 20
+
+/**
+ * 管理后台中的用户
+ */
+interface AdminUser {
+  id: string
+  email: string | null
+  created_at: string
+  last_sign_in_at: string | null
+  email_confirmed_at: string | null
+  banned_until: string | null
+  app_metadata: Record<string, unknown>
+  mfa_factors: number
+}
+
+/**
+ * 格式化时间
+ */
+function formatTime(value: string | null) {
+  return value ? new Date(value).toLocaleString('zh-CN') : '无记录'
+}
+
+/**
+ * 读取用户角色，与服务端规则一致：roles 数组与单个 role 字符串
+ */
+function getRoles(user: AdminUser): string[] {
+  const { roles, role } = user.app_metadata
+  return [
+    ...(Array.isArray(roles) ? roles.filter((item): item is string => typeof item === 'string') : []),
+    ...(typeof role === 'string' ? [role] : [])
+  ]
+}
+
+/**
+ * 判断账户是否已被禁用
+ */
+function isDisabled(user: AdminUser) {
+  return !!user.banned_until && new Date(user.banned_until).getTime() > Date.now()
+}
+
+/**
+ * 管理后台页面
+ * 管理员可以搜索用户、邀请用户、禁用或删除账户、重置 MFA、分配角色与强制下线
+ */
+export default function AdminPage() {
+  const [users, setUsers] = useState<AdminUser[]>([])
+  const [total, setTotal] = useState(0)
+  const [page, setPage] = useState(1)
+  const [query, setQuery] = useState('')
+  const [search, setSearch] = useState('')
+  const [loading, setLoading] = useState(true)
+  const [forbidden, setForbidden] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const [inviteEmail, setInviteEmail] = useState('')
+  const [inviting, setInviting] = useState(false)
+
+  /**
+   * 加载用户列表
+   */
+  const loadUsers = useCallback(async () => {
+    setLoading(true)
+    try {
+      const params = new URLSearchParams({ q: search, page: String(page), pageSize: String(PAGE_SIZE) })
+      const response = await fetch(`/api/admin/users?${params}`)
+      if (response.status === 401) {
+        window.location.href = '/login'
+        return
+      }
+      if (response.status === 403) {
+        setForbidden(true)
+        return
+      }
+      if (!response.ok) {
+        setError('加载用户列表失败')
+        return
+      }
+      const { users, total } = await response.json()
+      setUsers(users)
+      setTotal(total)
+    } catch (error) {
+      console.error('加载用户列表异常:', error)
+      setError('加载用户列表失败')
+    } finally {
+      setLoading(false)
+    }
+  }, [search, page])
+
+  useEffect(() => {
+    loadUsers()
+  }, [loadUsers])
+
+  /**
+   * 执行管理操作并刷新列表
+   */
+  const runAction = async (url: string, init: RequestInit, success: string) => {
+    setError(null)
+    setMessage(null)
+    try {
+      const response = await fetch(url, init)
+      if (!response.ok) {
+        const body = await response.json().catch(() => null)
+        setError(body?.error === 'cannot_modify_self' ? '不能对自己执行此操作' : '操作失败')
+        return
+      }
+      setMessage(success)
+      await loadUsers()
+    } catch (error) {
+      console.error('管理操作异常:', error)
+      setError('操作失败')
+    }
+  }
+
+  /**
+   * 邀请用户
+   */
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setInviting(true)
+    await runAction('/api/admin/users', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ email: inviteEmail }),
+    }, `已向 ${inviteEmail} 发送邀请邮件`)
+    setInviteEmail('')
+    setInviting(false)
+  }
+
+  /**
+   * 修改角色
+   */
+  const handleRoles = async (user: AdminUser) => {
+    const value = window.prompt(`设置 ${user.email} 的角色（以逗号分隔，留空表示清除）：`, getRoles(user).join(', '))
+    if (value === null) {
+      return
+    }
+    const roles = value.split(',').map(role => role.trim()).filter(Boolean)
+    await runAction(`/api/admin/users/${user.id}`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ roles }),
+    }, '角色已更新，用户的新会话将使用新角色')
+  }
+
+  /**
+   * 禁用或启用账户
+   */
+  const handleToggleDisabled = async (user: AdminUser) => {
+    const disabled = !isDisabled(user)
+    if (disabled && !window.confirm(`确定禁用 ${user.email} 吗？该用户的全部会话将立即失效。`)) {
+      return
+    }
+    await runAction(`/api/admin/users/${user.id}`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ disabled }),
+    }, disabled ? '账户已禁用' : '账户已启用')
+  }
+
+  /**
+   * 重置 MFA
+   */
+  const handleResetMfa = async (user: AdminUser) => {
+    if (!window.confirm(`确定重置 ${user.email} 的多因素认证吗？`)) {
+      return
+    }
+    await runAction(`/api/admin/users/${user.id}/mfa`, { method: 'DELETE' }, '多因素认证已重置')
+  }
+
+  /**
+   * 强制下线
+   */
+  const handleRevokeSessions = async (user: AdminUser) => {
+    if (!window.confirm(`确定让 ${user.email} 在所有设备上退出登录吗？`)) {
+      return
+    }
+    await runAction(`/api/admin/users/${user.id}/sessions`, { method: 'DELETE' }, '该用户的全部会话已失效')
+  }
+
+  /**
+   * 删除账户
+   */
+  const handleDelete = async (user: AdminUser) => {
+    if (!window.confirm(`确定删除 ${user.email} 吗？此操作无法撤销。`)) {
+      return
+    }
+    await runAction(`/api/admin/users/${user.id}`, { method: 'DELETE' }, '账户已删除')
+  }
+
+  if (forbidden) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="text-center">
+          <h1 className="text-xl font-semibold text-gray-900">无权访问管理后台</h1>
+          <p className="mt-2 text-sm text-gray-600">当前账户没有管理员角色。</p>
+          <a href="/dashboard" className="mt-4 inline-block text-sm text-blue-600 hover:text-blue-500 font-medium">
+            返回仪表板
+          </a>
+        </div>
+      </div>
+    )
+  }
+
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE))
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* 导航栏 */}
+      <nav className="bg-white shadow">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between h-16">
+            <div className="flex items-center">
+              <h1 className="text-xl font-semibold text-gray-900">
+                管理后台
+              </h1>
+            </div>
+            <div className="flex items-center space-x-4">
+              <a href="/admin/audit" className="text-sm text-blue-600 hover:text-blue-500 font-medium">
+                审计日志
+              </a>
+              <a href="/dashboard" className="text-sm text-blue-600 hover:text-blue-500 font-medium">
+                返回仪表板
+              </a>
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0">
+          {error && (
+            <div className="mb-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+          {message && (
+            <div className="mb-4 bg-green-50 border border-green-200 text-green-800 px-4 py-3 rounded-lg text-sm">
+              {message}
+            </div>
+          )}
+
+          {/* 邀请用户 */}
+          <div className="bg-white overflow-hidden shadow rounded-lg">
+            <div className="px-4 py-5 sm:p-6">
+              <h2 className="text-lg font-medium text-gray-900 mb-4">
+                邀请用户
+              </h2>
+              <form onSubmit={handleInvite} className="flex gap-4">
+                <input
+                  type="email"
+                  required
+                  value={inviteEmail}
+                  onChange={(e) => setInviteEmail(e.target.value)}
+                  placeholder="邮箱地址"
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg shadow-sm text-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+                <button
+                  type="submit"
+                  disabled={inviting}
+                  className="bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white px-4 py-2 rounded-md text-sm font-medium transition-colors"
+                >
+                  {inviting ? '发送中...' : '发送邀请'}
+                </button>
+              </form>
+            </div>
+          </div>
+
+          {/* 注册邀请 */}
+          <InvitationsSection />
+
+          {/* 用户列表 */}
+          <div className="mt-6 bg-white overflow-hidden shadow rounded-lg">
+            <div className="px-4 py-5 sm:p-6">
+              <div className="flex items-center justify-between mb-4 gap-4">
+                <h2 className="text-lg font-medium text-gray-900">
+                  用户（{total}）
+                </h2>
+                <form
+                  onSubmit={(e) => {
+                    e.preventDefault()
+                    setPage(1)
+                    setSearch(query.trim())
+                  }}
+                  className="flex gap-2"
+                >
+                  <input
+                    type="search"
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    placeholder="搜索邮箱或用户 ID"
+                    className="px-3 py-2 border border-gray-300 rounded-lg shadow-sm text-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                  <button
+                    type="submit"
+                    className="bg-gray-100 hover:bg-gray-200 text-gray-700 px-4 py-2 rounded-md text-sm font-medium transition-colors"
+                  >
+                    搜索
+                  </button>
+                </form>
+              </div>
+
+              {loading ? (
+                <p className="text-sm text-gray-500">加载中...</p>
+              ) : users.length === 0 ? (
+                <p className="text-sm text-gray-500">没有找到用户</p>
+              ) : (
+                <ul className="divide-y divide-gray-200">
+                  {users.map(user => (
+                    <li key={user.id} className="py-3 flex items-center justify-between gap-4">
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-gray-900">
+                          {user.email || user.id}
+                          {isDisabled(user) && (
+                            <span className="ml-2 inline-flex px-2 py-0.5 text-xs font-semibold rounded-full bg-red-100 text-red-800">
+                              已禁用
+                            </span>
+                          )}
+                          {!user.email_confirmed_at && (
+                            <span className="ml-2 inline-flex px-2 py-0.5 text-xs font-semibold rounded-full bg-yellow-100 text-yellow-800">
+                              未验证
+                            </span>
+                          )}
+                          {getRoles(user).map(role => (
+                            <span key={role} className="ml-2 inline-flex px-2 py-0.5 text-xs font-semibold rounded-full bg-blue-100 text-blue-800">
+                              {role}
+                            </span>
+                          ))}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          注册于 {formatTime(user.created_at)}
+                          {' · '}最后登录 {formatTime(user.last_sign_in_at)}
+                          {' · '}MFA {user.mfa_factors > 0 ? '已启用' : '未启用'}
+                        </p>
+                      </div>
+                      <div className="flex flex-wrap justify-end gap-3 text-sm font-medium">
+                        <button onClick={() => handleRoles(user)} className="text-blue-600 hover:text-blue-500">
+                          角色
+                        </button>
+                        <button onClick={() => handleToggleDisabled(user)} className="text-blue-600 hover:text-blue-500">
+                          {isDisabled(user) ? '启用' : '禁用'}
+                        </button>
+                        {user.mfa_factors > 0 && (
+                          <button onClick={() => handleResetMfa(user)} className="text-blue-600 hover:text-blue-500">
+                            重置 MFA
+                          </button>
+                        )}
+                        <button onClick={() => handleRevokeSessions(user)} className="text-blue-600 hover:text-blue-500">
+                          强制下线
+                        </button>
+                        <button onClick={() => handleDelete(user)} className="text-red-600 hover:text-red-500">
+                          删除
+                        </button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {/* 分页 */}
+              {totalPages > 1 && (
+                <div className="mt-4 flex items-center justify-between text-sm">
+                  <button
+                    onClick={() => setPage(page - 1)}
+                    disabled={page <= 1}
+                    className="text-blue-600 hover:text-blue-500 disabled:text-gray-400 font-medium"
+                  >
+                    上一页
+                  </button>
+                  <span className="text-gray-500">第 {page} / {totalPages} 页</span>
+                  <button
+                    onClick={() => setPage(page + 1)}
+                    disabled={page >= totalPages}
+                    className="text-blue-600 hover:text-blue-500 disabled:text-gray-400 font-medium"
+                  >
+                    下一页
+                  </button>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession } from '@/lib/auth'
+import { isAdmin } from '@/lib/admin'
+import { parseAuditFilter, queryAuditEvents, recordAuditEvent, type AuditEvent } from '@/lib/audit'
+import { requestLogger } from '@/lib/logger'
+import { getConfig } from '@/lib/config'
+
+// 单次导出的事件数量上限
+const EXPORT_LIMIT = getConfig().audit.exportLimit
+
+// CSV 列顺序
+const CSV_COLUMNS: (keyof AuditEvent)[] = [
+  'occurred_at', 'type', 'user_id', 'email', 'actor_id', 'actor_email',
+  'host', 'path', 'method', 'ip', 'user_agent', 'details'
+]
+
+/**
+ * 转义 CSV 字段
+ * 以 = + - @ 开头的值加前缀单引号，防止在电子表格中被当作公式执行
+ */
+function toCsvField(value: unknown): string {
+  let text = value === null || value === undefined
+    ? ''
+    : typeof value === 'object' ? JSON.stringify(value) : String(value)
+  if (/^[=+\-@]/.test(text)) {
+    text = `'${text}`
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * 导出审计事件
+ * 查询参数：format 为 csv 或 jsonl（默认），其余筛选条件与查询接口相同
+ * @param request - Next.js 请求对象
+ * @returns 附件形式的导出文件
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const sessionData = await validateSession(request)
+    if (!sessionData || sessionData.method !== 'cookie') {
+      return NextResponse.json({ error: 'unauthenticated' }, { status: 401 })
+    }
+    if (!isAdmin(sessionData.user)) {
+      return NextResponse.json({ error: 'forbidden' }, { status: 403 })
+    }
+    
+    const { searchParams } = request.nextUrl
+    const format = searchParams.get('format') === 'csv' ? 'csv' : 'jsonl'
+    const filter = parseAuditFilter(searchParams)
+    const { events, total } = await queryAuditEvents({ ...filter, limit: EXPORT_LIMIT, offset: 0 })
+    
+    // 导出本身也是需要留痕的操作
+    recordAuditEvent({
+      type: 'admin.audit_export',
+      actor: sessionData.user,
+      request,
+      details: { format, filter, exported: events.length, total }
+    })
+    
+    const body = format === 'csv'
+      ? [CSV_COLUMNS.join(','), ...events.map(event => CSV_COLUMNS.map(column => toCsvField(event[column])).join(','))].join('\r\n')
+      : events.map(event => JSON.stringify(event)).join('\n')
+    const filename = `audit-${new Date().toISOString().slice(0, 10)}.${format}`
+    
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store',
+        // 结果被截断时告知调用方
+        'X-Total-Count': String(total)
+      }
+    })
+    
+  } catch (error) {
+    requestLogger(request).error('Audit export error', { error })
+    return NextResponse.json({ error: 'unexpected_error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession } from '@/lib/auth'
+import { isAdmin } from '@/lib/admin'
+import { parseAuditFilter, queryAuditEvents } from '@/lib/audit'
+import { requestLogger } from '@/lib/logger'
+
+// 每页数量默认值与上限
+const DEFAULT_PAGE_SIZE = 50
+const MAX_PAGE_SIZE = 200
+
+/**
+ * 查询审计事件
+ * 查询参数：user、host、type、from、to 筛选条件，page 页码，pageSize 每页数量
+ * @param request - Next.js 请求对象
+ * @returns 按发生时间倒序的事件与总数
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const sessionData = await validateSession(request)
+    if (!sessionData || sessionData.method !== 'cookie') {
+      return NextResponse.json({ error: 'unauthenticated' }, { status: 401 })
+    }
+    if (!isAdmin(sessionData.user)) {
+      return NextResponse.json({ error: 'forbidden' }, { status: 403 })
+    }
+    
+    const { searchParams } = request.nextUrl
+    const page = Math.max(Number(searchParams.get('page')) || 1, 1)
+    const pageSize = Math.min(Math.max(Number(searchParams.get('pageSize')) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE)
+    
+    const result = await queryAuditEvents({
+      ...parseAuditFilter(searchParams),
+      limit: pageSize,
+      offset: (page - 1) * pageSize
+    })
+    
+    return NextResponse.json(result, {
+      headers: {
+        'Cache-Control': 'no-store'
+      }
+    })
+    
+  } catch (error) {
+    requestLogger(request).error('Audit query error', { error })
+    return NextResponse.json({ error: 'unexpected_error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession } from '@/lib/auth'
+import { isAdmin, revokeRegistrationInvitation } from '@/lib/admin'
+import { requestLogger } from '@/lib/logger'
+
+/**
+ * 撤销注册邀请
+ * @param request - Next.js 请求对象
+ * @param context - 路由参数，包含邀请 ID
+ * @returns 204 表示已撤销，404 表示邀请不存在、已使用或已撤销
+ */
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const sessionData = await validateSession(request)
+    if (!sessionData || sessionData.method !== 'cookie') {
+      return NextResponse.json({ error: 'unauthenticated' }, { status: 401 })
+    }
+    if (!isAdmin(sessionData.user)) {
+      return NextResponse.json({ error: 'forbidden' }, { status: 403 })
+    }
+    
+    const { id } = await params
+    const invitation = await revokeRegistrationInvitation(sessionData.user, id)
+    if (!invitation) {
+      return NextResponse.json({ error: 'not_found' }, { status: 404 })
+    }
+    
+    return new NextResponse(null, { status: 204 })
+    
+  } catch (error) {
+    requestLogger(request).error('Admin revoke invitation error', { error })
+    return NextResponse.json({ error: 'unexpected_error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession } from '@/lib/auth'
+import { createRegistrationInvitation, isAdmin } from '@/lib/admin'
+import { getInvitationUrl, listInvitations } from '@/lib/registration'
+import { requestLogger } from '@/lib/logger'
+
+// 邀请有效天数范围
+const DEFAULT_EXPIRES_IN_DAYS = 7
+const MAX_EXPIRES_IN_DAYS = 90
+
+/**
+ * 列出最近的注册邀请
+ * @param request - Next.js 请求对象
+ * @returns 邀请列表
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const sessionData = await validateSession(request)
+    if (!sessionData || sessionData.method !== 'cookie') {
+      return NextResponse.json({ error: 'unauthenticated' }, { status: 401 })
+    }
+    if (!isAdmin(sessionData.user)) {
+      return NextResponse.json({ error: 'forbidden' }, { status: 403 })
+    }
+    
+    const invitations = await listInvitations()
+    return NextResponse.json({ invitations })
+    
+  } catch (error) {
+    requestLogger(request).error('Admin list invitations error', { error })
+    return NextResponse.json({ error: 'unexpected_error' }, { status: 500 })
+  }
+}
+
+/**
+ * 创建注册邀请
+ * 请求体：{ email?, expiresInDays? }，email 为空时任何邮箱都可以使用
+ * @param request - Next.js 请求对象
+ * @returns 邀请与注册链接，链接只在创建时返回一次
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const sessionData = await validateSession(request)
+    if (!sessionData || sessionData.method !== 'cookie') {
+      return NextResponse.json({ error: 'unauthenticated' }, { status: 401 })
+    }
+    if (!isAdmin(sessionData.user)) {
+      return NextResponse.json({ error: 'forbidden' }, { status: 403 })
+    }
+    
+    const body = await request.json().catch(() => null)
+    const email = typeof body?.email === 'string' ? body.email.trim().toLowerCase() : ''
+    if (email && !/^[^\s@]+@[^\s@]+$/.test(email)) {
+      return NextResponse.json({ error: 'invalid_email' }, { status: 400 })
+    }
+    const expiresInDays = body?.expiresInDays === undefined ? DEFAULT_EXPIRES_IN_DAYS : Number(body.expiresInDays)
+    if (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > MAX_EXPIRES_IN_DAYS) {
+      return NextResponse.json({ error: 'invalid_expiry' }, { status: 400 })
+    }
+    
+    const { invitation, code } = await createRegistrationInvitation(sessionData.user, email || null, expiresInDays)
+    return NextResponse.json({ invitation, url: getInvitationUrl(code) }, {
+      status: 201,
+      headers: {
+        'Cache-Control': 'no-store'
+      }
+    })
+    
+  } catch (error) {
+    requestLogger(request).error('Admin create invitation error', { error })
+    return NextResponse.json({ error: 'unexpected_error' }, { status: 500 })
+  }
+}
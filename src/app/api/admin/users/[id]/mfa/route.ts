@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isAuthApiError } from '@supabase/supabase-js'
+import { validateSession } from '@/lib/auth'
+import { isAdmin, resetUserMfa } from '@/lib/admin'
+import { requestLogger } from '@/lib/logger'
+
+/**
+ * 重置用户的多因素认证
+ * @param request - Next.js 请求对象
+ * @param context - 路由参数，包含用户 ID
+ * @returns 删除的因子数量
+ */
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const sessionData = await validateSession(request)
+    if (!sessionData || sessionData.method !== 'cookie') {
+      return NextResponse.json({ error: 'unauthenticated' }, { status: 401 })
+    }
+    if (!isAdmin(sessionData.user)) {
+      return NextResponse.json({ error: 'forbidden' }, { status: 403 })
+    }
+    
+    const { id } = await params
+    const removed = await resetUserMfa(sessionData.user, id)
+    
+    return NextResponse.json({ removed })
+    
+  } catch (error) {
+    if (isAuthApiError(error) && error.status === 404) {
+      return NextResponse.json({ error: 'not_found' }, { status: 404 })
+    }
+    requestLogger(request).error('Admin reset MFA error', { error })
+    return NextResponse.json({ error: 'unexpected_error' }, { status: 500 })
+  }
+}
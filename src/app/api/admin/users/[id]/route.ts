@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isAuthApiError } from '@supabase/supabase-js'
+import { validateSession, evictCachedUserSessions } from '@/lib/auth'
+import { deleteUser, isAdmin, setUserDisabled, setUserRoles } from '@/lib/admin'
+import { requestLogger } from '@/lib/logger'
+
+/**
+ * 修改用户
+ * 请求体：{ disabled?, roles? }，disabled 禁用或启用账户，roles 覆盖 app_metadata.roles
+ * @param request - Next.js 请求对象
+ * @param context - 路由参数，包含用户 ID
+ * @returns 204 表示已修改
+ */
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const sessionData = await validateSession(request)
+    if (!sessionData || sessionData.method !== 'cookie') {
+      return NextResponse.json({ error: 'unauthenticated' }, { status: 401 })
+    }
+    if (!isAdmin(sessionData.user)) {
+      return NextResponse.json({ error: 'forbidden' }, { status: 403 })
+    }
+    
+    const { id } = await params
+    const body = await request.json().catch(() => null)
+    const disabled = typeof body?.disabled === 'boolean' ? body.disabled : null
+    const roles = Array.isArray(body?.roles)
+      ? Array.from(new Set<string>(body.roles
+          .filter((role: unknown): role is string => typeof role === 'string' && role.trim() !== '')
+          .map((role: string) => role.trim())))
+      : null
+    
+    if (disabled === null && roles === null) {
+      return NextResponse.json({ error: 'invalid_request' }, { status: 400 })
+    }
+    
+    // 防止管理员把自己锁在管理后台之外
+    if (id === sessionData.user.id && (disabled || (roles && !isAdmin({ ...sessionData.user, app_metadata: { roles } })))) {
+      return NextResponse.json({ error: 'cannot_modify_self' }, { status: 400 })
+    }
+    
+    if (roles !== null) {
+      // 降低权限后本实例中缓存的校验结果仍带有旧角色，立即失效
+      if (await setUserRoles(sessionData.user, id, roles)) {
+        evictCachedUserSessions(id)
+      }
+    }
+    if (disabled !== null) {
+      await setUserDisabled(sessionData.user, id, disabled)
+      // 禁用的账户在本实例中缓存的会话、令牌与应用密码校验结果立即失效
+      if (disabled) {
+        evictCachedUserSessions(id)
+      }
+    }
+    
+    return new NextResponse(null, { status: 204 })
+    
+  } catch (error) {
+    if (isAuthApiError(error) && error.status === 404) {
+      return NextResponse.json({ error: 'not_found' }, { status: 404 })
+    }
+    requestLogger(request).error('Admin update user error', { error })
+    return NextResponse.json({ error: 'unexpected_error' }, { status: 500 })
+  }
+}
+
+/**
+ * 删除用户
+ * @param request - Next.js 请求对象
+ * @param context - 路由参数，包含用户 ID
+ * @returns 204 表示已删除
+ */
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const sessionData = await validateSession(request)
+    if (!sessionData || sessionData.method !== 'cookie') {
+      return NextResponse.json({ error: 'unauthenticated' }, { status: 401 })
+    }
+    if (!isAdmin(sessionData.user)) {
+      return NextResponse.json({ error: 'forbidden' }, { status: 403 })
+    }
+    
+    const { id } = await params
+    if (id === sessionData.user.id) {
+      return NextResponse.json({ error: 'cannot_modify_self' }, { status: 400 })
+    }
+    
+    await deleteUser(sessionData.user, id)
+    evictCachedUserSessions(id)
+    
+    return new NextResponse(null, { status: 204 })
+    
+  } catch (error) {
+    if (isAuthApiError(error) && error.status === 404) {
+      return NextResponse.json({ error: 'not_found' }, { status: 404 })
+    }
+    requestLogger(request).error('Admin delete user error', { error })
+    return NextResponse.json({ error: 'unexpected_error' }, { status: 500 })
+  }
+}
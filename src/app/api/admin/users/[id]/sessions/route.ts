@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isAuthApiError } from '@supabase/supabase-js'
+import { validateSession, evictCachedUserSessions } from '@/lib/auth'
+import { isAdmin, revokeUserSessions } from '@/lib/admin'
+import { requestLogger } from '@/lib/logger'
+
+/**
+ * 强制用户的全部会话过期
+ * @param request - Next.js 请求对象
+ * @param context - 路由参数，包含用户 ID
+ * @returns 被吊销的会话数量
+ */
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const sessionData = await validateSession(request)
+    if (!sessionData || sessionData.method !== 'cookie') {
+      return NextResponse.json({ error: 'unauthenticated' }, { status: 401 })
+    }
+    if (!isAdmin(sessionData.user)) {
+      return NextResponse.json({ error: 'forbidden' }, { status: 403 })
+    }
+    
+    const { id } = await params
+    const revoked = await revokeUserSessions(sessionData.user, id)
+    // 立即失效本实例中缓存的校验结果
+    evictCachedUserSessions(id)
+    
+    return NextResponse.json({ revoked })
+    
+  } catch (error) {
+    if (isAuthApiError(error) && error.status === 404) {
+      return NextResponse.json({ error: 'not_found' }, { status: 404 })
+    }
+    requestLogger(request).error('Admin revoke sessions error', { error })
+    return NextResponse.json({ error: 'unexpected_error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isAuthApiError } from '@supabase/supabase-js'
+import { validateSession } from '@/lib/auth'
+import { inviteUser, isAdmin, listUsers } from '@/lib/admin'
+import { requestLogger } from '@/lib/logger'
+
+// 默认每页数量
+const DEFAULT_PAGE_SIZE = 20
+
+/**
+ * 分页列出或搜索用户
+ * 查询参数：q 搜索关键字（邮箱或用户 ID），page 页码，pageSize 每页数量
+ * @param request - Next.js 请求对象
+ * @returns 用户列表与总数
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const sessionData = await validateSession(request)
+    if (!sessionData || sessionData.method !== 'cookie') {
+      return NextResponse.json({ error: 'unauthenticated' }, { status: 401 })
+    }
+    if (!isAdmin(sessionData.user)) {
+      return NextResponse.json({ error: 'forbidden' }, { status: 403 })
+    }
+    
+    const { searchParams } = request.nextUrl
+    const query = (searchParams.get('q') || '').trim()
+    const page = Number(searchParams.get('page')) || 1
+    const pageSize = Number(searchParams.get('pageSize')) || DEFAULT_PAGE_SIZE
+    
+    const result = await listUsers(query, page, pageSize)
+    return NextResponse.json(result)
+    
+  } catch (error) {
+    requestLogger(request).error('Admin list users error', { error })
+    return NextResponse.json({ error: 'unexpected_error' }, { status: 500 })
+  }
+}
+
+/**
+ * 邀请用户
+ * 请求体：{ email }
+ * @param request - Next.js 请求对象
+ * @returns 新建的用户 ID
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const sessionData = await validateSession(request)
+    if (!sessionData || sessionData.method !== 'cookie') {
+      return NextResponse.json({ error: 'unauthenticated' }, { status: 401 })
+    }
+    if (!isAdmin(sessionData.user)) {
+      return NextResponse.json({ error: 'forbidden' }, { status: 403 })
+    }
+    
+    const body = await request.json().catch(() => null)
+    const email = typeof body?.email === 'string' ? body.email.trim().toLowerCase() : ''
+    if (!/^[^\s@]+@[^\s@]+$/.test(email)) {
+      return NextResponse.json({ error: 'invalid_email' }, { status: 400 })
+    }
+    
+    const user = await inviteUser(sessionData.user, email)
+    return NextResponse.json({ id: user.id }, { status: 201 })
+    
+  } catch (error) {
+    // 邮箱已注册等由 Supabase 拒绝的请求
+    if (isAuthApiError(error)) {
+      return NextResponse.json({ error: error.code || 'invite_failed', message: error.message }, { status: 400 })
+    }
+    requestLogger(request).error('Admin invite user error', { error })
+    return NextResponse.json({ error: 'unexpected_error' }, { status: 500 })
+  }
+}
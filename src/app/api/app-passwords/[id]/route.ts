@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession, evictCachedCredential } from '@/lib/auth'
+import { revokeAppPassword } from '@/lib/app-passwords'
+import { requestLogger } from '@/lib/logger'
+
+/**
+ * 吊销应用密码
+ * @param request - Next.js 请求对象
+ * @param context - 路由参数，包含应用密码 ID
+ * @returns 204 表示已吊销，404 表示应用密码不存在或已吊销
+ */
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const sessionData = await validateSession(request)
+    if (!sessionData || sessionData.method !== 'cookie') {
+      return NextResponse.json({ error: 'unauthenticated' }, { status: 401 })
+    }
+    
+    const { id } = await params
+    const revoked = await revokeAppPassword(sessionData.user.id, id)
+    if (!revoked) {
+      return NextResponse.json({ error: 'not_found' }, { status: 404 })
+    }
+    
+    // 立即失效本实例中缓存的校验结果
+    evictCachedCredential(id)
+    
+    requestLogger(request).info('App password revoked', { email: sessionData.user.email, id })
+    
+    return new NextResponse(null, { status: 204 })
+    
+  } catch (error) {
+    requestLogger(request).error('Revoke app password error', { error })
+    return NextResponse.json({ error: 'unexpected_error' }, { status: 500 })
+  }
+}
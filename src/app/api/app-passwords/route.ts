@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession } from '@/lib/auth'
+import { listAppPasswords, createAppPassword } from '@/lib/app-passwords'
+import { requestLogger } from '@/lib/logger'
+
+/**
+ * 获取当前用户的应用密码列表
+ * 只接受浏览器会话，应用密码与令牌不能用于管理应用密码
+ * @param request - Next.js 请求对象
+ * @returns 应用密码列表
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const sessionData = await validateSession(request)
+    if (!sessionData || sessionData.method !== 'cookie') {
+      return NextResponse.json({ error: 'unauthenticated' }, { status: 401 })
+    }
+    
+    const passwords = await listAppPasswords(sessionData.user.id)
+    return NextResponse.json({ passwords })
+    
+  } catch (error) {
+    requestLogger(request).error('List app passwords error', { error })
+    return NextResponse.json({ error: 'unexpected_error' }, { status: 500 })
+  }
+}
+
+/**
+ * 创建应用密码
+ * 请求体：{ name }
+ * @param request - Next.js 请求对象
+ * @returns 密码明文（仅返回这一次）与记录
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const sessionData = await validateSession(request)
+    if (!sessionData || sessionData.method !== 'cookie') {
+      return NextResponse.json({ error: 'unauthenticated' }, { status: 401 })
+    }
+    
+    const body = await request.json().catch(() => null)
+    const name = typeof body?.name === 'string' ? body.name.trim() : ''
+    if (!name || name.length > 100) {
+      return NextResponse.json({ error: 'invalid_name' }, { status: 400 })
+    }
+    
+    const { password, record } = await createAppPassword(sessionData.user.id, name)
+    
+    requestLogger(request).info('App password created', { email: sessionData.user.email, id: record.id })
+    
+    return NextResponse.json({ password, record }, { status: 201 })
+    
+  } catch (error) {
+    requestLogger(request).error('Create app password error', { error })
+    return NextResponse.json({ error: 'unexpected_error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession } from '@/lib/auth'
+import { getApplications } from '@/lib/applications'
+import { evaluateAccess } from '@/lib/policy'
+import { requestLogger } from '@/lib/logger'
+
+/**
+ * 获取当前用户可以访问的应用
+ * 以应用入口地址的主机与路径检查访问策略，只返回允许访问的应用
+ * 需要二次验证的应用同样返回，打开时由 ForwardAuth 跳转到二次验证页面
+ * @param request - Next.js 请求对象
+ * @returns 应用列表
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const sessionData = await validateSession(request)
+    if (!sessionData) {
+      return NextResponse.json({ error: 'unauthenticated' }, { status: 401 })
+    }
+    
+    // 只有配置了入口地址的应用显示在仪表板中
+    const entries = (await getApplications())
+      .flatMap(app => app.url ? [{ app, url: new URL(app.url) }] : [])
+    const decisions = await Promise.all(entries.map(({ url }) =>
+      evaluateAccess(sessionData.user, { host: url.host, path: url.pathname })
+    ))
+    
+    return NextResponse.json({
+      applications: entries
+        .filter((_, index) => decisions[index].allowed || decisions[index].reason === 'mfa_required')
+        .map(({ app, url }) => ({
+          id: app.id,
+          name: app.name,
+          description: app.description || null,
+          url: url.toString(),
+          host: url.host,
+          icon: app.icon || null
+        }))
+    }, {
+      headers: {
+        'Cache-Control': 'no-store'
+      }
+    })
+    
+  } catch (error) {
+    requestLogger(request).error('List applications error', { error })
+    return NextResponse.json({ error: 'unexpected_error' }, { status: 500 })
+  }
+}
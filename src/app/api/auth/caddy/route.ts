@@ -0,0 +1,13 @@
+import { NextRequest } from 'next/server'
+import { handleForwardAuth } from '@/lib/forward-auth'
+import { caddyProxy } from '@/lib/proxy'
+
+/**
+ * Caddy forward_auth 验证接口
+ * 原始请求信息来自 X-Forwarded-Method / X-Forwarded-Uri / X-Forwarded-Host
+ * @param request - Next.js 请求对象
+ * @returns 200 表示已认证，302 表示需要登录（JSON 请求返回 401），403 表示访问策略拒绝
+ */
+export async function GET(request: NextRequest) {
+  return handleForwardAuth(request, caddyProxy)
+}
@@ -1,69 +1,147 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createSupabaseServerClient } from '@/lib/supabase-server'
-import { setAuthCookie, isValidRedirectUrl } from '@/lib/auth'
+import type { EmailOtpType } from '@supabase/supabase-js'
+import { createSupabaseServerClient, createSupabaseAdminClient } from '@/lib/supabase-server'
+import { recordAuditEvent } from '@/lib/audit'
+import { getSignInProvider, isProviderAllowed } from '@/lib/auth-providers'
+import { completeSignIn } from '@/lib/sign-in'
+import { isRecoverySession, startPasswordRecovery } from '@/lib/password-recovery'
+import { requestLogger } from '@/lib/logger'
+import { callbackRequests, recordSupabaseError } from '@/lib/metrics'
+import { getConfig } from '@/lib/config'
+
+// 可以在回调中直接验证的邮件链接类型
+const EMAIL_LINK_TYPES: string[] = ['email', 'magiclink', 'signup', 'invite', 'recovery']
+
+// 链接或授权码过期时 Supabase 返回的错误码，统一提示为 otp_expired
+const EXPIRED_ERROR_CODES = ['otp_expired', 'flow_state_expired', 'flow_state_not_found']
+
+/**
+ * 跳转回登录页并显示错误，保留原始重定向地址以便重新登录
+ * @param error - 错误码或错误描述
+ * @param redirectTo - 原始重定向地址
+ */
+function loginErrorRedirect(error: string, redirectTo: string | null) {
+  const baseUrl = getConfig().appUrl
+  const loginUrl = new URL('/login', baseUrl)
+  loginUrl.searchParams.set('error', error)
+  if (redirectTo) {
+    loginUrl.searchParams.set('redirect', redirectTo)
+  }
+  return NextResponse.redirect(loginUrl)
+}
 
 /**
  * Supabase 认证回调处理
- * 处理用户登录成功后的回调
+ * 处理第三方登录、邮箱确认与魔法链接的回调，重置密码链接转到设置新密码页面：
+ * code 为 PKCE 授权码，需在发起登录的浏览器中换取会话；
+ * token_hash 来自邮件模板中的链接，可以在其他设备上打开
  * @param request - Next.js 请求对象
  * @returns 重定向到原始页面或默认页面
  */
 export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url)
+  const redirectTo = searchParams.get('redirect') || searchParams.get('state')
+  const log = requestLogger(request)
+
   try {
-    const { searchParams } = new URL(request.url)
     const code = searchParams.get('code')
-    const redirectTo = searchParams.get('redirect') || searchParams.get('state')
-    
-    if (!code) {
-      console.error('No authorization code provided')
-      const baseUrl = process.env.NEXT_APP_URL || 'http://localhost:3000'
-      return NextResponse.redirect(new URL('/login?error=no_code', baseUrl))
+    const tokenHash = searchParams.get('token_hash')
+    const linkType = searchParams.get('type')
+
+    // 第三方登录被拒绝或失败、邮件链接过期时，Supabase 以 error 参数回调
+    const providerError = searchParams.get('error')
+    if (providerError) {
+      const errorCode = searchParams.get('error_code')
+      const description = searchParams.get('error_description') || providerError
+      log.error('OAuth callback error', { providerError, errorCode, description })
+      recordAuditEvent({
+        type: 'oauth.callback_error',
+        request,
+        details: { error: providerError, errorCode, description }
+      })
+      const expired = errorCode !== null && EXPIRED_ERROR_CODES.includes(errorCode)
+      callbackRequests.inc({ outcome: expired ? 'otp_expired' : 'provider_error' })
+      return loginErrorRedirect(expired ? 'otp_expired' : description, redirectTo)
+    }
+
+    const isEmailLink = !!tokenHash && !!linkType && EMAIL_LINK_TYPES.includes(linkType)
+    if (!code && !isEmailLink) {
+      log.error('No authorization code provided')
+      recordAuditEvent({ type: 'oauth.callback_error', request, details: { error: 'no_code' } })
+      callbackRequests.inc({ outcome: 'no_code' })
+      return loginErrorRedirect('no_code', redirectTo)
     }
-    
-    const supabase = await createSupabaseServerClient()
-    
-    // 交换授权码获取会话
-    const { data, error } = await supabase.auth.exchangeCodeForSession(code)
-    
+
+    // 交换授权码或验证邮件链接获取会话
+    const { data, error } = code
+      ? await (await createSupabaseServerClient()).auth.exchangeCodeForSession(code)
+      : await createSupabaseAdminClient().auth.verifyOtp({
+          token_hash: tokenHash!,
+          type: linkType as EmailOtpType
+        })
+
     if (error) {
-      console.error('Auth callback error:', error)
-      const baseUrl = process.env.NEXT_APP_URL || 'http://localhost:3000'
-      return NextResponse.redirect(
-        new URL(`/login?error=${encodeURIComponent(error.message)}`, baseUrl)
-      )
+      log.error('Auth callback error', { error })
+      const expired = !!error.code && EXPIRED_ERROR_CODES.includes(error.code)
+      recordAuditEvent({
+        type: 'login.failure',
+        request,
+        details: { error: expired ? 'otp_expired' : error.message }
+      })
+      recordSupabaseError(code ? 'exchange_code' : 'verify_otp', error)
+      callbackRequests.inc({ outcome: expired ? 'otp_expired' : 'invalid_code' })
+      return loginErrorRedirect(expired ? 'otp_expired' : error.message, redirectTo)
     }
-    
+
     if (!data.session) {
-      console.error('No session returned from auth callback')
-      const baseUrl = process.env.NEXT_APP_URL || 'http://localhost:3000'
-      return NextResponse.redirect(new URL('/login?error=no_session', baseUrl))
+      log.error('No session returned from auth callback')
+      recordAuditEvent({ type: 'login.failure', request, details: { error: 'no_session' } })
+      callbackRequests.inc({ outcome: 'no_session' })
+      return loginErrorRedirect('no_session', redirectTo)
     }
-    
-    // 确定重定向 URL
-    let finalRedirectUrl = '/dashboard' // 默认重定向页面
-    
-    if (redirectTo && isValidRedirectUrl(redirectTo)) {
-      finalRedirectUrl = redirectTo
+
+    // 重置密码链接不作为登录处理，转到设置新密码页面
+    if (isRecoverySession(data.session)) {
+      recordAuditEvent({ type: 'password.recovery', user: data.session.user, request })
+      callbackRequests.inc({ outcome: 'recovery' })
+      return startPasswordRecovery(data.session)
+    }
+
+    // 第三方登录：提供商必须已配置，且用户邮箱属于该提供商允许的邮箱域
+    // 邮箱确认链接与魔法链接以 email 方式回调，不受提供商配置限制
+    const provider = getSignInProvider(data.session.user)
+    if (provider !== 'email' && !await isProviderAllowed(provider, data.session.user.email)) {
+      log.info('OAuth provider not allowed', { provider, email: data.session.user.email })
+      recordAuditEvent({
+        type: 'login.failure',
+        user: data.session.user,
+        request,
+        details: { provider, error: 'provider_not_allowed' }
+      })
+      // 吊销刚建立的会话，不写入认证 Cookie
+      await createSupabaseAdminClient().auth.admin.signOut(data.session.access_token, 'local')
+      callbackRequests.inc({ outcome: 'provider_not_allowed' })
+      return loginErrorRedirect('provider_not_allowed', redirectTo)
     }
-    
-    // 创建响应并设置认证 Cookie
-    const baseUrl = process.env.NEXT_APP_URL || 'http://localhost:3000'
-    const response = NextResponse.redirect(new URL(finalRedirectUrl, baseUrl))
-    
-    setAuthCookie(response, data.session)
-    
-    // 检查设置后的 Cookie
-    console.log('Response cookies after setAuthCookie:', response.cookies.getAll())
-    console.log('Auth callback successful, redirecting to:', finalRedirectUrl)
-    
-    return response
-    
+
+    // 邮件链接区分注册确认、邀请与魔法链接；PKCE 授权码方式的邮件链接记录为 magic_link
+    let method = 'oauth'
+    if (provider === 'email') {
+      method = linkType === 'signup' || linkType === 'invite' ? linkType : 'magic_link'
+    }
+
+    callbackRequests.inc({ outcome: 'success' })
+    return await completeSignIn(request, data.session, {
+      provider,
+      method,
+      redirect: redirectTo,
+      json: false
+    })
+
   } catch (error) {
-    console.error('Auth callback unexpected error:', error)
-    const baseUrl = process.env.NEXT_APP_URL || 'http://localhost:3000'
-    return NextResponse.redirect(
-      new URL('/login?error=unexpected_error', baseUrl)
-    )
+    log.error('Auth callback unexpected error', { error })
+    callbackRequests.inc({ outcome: 'error' })
+    return loginErrorRedirect('unexpected_error', redirectTo)
   }
 }
 
@@ -72,4 +150,4 @@ export async function GET(request: NextRequest) {
  */
 export async function POST(request: NextRequest) {
   return GET(request)
-}
\ No newline at end of file
+}
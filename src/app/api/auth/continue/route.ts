@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { resolveRedirect } from '@/lib/redirect'
+import { requestLogger } from '@/lib/logger'
+import { getConfig } from '@/lib/config'
+
+/**
+ * 跳转到重定向地址
+ * 客户端页面无法读取应用注册表，跳转前经此接口校验，不安全时进入仪表板
+ * @param request - Next.js 请求对象，redirect 参数为目标地址
+ * @returns 303 跳转
+ */
+export async function GET(request: NextRequest) {
+  const redirect = await resolveRedirect(
+    request.nextUrl.searchParams.get('redirect'),
+    '/dashboard',
+    'continue',
+    requestLogger(request)
+  )
+  return NextResponse.redirect(new URL(redirect, getConfig().appUrl), 303)
+}
@@ -0,0 +1,174 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getBackendForIdentifier, type PasswordSignInResult } from '@/lib/identity-backend'
+import { createLockout } from '@/lib/rate-limit'
+import { getClientIp } from '@/lib/proxy'
+import { recordAuditEvent } from '@/lib/audit'
+import { completeSignIn } from '@/lib/sign-in'
+import { requestLogger } from '@/lib/logger'
+import { loginAttempts } from '@/lib/metrics'
+import { getConfig } from '@/lib/config'
+
+// 登录失败锁定：15 分钟内失败达到次数后锁定，首次锁定 1 分钟，之后逐次翻倍，最长 1 小时
+const LOGIN_FAILURE_WINDOW = 15 * 60 * 1000
+const LOGIN_LOCKOUT = {
+  windowMs: LOGIN_FAILURE_WINDOW,
+  baseLockMs: 60 * 1000,
+  maxLockMs: 60 * 60 * 1000,
+  decayMs: 24 * 60 * 60 * 1000
+}
+const loginIpLockout = createLockout({ ...LOGIN_LOCKOUT, threshold: 20 })
+const loginAccountLockout = createLockout({ ...LOGIN_LOCKOUT, threshold: 5 })
+
+/**
+ * 登录表单
+ */
+interface LoginForm {
+  email: string
+  password: string
+  redirect: string | null
+}
+
+/**
+ * 读取登录表单
+ * 支持 HTML 表单提交（无 JavaScript）与登录页的 JSON 请求
+ */
+async function readLoginForm(request: NextRequest, isJson: boolean): Promise<LoginForm> {
+  const read = (value: unknown) => (typeof value === 'string' ? value : '')
+
+  if (isJson) {
+    const body = await request.json().catch(() => ({}))
+    return {
+      email: read(body.email).trim(),
+      password: read(body.password),
+      redirect: read(body.redirect) || null
+    }
+  }
+
+  const form = await request.formData()
+  return {
+    email: read(form.get('email')).trim(),
+    password: read(form.get('password')),
+    redirect: read(form.get('redirect')) || null
+  }
+}
+
+/**
+ * 生成登录失败响应
+ * JSON 请求返回错误码，表单提交以 303 跳转回登录页并保留原始重定向地址
+ */
+function failureResponse(
+  isJson: boolean,
+  error: string,
+  status: number,
+  redirect: string | null,
+  retryAfter = 0
+) {
+  const headers: Record<string, string> = { 'Cache-Control': 'no-store' }
+  if (retryAfter > 0) {
+    headers['Retry-After'] = String(retryAfter)
+  }
+
+  if (isJson) {
+    return NextResponse.json(
+      retryAfter > 0 ? { error, retryAfter } : { error },
+      { status, headers }
+    )
+  }
+
+  const baseUrl = getConfig().appUrl
+  const loginUrl = new URL('/login', baseUrl)
+  loginUrl.searchParams.set('error', error)
+  if (retryAfter > 0) {
+    loginUrl.searchParams.set('retry_after', String(retryAfter))
+  }
+  if (redirect) {
+    loginUrl.searchParams.set('redirect', redirect)
+  }
+  return NextResponse.redirect(loginUrl, { status: 303, headers })
+}
+
+/**
+ * 邮箱密码登录
+ * 在服务端完成登录并设置认证 Cookie，按 IP 与账户分别限制失败次数
+ * @param request - Next.js 请求对象
+ * @returns JSON 请求返回 { redirect }，表单提交以 303 跳转到目标页面
+ */
+export async function POST(request: NextRequest) {
+  const isJson = (request.headers.get('content-type') || '').includes('application/json')
+  let redirect: string | null = null
+  const log = requestLogger(request)
+
+  try {
+    const form = await readLoginForm(request, isJson)
+    redirect = form.redirect
+
+    if (!form.email || !form.password) {
+      return failureResponse(isJson, 'missing_credentials', 400, redirect)
+    }
+
+    const clientIp = getClientIp(request)
+    const accountKey = form.email.toLowerCase()
+    const backend = getBackendForIdentifier(form.email)
+
+    // 锁定期间直接拒绝，不再向身份后端校验密码
+    const ipLock = loginIpLockout.check(clientIp)
+    const accountLock = loginAccountLockout.check(accountKey)
+    if (!ipLock.allowed || !accountLock.allowed) {
+      const retryAfter = Math.max(ipLock.retryAfter, accountLock.retryAfter)
+      log.info('Login rate limited', { clientIp, email: form.email })
+      loginAttempts.inc({ method: 'password', outcome: 'locked' })
+      recordAuditEvent({
+        type: 'login.failure',
+        user: { email: form.email },
+        request,
+        details: { provider: backend.id, error: 'too_many_attempts', retryAfter }
+      })
+      return failureResponse(isJson, 'too_many_attempts', 429, redirect, retryAfter)
+    }
+
+    // 在等待身份后端之前同步计入失败，并发的猜测请求同样受次数限制
+    // 登录成功或后端出错（服务不可用等，以异常抛出）时撤销本次计数
+    const ipResult = loginIpLockout.fail(clientIp)
+    const accountResult = loginAccountLockout.fail(accountKey)
+    let signIn: PasswordSignInResult
+    try {
+      signIn = await backend.authenticate(form.email, form.password)
+    } catch (error) {
+      loginIpLockout.release(clientIp)
+      loginAccountLockout.release(accountKey)
+      throw error
+    }
+    const { session, error } = signIn
+
+    if (!session) {
+      const code = error || 'no_session'
+      log.info('Login failed', { clientIp, email: form.email, backend: backend.id, code })
+      loginAttempts.inc({ method: 'password', outcome: 'failure' })
+      recordAuditEvent({
+        type: 'login.failure',
+        user: { email: form.email },
+        request,
+        details: {
+          provider: backend.id,
+          error: code,
+          locked: !ipResult.allowed || !accountResult.allowed
+        }
+      })
+      return failureResponse(isJson, code, 401, redirect)
+    }
+
+    loginIpLockout.release(clientIp)
+    loginAccountLockout.reset(accountKey)
+
+    return await completeSignIn(request, session, {
+      provider: backend.id,
+      method: 'password',
+      redirect,
+      json: isJson
+    })
+  } catch (error) {
+    log.error('Password login error', { error })
+    loginAttempts.inc({ method: 'password', outcome: 'error' })
+    return failureResponse(isJson, 'unexpected_error', 500, redirect)
+  }
+}
@@ -1,44 +1,103 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createSupabaseServerClient } from '@/lib/supabase-server'
-import { clearAuthCookie } from '@/lib/auth'
+import { clearAuthCookie, evictCachedSession, readAuthCookie, validateSession } from '@/lib/auth'
+import { getBackendForToken } from '@/lib/identity-backend'
+import { revokeAllUserSessions } from '@/lib/user-sessions'
+import { hashToken } from '@/lib/tokens'
+import { getLogoutApplications } from '@/lib/applications'
+import { sendBackchannelLogout, type BackchannelLogoutResult } from '@/lib/single-logout'
+import { recordAuditEvent } from '@/lib/audit'
+import { requestLogger } from '@/lib/logger'
+import { resolveRedirect } from '@/lib/redirect'
+import { getConfig } from '@/lib/config'
 
 /**
  * 用户登出接口
- * 清除用户会话和认证 Cookie
+ * 清除用户会话和认证 Cookie，并通知已注册的应用
  * @param request - Next.js 请求对象
- * @returns 重定向到登录页面
+ * @returns 有应用配置了登出地址时重定向到登出结果页，否则重定向到登录页
  */
 export async function POST(request: NextRequest) {
   try {
-    const supabase = await createSupabaseServerClient()
+    // 登出前记录当前会话，用于通知应用
+    const sessionData = await validateSession(request)
     
-    // 从 Supabase 登出
-    const { error } = await supabase.auth.signOut()
+    // 登出该用户的全部会话
+    // Supabase 登出只删除 auth.sessions，已签发的访问令牌在过期前仍能通过校验，
+    // 因此记录会话的后端改为吊销会话：删除 auth.sessions 的同时写入 session_activity.revoked_at
+    const accessToken = readAuthCookie(request)?.access_token
+    if (accessToken) {
+      const backend = getBackendForToken(accessToken)
+      let revoked = false
+      if (backend.tracksSessions && sessionData?.method === 'cookie') {
+        try {
+          await revokeAllUserSessions(sessionData.user.id)
+          revoked = true
+        } catch (error) {
+          requestLogger(request).error('Logout session revocation error', { error })
+        }
+      }
+      if (!revoked) {
+        await backend.signOut(accessToken, 'global')
+      }
+      evictCachedSession(hashToken(accessToken))
+    }
+    
+    // 后端通道登出：服务端向应用发送签名的 logout_token
+    let backchannelResults: BackchannelLogoutResult[] = []
+    if (sessionData && sessionData.method === 'cookie') {
+      backchannelResults = await sendBackchannelLogout({
+        userId: sessionData.user.id,
+        sessionId: sessionData.user.session_id || null
+      })
+    }
     
-    if (error) {
-      console.error('Logout error:', error)
+    if (sessionData) {
+      recordAuditEvent({
+        type: 'logout',
+        user: sessionData.user,
+        request,
+        details: {
+          sessionId: sessionData.user.session_id || null,
+          backchannel: backchannelResults
+        }
+      })
     }
     
-    // 获取重定向 URL
+    // 获取重定向 URL，不安全时回到登录页
     const { searchParams } = new URL(request.url)
-    const redirectTo = searchParams.get('redirect') || '/login'
+    const redirectTo = await resolveRedirect(searchParams.get('redirect'), '/login', 'logout', requestLogger(request))
+    
+    // 有应用配置了登出地址时先进入登出结果页，由其完成前端通道登出并展示各应用的确认状态
+    const baseUrl = getConfig().appUrl
+    let destination = new URL(redirectTo, baseUrl)
+    if ((await getLogoutApplications()).length > 0) {
+      destination = new URL('/logout', baseUrl)
+      destination.searchParams.set('redirect', redirectTo)
+      const confirmed = backchannelResults.filter(result => result.ok).map(result => result.appId)
+      const failed = backchannelResults.filter(result => !result.ok).map(result => result.appId)
+      if (confirmed.length > 0) {
+        destination.searchParams.set('confirmed', confirmed.join(','))
+      }
+      if (failed.length > 0) {
+        destination.searchParams.set('failed', failed.join(','))
+      }
+    }
     
     // 创建响应并清除认证 Cookie
-    const baseUrl = process.env.NEXT_APP_URL || 'http://localhost:3000'
-    const response = NextResponse.redirect(new URL(redirectTo, baseUrl))
-    clearAuthCookie(response)
+    const response = NextResponse.redirect(destination)
+    clearAuthCookie(response, request)
     
-    console.log('User logged out successfully')
+    requestLogger(request).info('User logged out successfully')
     
     return response
     
   } catch (error) {
-    console.error('Logout unexpected error:', error)
+    requestLogger(request).error('Logout unexpected error', { error })
     
     // 即使发生错误也要清除 Cookie
-    const baseUrl = process.env.NEXT_APP_URL || 'http://localhost:3000'
+    const baseUrl = getConfig().appUrl
     const response = NextResponse.redirect(new URL('/login', baseUrl))
-    clearAuthCookie(response)
+    clearAuthCookie(response, request)
     
     return response
   }
@@ -0,0 +1,32 @@
+import { NextRequest } from 'next/server'
+import { handleForwardAuth } from '@/lib/forward-auth'
+import { nginxProxy } from '@/lib/proxy'
+
+/**
+ * nginx auth_request 验证接口
+ * 原始请求信息来自 X-Original-URL / X-Original-Method
+ * @param request - Next.js 请求对象
+ * @returns 200 表示已认证，401 表示需要登录（登录地址见 X-Auth-Login-Url 头部），403 表示访问策略拒绝
+ */
+export async function GET(request: NextRequest) {
+  return handleForwardAuth(request, nginxProxy)
+}
+
+/**
+ * auth_request 子请求沿用原始请求的方法，其余方法按 GET 处理
+ */
+export async function POST(request: NextRequest) {
+  return GET(request)
+}
+
+export async function PUT(request: NextRequest) {
+  return GET(request)
+}
+
+export async function PATCH(request: NextRequest) {
+  return GET(request)
+}
+
+export async function DELETE(request: NextRequest) {
+  return GET(request)
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isAuthApiError } from '@supabase/supabase-js'
+import { createSupabaseServerClient } from '@/lib/supabase-server'
+import { createRateLimiter } from '@/lib/rate-limit'
+import { getClientIp } from '@/lib/proxy'
+import { recordAuditEvent } from '@/lib/audit'
+import { requestLogger } from '@/lib/logger'
+import { getConfig } from '@/lib/config'
+
+// 同一邮箱两次发送之间的冷却时间（秒），应与 Supabase 的邮件发送频率限制一致
+const OTP_RESEND_COOLDOWN = getConfig().otpResendCooldown
+
+const otpEmailLimiter = createRateLimiter({ limit: 1, windowMs: OTP_RESEND_COOLDOWN * 1000 })
+const otpIpLimiter = createRateLimiter({ limit: 10, windowMs: 15 * 60 * 1000 })
+
+// 邮箱未注册时 Supabase 返回的错误码，不向客户端透露邮箱是否存在
+const UNKNOWN_USER_ERROR_CODES = ['otp_disabled', 'signup_disabled', 'user_not_found']
+
+/**
+ * 发送无密码登录邮件
+ * 邮件同时包含魔法链接与 6 位验证码，链接经 /api/auth/callback 登录并保留原始重定向地址
+ * 只允许已注册的用户登录，同一邮箱在冷却时间内不能重复发送
+ * 请求体：{ email, redirect }
+ * @param request - Next.js 请求对象
+ * @returns { retryAfter }，客户端据此显示重新发送倒计时
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null)
+    const email = typeof body?.email === 'string' ? body.email.trim() : ''
+    const redirect = typeof body?.redirect === 'string' ? body.redirect : ''
+    if (!email) {
+      return NextResponse.json({ error: 'missing_email' }, { status: 400 })
+    }
+
+    const clientIp = getClientIp(request)
+    const emailKey = email.toLowerCase()
+    const ipLimit = otpIpLimiter.check(clientIp)
+    const emailLimit = otpEmailLimiter.check(emailKey)
+    if (!ipLimit.allowed || !emailLimit.allowed) {
+      const retryAfter = Math.max(ipLimit.retryAfter, emailLimit.retryAfter)
+      return NextResponse.json(
+        { error: 'too_many_attempts', retryAfter },
+        { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+      )
+    }
+    otpIpLimiter.hit(clientIp)
+    otpEmailLimiter.hit(emailKey)
+
+    // 始终带上 redirect 参数，邮件模板可以直接在链接后追加 &token_hash=
+    const baseUrl = getConfig().appUrl
+    const callbackUrl = new URL('/api/auth/callback', baseUrl)
+    callbackUrl.searchParams.set('redirect', redirect || '/dashboard')
+
+    // 使用 Cookie 客户端发送，PKCE 校验码写入当前浏览器，魔法链接回调时用于换取会话
+    const supabase = await createSupabaseServerClient()
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: {
+        emailRedirectTo: callbackUrl.toString(),
+        shouldCreateUser: false
+      }
+    })
+
+    if (error) {
+      if (!isAuthApiError(error)) {
+        throw error
+      }
+      if (error.code === 'over_email_send_rate_limit') {
+        return NextResponse.json(
+          { error: 'too_many_attempts', retryAfter: OTP_RESEND_COOLDOWN },
+          { status: 429, headers: { 'Retry-After': String(OTP_RESEND_COOLDOWN) } }
+        )
+      }
+      if (!error.code || !UNKNOWN_USER_ERROR_CODES.includes(error.code)) {
+        throw error
+      }
+      requestLogger(request).info('Passwordless login for unknown email', { email })
+    }
+
+    recordAuditEvent({
+      type: 'login.otp_send',
+      user: { email },
+      request,
+      details: { sent: !error, redirect: redirect || null }
+    })
+
+    return NextResponse.json(
+      { retryAfter: OTP_RESEND_COOLDOWN },
+      { headers: { 'Cache-Control': 'no-store' } }
+    )
+
+  } catch (error) {
+    requestLogger(request).error('Send login OTP error', { error })
+    return NextResponse.json({ error: 'unexpected_error' }, { status: 500 })
+  }
+}
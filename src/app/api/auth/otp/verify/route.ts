@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isAuthApiError } from '@supabase/supabase-js'
+import { createSupabaseAdminClient } from '@/lib/supabase-server'
+import { createLockout } from '@/lib/rate-limit'
+import { recordAuditEvent } from '@/lib/audit'
+import { completeSignIn } from '@/lib/sign-in'
+import { requestLogger } from '@/lib/logger'
+import { loginAttempts, recordSupabaseError } from '@/lib/metrics'
+
+// 验证码失败锁定：15 分钟内失败 5 次后锁定，首次锁定 5 分钟，之后逐次翻倍，最长 1 小时
+const otpLockout = createLockout({
+  threshold: 5,
+  windowMs: 15 * 60 * 1000,
+  baseLockMs: 5 * 60 * 1000,
+  maxLockMs: 60 * 60 * 1000,
+  decayMs: 24 * 60 * 60 * 1000
+})
+
+/**
+ * 使用邮件中的 6 位验证码登录
+ * Supabase 对错误与过期的验证码返回同一个错误码 otp_expired
+ * 请求体：{ email, token, redirect }
+ * @param request - Next.js 请求对象
+ * @returns { redirect }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null)
+    const email = typeof body?.email === 'string' ? body.email.trim() : ''
+    const token = typeof body?.token === 'string' ? body.token.trim() : ''
+    const redirect = typeof body?.redirect === 'string' ? body.redirect : null
+    if (!email || !/^\d{6}$/.test(token)) {
+      return NextResponse.json({ error: 'invalid_otp' }, { status: 400 })
+    }
+
+    const emailKey = email.toLowerCase()
+    const lock = otpLockout.check(emailKey)
+    if (!lock.allowed) {
+      loginAttempts.inc({ method: 'otp', outcome: 'locked' })
+      return NextResponse.json(
+        { error: 'too_many_attempts', retryAfter: lock.retryAfter },
+        { status: 429, headers: { 'Retry-After': String(lock.retryAfter) } }
+      )
+    }
+
+    // 在等待 Supabase 之前同步计入失败，并发请求无法绕过次数限制穷举验证码；Supabase 出错时撤销
+    otpLockout.fail(emailKey)
+
+    const supabase = createSupabaseAdminClient()
+    const { data, error } = await supabase.auth.verifyOtp({ email, token, type: 'email' })
+
+    if (error || !data.session) {
+      if (error) {
+        recordSupabaseError('verify_otp', error)
+      }
+      if (error && !isAuthApiError(error)) {
+        otpLockout.release(emailKey)
+        throw error
+      }
+
+      const code = error?.code || 'no_session'
+      requestLogger(request).info('Login OTP rejected', { email, code })
+      loginAttempts.inc({ method: 'otp', outcome: 'failure' })
+      recordAuditEvent({
+        type: 'login.failure',
+        user: { email },
+        request,
+        details: { provider: 'email', method: 'otp', error: code }
+      })
+      return NextResponse.json({ error: code }, { status: 401 })
+    }
+
+    otpLockout.reset(emailKey)
+
+    return await completeSignIn(request, data.session, {
+      provider: 'email',
+      method: 'otp',
+      redirect,
+      json: true
+    })
+
+  } catch (error) {
+    requestLogger(request).error('Verify login OTP error', { error })
+    loginAttempts.inc({ method: 'otp', outcome: 'error' })
+    return NextResponse.json({ error: 'unexpected_error' }, { status: 500 })
+  }
+}
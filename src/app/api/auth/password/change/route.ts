@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isAuthApiError, type AuthTokenResponsePassword } from '@supabase/supabase-js'
+import { createSupabaseAdminClient } from '@/lib/supabase-server'
+import { validateSession } from '@/lib/auth'
+import { isStepUpRequired } from '@/lib/mfa'
+import { checkPasswordStrength } from '@/lib/password'
+import { createLockout } from '@/lib/rate-limit'
+import { revokeOtherUserSessions } from '@/lib/user-sessions'
+import { recordAuditEvent } from '@/lib/audit'
+import { requestLogger } from '@/lib/logger'
+
+// 当前密码校验失败锁定：15 分钟内失败 5 次后锁定，首次锁定 5 分钟，之后逐次翻倍，最长 1 小时
+const changeLockout = createLockout({
+  threshold: 5,
+  windowMs: 15 * 60 * 1000,
+  baseLockMs: 5 * 60 * 1000,
+  maxLockMs: 60 * 60 * 1000,
+  decayMs: 24 * 60 * 60 * 1000
+})
+
+/**
+ * 修改密码
+ * 需要提供当前密码；已绑定验证器的用户需要先完成二次验证
+ * 修改成功后吊销除当前会话外的全部会话
+ * 请求体：{ currentPassword, newPassword }
+ * @param request - Next.js 请求对象
+ * @returns 被吊销的会话数量
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const sessionData = await validateSession(request)
+    if (!sessionData || sessionData.method !== 'cookie' || !sessionData.user.email) {
+      return NextResponse.json({ error: 'unauthenticated' }, { status: 401 })
+    }
+
+    const { user } = sessionData
+    const body = await request.json().catch(() => null)
+    const currentPassword = typeof body?.currentPassword === 'string' ? body.currentPassword : ''
+    const newPassword = typeof body?.newPassword === 'string' ? body.newPassword : ''
+    if (!currentPassword) {
+      return NextResponse.json({ error: 'missing_credentials' }, { status: 400 })
+    }
+
+    const failedRules = checkPasswordStrength(newPassword, user.email)
+    if (failedRules.length > 0) {
+      return NextResponse.json({ error: 'weak_password', rules: failedRules }, { status: 400 })
+    }
+    if (newPassword === currentPassword) {
+      return NextResponse.json({ error: 'same_password' }, { status: 400 })
+    }
+
+    if (await isStepUpRequired(user.id, user.aal)) {
+      return NextResponse.json({ error: 'mfa_required' }, { status: 403 })
+    }
+
+    const lock = changeLockout.check(user.id)
+    if (!lock.allowed) {
+      return NextResponse.json(
+        { error: 'too_many_attempts', retryAfter: lock.retryAfter },
+        { status: 429, headers: { 'Retry-After': String(lock.retryAfter) } }
+      )
+    }
+
+    // 在校验之前同步计入失败，并发的猜测请求同样受次数限制；校验出错（以异常抛出）时撤销本次计数
+    changeLockout.fail(user.id)
+
+    // 以当前密码登录一次校验密码，随即吊销这次登录建立的会话
+    const supabase = createSupabaseAdminClient()
+    let signIn: AuthTokenResponsePassword
+    try {
+      signIn = await supabase.auth.signInWithPassword({
+        email: user.email!,
+        password: currentPassword
+      })
+    } catch (error) {
+      changeLockout.release(user.id)
+      throw error
+    }
+    const { data, error: verifyError } = signIn
+    if (data.session) {
+      await supabase.auth.admin.signOut(data.session.access_token, 'local')
+    }
+    if (verifyError || !data.session) {
+      if (verifyError && !isAuthApiError(verifyError)) {
+        changeLockout.release(user.id)
+        throw verifyError
+      }
+      requestLogger(request).info('Password change rejected', { email: user.email })
+      recordAuditEvent({
+        type: 'password.change_failure',
+        user,
+        request,
+        details: { error: 'invalid_current_password' }
+      })
+      return NextResponse.json({ error: 'invalid_current_password' }, { status: 400 })
+    }
+    changeLockout.reset(user.id)
+
+    const { error } = await supabase.auth.admin.updateUserById(user.id, { password: newPassword })
+    if (error) {
+      // Supabase 项目自身的密码策略拒绝
+      if (isAuthApiError(error) && error.status < 500) {
+        return NextResponse.json({ error: error.code || 'weak_password' }, { status: 400 })
+      }
+      throw error
+    }
+
+    const revoked = await revokeOtherUserSessions(user.id, user.session_id || null)
+
+    requestLogger(request).info('Password changed', { email: user.email, revoked })
+    recordAuditEvent({
+      type: 'password.change',
+      user,
+      request,
+      details: { revokedSessions: revoked }
+    })
+
+    return NextResponse.json({ revoked })
+
+  } catch (error) {
+    requestLogger(request).error('Password change error', { error })
+    return NextResponse.json({ error: 'unexpected_error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isAuthApiError } from '@supabase/supabase-js'
+import { createSupabaseServerClient } from '@/lib/supabase-server'
+import { createRateLimiter } from '@/lib/rate-limit'
+import { getClientIp } from '@/lib/proxy'
+import { recordAuditEvent } from '@/lib/audit'
+import { requestLogger } from '@/lib/logger'
+import { getConfig } from '@/lib/config'
+
+// 同一邮箱两次发送重置邮件的冷却时间（秒）
+const RESET_EMAIL_COOLDOWN = 60
+
+const resetEmailLimiter = createRateLimiter({ limit: 1, windowMs: RESET_EMAIL_COOLDOWN * 1000 })
+const resetIpLimiter = createRateLimiter({ limit: 10, windowMs: 15 * 60 * 1000 })
+
+/**
+ * 发送重置密码邮件
+ * 无论邮箱是否注册都返回成功，不透露邮箱是否存在
+ * 请求体：{ email }
+ * @param request - Next.js 请求对象
+ * @returns { retryAfter }，客户端据此显示重新发送倒计时
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null)
+    const email = typeof body?.email === 'string' ? body.email.trim() : ''
+    if (!email) {
+      return NextResponse.json({ error: 'missing_email' }, { status: 400 })
+    }
+
+    const clientIp = getClientIp(request)
+    const emailKey = email.toLowerCase()
+    const ipLimit = resetIpLimiter.check(clientIp)
+    const emailLimit = resetEmailLimiter.check(emailKey)
+    if (!ipLimit.allowed || !emailLimit.allowed) {
+      const retryAfter = Math.max(ipLimit.retryAfter, emailLimit.retryAfter)
+      return NextResponse.json(
+        { error: 'too_many_attempts', retryAfter },
+        { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+      )
+    }
+    resetIpLimiter.hit(clientIp)
+    resetEmailLimiter.hit(emailKey)
+
+    // 使用 Cookie 客户端发送，PKCE 校验码写入当前浏览器，重置链接落地时用于换取会话
+    const baseUrl = getConfig().appUrl
+    const supabase = await createSupabaseServerClient()
+    const { error } = await supabase.auth.resetPasswordForEmail(email, {
+      redirectTo: new URL('/api/auth/recovery', baseUrl).toString()
+    })
+
+    if (error) {
+      if (!isAuthApiError(error)) {
+        throw error
+      }
+      if (error.code === 'over_email_send_rate_limit') {
+        return NextResponse.json(
+          { error: 'too_many_attempts', retryAfter: RESET_EMAIL_COOLDOWN },
+          { status: 429, headers: { 'Retry-After': String(RESET_EMAIL_COOLDOWN) } }
+        )
+      }
+      requestLogger(request).info('Password reset email rejected', { email, code: error.code })
+    }
+
+    recordAuditEvent({
+      type: 'password.reset_request',
+      user: { email },
+      request,
+      details: { sent: !error }
+    })
+
+    return NextResponse.json(
+      { retryAfter: RESET_EMAIL_COOLDOWN },
+      { headers: { 'Cache-Control': 'no-store' } }
+    )
+
+  } catch (error) {
+    requestLogger(request).error('Send password reset email error', { error })
+    return NextResponse.json({ error: 'unexpected_error' }, { status: 500 })
+  }
+}
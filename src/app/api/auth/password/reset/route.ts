@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isAuthApiError } from '@supabase/supabase-js'
+import { createSupabaseAdminClient } from '@/lib/supabase-server'
+import { clearAuthCookie } from '@/lib/auth'
+import { getRecoveryUser, clearRecoveryCookie } from '@/lib/password-recovery'
+import { checkPasswordStrength } from '@/lib/password'
+import { revokeAllUserSessions } from '@/lib/user-sessions'
+import { recordAuditEvent } from '@/lib/audit'
+import { requestLogger } from '@/lib/logger'
+
+/**
+ * 获取正在重置密码的账户
+ * @param request - Next.js 请求对象
+ * @returns { email }，重置链接已失效时返回 401
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const recovery = await getRecoveryUser(request)
+    if (!recovery) {
+      return NextResponse.json({ error: 'recovery_expired' }, { status: 401 })
+    }
+
+    return NextResponse.json(
+      { email: recovery.user.email },
+      { headers: { 'Cache-Control': 'no-store' } }
+    )
+
+  } catch (error) {
+    requestLogger(request).error('Get password recovery error', { error })
+    return NextResponse.json({ error: 'unexpected_error' }, { status: 500 })
+  }
+}
+
+/**
+ * 设置新密码
+ * 设置成功后吊销该用户的全部会话，用户需要使用新密码重新登录
+ * 请求体：{ password }
+ * @param request - Next.js 请求对象
+ * @returns 被吊销的会话数量
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const recovery = await getRecoveryUser(request)
+    if (!recovery) {
+      return NextResponse.json({ error: 'recovery_expired' }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => null)
+    const password = typeof body?.password === 'string' ? body.password : ''
+    const failedRules = checkPasswordStrength(password, recovery.user.email)
+    if (failedRules.length > 0) {
+      return NextResponse.json({ error: 'weak_password', rules: failedRules }, { status: 400 })
+    }
+
+    const supabase = createSupabaseAdminClient()
+    const { error } = await supabase.auth.admin.updateUserById(recovery.user.id, { password })
+    if (error) {
+      // Supabase 项目自身的密码策略拒绝
+      if (isAuthApiError(error) && error.status < 500) {
+        return NextResponse.json({ error: error.code || 'weak_password' }, { status: 400 })
+      }
+      throw error
+    }
+
+    const revoked = await revokeAllUserSessions(recovery.user.id)
+
+    requestLogger(request).info('Password reset', { email: recovery.user.email, revoked })
+    recordAuditEvent({
+      type: 'password.reset',
+      user: recovery.user,
+      request,
+      details: { revokedSessions: revoked }
+    })
+
+    const response = NextResponse.json({ revoked })
+    clearRecoveryCookie(request, response)
+    clearAuthCookie(response, request)
+    return response
+
+  } catch (error) {
+    requestLogger(request).error('Password reset error', { error })
+    return NextResponse.json({ error: 'unexpected_error' }, { status: 500 })
+  }
+}
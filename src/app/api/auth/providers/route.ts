@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server'
+import { getAuthProviders } from '@/lib/auth-providers'
+import { logger } from '@/lib/logger'
+
+/**
+ * 获取登录页显示的第三方登录提供商
+ * 不返回邮箱域限制，限制在登录回调中检查
+ * @returns 提供商列表
+ */
+export async function GET() {
+  try {
+    const providers = await getAuthProviders()
+    
+    return NextResponse.json({
+      providers: providers.map(({ provider, label, icon, scopes, queryParams }) => ({
+        provider,
+        label,
+        icon: icon || null,
+        scopes: scopes || [],
+        queryParams: queryParams || {}
+      }))
+    }, {
+      headers: {
+        'Cache-Control': 'no-store'
+      }
+    })
+    
+  } catch (error) {
+    logger.error('List auth providers error', { error })
+    return NextResponse.json({ error: 'unexpected_error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createSupabaseServerClient, createSupabaseAdminClient } from '@/lib/supabase-server'
+import { isRecoverySession, startPasswordRecovery } from '@/lib/password-recovery'
+import { recordAuditEvent } from '@/lib/audit'
+import { requestLogger } from '@/lib/logger'
+import { getConfig } from '@/lib/config'
+
+// 链接或授权码过期时 Supabase 返回的错误码
+const EXPIRED_ERROR_CODES = ['otp_expired', 'flow_state_expired', 'flow_state_not_found']
+
+/**
+ * 跳转回找回密码页并显示错误
+ * @param error - 错误码
+ */
+function forgotPasswordRedirect(error: string) {
+  const baseUrl = getConfig().appUrl
+  const url = new URL('/forgot-password', baseUrl)
+  url.searchParams.set('error', error)
+  return NextResponse.redirect(url)
+}
+
+/**
+ * 重置密码链接落地
+ * 处理 Supabase 重置密码邮件的回调：code 为 PKCE 授权码，token_hash 来自自定义邮件模板；
+ * 验证通过后跳转到设置新密码页面，不建立登录会话
+ * @param request - Next.js 请求对象
+ * @returns 重定向到设置新密码页面，链接无效时回到找回密码页面
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const code = searchParams.get('code')
+    const tokenHash = searchParams.get('token_hash')
+
+    const linkError = searchParams.get('error')
+    if (linkError) {
+      const errorCode = searchParams.get('error_code')
+      requestLogger(request).error('Password recovery link error', { linkError, errorCode })
+      return forgotPasswordRedirect(
+        errorCode && EXPIRED_ERROR_CODES.includes(errorCode) ? 'otp_expired' : 'invalid_link'
+      )
+    }
+
+    if (!code && !(tokenHash && searchParams.get('type') === 'recovery')) {
+      return forgotPasswordRedirect('invalid_link')
+    }
+
+    const { data, error } = code
+      ? await (await createSupabaseServerClient()).auth.exchangeCodeForSession(code)
+      : await createSupabaseAdminClient().auth.verifyOtp({ token_hash: tokenHash!, type: 'recovery' })
+
+    if (error || !data.session) {
+      requestLogger(request).error('Password recovery verify error', { error })
+      const expired = !!error?.code && EXPIRED_ERROR_CODES.includes(error.code)
+      return forgotPasswordRedirect(expired ? 'otp_expired' : 'invalid_link')
+    }
+
+    // 只接受重置密码链接，登录链接的授权码不能用于重置密码
+    if (!isRecoverySession(data.session)) {
+      await createSupabaseAdminClient().auth.admin.signOut(data.session.access_token, 'local')
+      return forgotPasswordRedirect('invalid_link')
+    }
+
+    recordAuditEvent({
+      type: 'password.recovery',
+      user: data.session.user,
+      request
+    })
+
+    return startPasswordRecovery(data.session)
+
+  } catch (error) {
+    requestLogger(request).error('Password recovery unexpected error', { error })
+    return forgotPasswordRedirect('unexpected_error')
+  }
+}
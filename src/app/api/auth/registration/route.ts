@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server'
+import { getRegistrationPolicy } from '@/lib/registration'
+
+/**
+ * 获取注册策略，登录页据此决定是否显示注册入口与邀请码输入框
+ * @returns 注册模式与允许注册的邮箱域
+ */
+export async function GET() {
+  const { mode, emailDomains } = getRegistrationPolicy()
+
+  return NextResponse.json({
+    mode,
+    emailDomains
+  }, {
+    headers: {
+      'Cache-Control': 'no-store'
+    }
+  })
+}
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isAuthApiError } from '@supabase/supabase-js'
+import { createSupabaseServerClient, createSupabaseAdminClient } from '@/lib/supabase-server'
+import { checkRegistration, consumeInvitation } from '@/lib/registration'
+import { checkPasswordStrength } from '@/lib/password'
+import { createRateLimiter } from '@/lib/rate-limit'
+import { getClientIp } from '@/lib/proxy'
+import { recordAuditEvent } from '@/lib/audit'
+import { requestLogger } from '@/lib/logger'
+import { getConfig } from '@/lib/config'
+
+const signupIpLimiter = createRateLimiter({ limit: 10, windowMs: 60 * 60 * 1000 })
+
+/**
+ * 注册账户
+ * 按注册策略在服务端检查后通过 Admin API 创建账户，再发送魔法链接确认邮箱并登录。
+ * Supabase 项目可以因此关闭自助注册，绕过登录页直接调用 Supabase 注册接口的请求会被拒绝
+ * 邮箱已注册时同样返回成功并发送登录链接，不透露邮箱是否存在
+ * 请求体：{ email, password, invite, redirect }
+ * @param request - Next.js 请求对象
+ * @returns 201 表示已发送确认邮件
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null)
+    const email = typeof body?.email === 'string' ? body.email.trim().toLowerCase() : ''
+    const password = typeof body?.password === 'string' ? body.password : ''
+    const invite = typeof body?.invite === 'string' ? body.invite.trim() : ''
+    const redirect = typeof body?.redirect === 'string' ? body.redirect : ''
+    if (!/^[^\s@]+@[^\s@]+$/.test(email)) {
+      return NextResponse.json({ error: 'invalid_email' }, { status: 400 })
+    }
+
+    const clientIp = getClientIp(request)
+    const limit = signupIpLimiter.hit(clientIp)
+    if (!limit.allowed) {
+      return NextResponse.json(
+        { error: 'too_many_attempts', retryAfter: limit.retryAfter },
+        { status: 429, headers: { 'Retry-After': String(limit.retryAfter) } }
+      )
+    }
+
+    const decision = await checkRegistration(email, invite || null)
+    if (!decision.allowed) {
+      requestLogger(request).info('Signup denied', { email, reason: decision.reason })
+      recordAuditEvent({
+        type: 'signup.denied',
+        user: { email },
+        request,
+        details: { error: decision.reason }
+      })
+      return NextResponse.json({ error: decision.reason }, { status: 403 })
+    }
+
+    const failedRules = checkPasswordStrength(password, email)
+    if (failedRules.length > 0) {
+      return NextResponse.json({ error: 'weak_password', rules: failedRules }, { status: 400 })
+    }
+
+    const admin = createSupabaseAdminClient()
+    const { data, error } = await admin.auth.admin.createUser({
+      email,
+      password,
+      email_confirm: false,
+      app_metadata: { registration: decision.method }
+    })
+
+    if (error && !(isAuthApiError(error) && error.code === 'email_exists')) {
+      throw error
+    }
+
+    if (data.user) {
+      // 邀请在账户创建后才标记为已使用；并发注册时失败的一方删除刚创建的账户
+      if (decision.invitationId && !await consumeInvitation(decision.invitationId, data.user.id)) {
+        await admin.auth.admin.deleteUser(data.user.id)
+        return NextResponse.json({ error: 'invalid_invitation' }, { status: 403 })
+      }
+
+      requestLogger(request).info('User registered', { email, method: decision.method })
+      recordAuditEvent({
+        type: 'signup.success',
+        user: data.user,
+        request,
+        details: { method: decision.method, invitationId: decision.invitationId }
+      })
+    }
+
+    // 登录链接同时完成邮箱确认，使用 Cookie 客户端发送以便 PKCE 授权码在当前浏览器中换取会话
+    const baseUrl = getConfig().appUrl
+    const callbackUrl = new URL('/api/auth/callback', baseUrl)
+    callbackUrl.searchParams.set('redirect', redirect || '/dashboard')
+
+    const supabase = await createSupabaseServerClient()
+    const { error: otpError } = await supabase.auth.signInWithOtp({
+      email,
+      options: {
+        emailRedirectTo: callbackUrl.toString(),
+        shouldCreateUser: false
+      }
+    })
+    if (otpError) {
+      requestLogger(request).error('Signup confirmation email error', { error: otpError })
+    }
+
+    return NextResponse.json({ sent: true }, { status: 201 })
+
+  } catch (error) {
+    requestLogger(request).error('Signup error', { error })
+    return NextResponse.json({ error: 'unexpected_error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,285 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getBearerToken } from '@/lib/auth'
+import { getConfig } from '@/lib/config'
+import { renderDevConsentPage } from '@/lib/dev-consent'
+import {
+  createDevAuthorizationCode,
+  createDevEmailToken,
+  exchangeDevAuthorizationCode,
+  getDevSessionUser,
+  getDevUser,
+  listDevUsers,
+  refreshDevSession,
+  signInDevUserWithPassword,
+  signOutDevSession,
+  updateDevUser,
+  verifyDevEmailToken
+} from '@/lib/dev-identity'
+import { requestLogger } from '@/lib/logger'
+
+type RouteContext = { params: Promise<{ path: string[] }> }
+
+/**
+ * 以 Supabase Auth 的错误格式返回
+ */
+function authError(status: number, errorCode: string, message: string) {
+  return NextResponse.json({ code: status, error_code: errorCode, msg: message }, { status })
+}
+
+/**
+ * 校验 apikey 请求头
+ * 与 Supabase 一致，anon key 与 service role key 均可调用公开接口
+ */
+function hasApiKey(request: NextRequest): boolean {
+  const { anonKey, serviceRoleKey } = getConfig().supabase
+  const apiKey = request.headers.get('apikey')
+  return apiKey === anonKey || apiKey === serviceRoleKey
+}
+
+/**
+ * 校验 Admin API 调用方持有 service role key
+ */
+function isServiceRole(request: NextRequest): boolean {
+  return getBearerToken(request) === getConfig().supabase.serviceRoleKey
+}
+
+/**
+ * 校验授权完成后的跳转地址
+ * 模拟提供商只会跳回本服务，避免被用作开放重定向
+ */
+function isAllowedRedirect(redirectTo: string | null): redirectTo is string {
+  if (!redirectTo) {
+    return false
+  }
+  try {
+    return new URL(redirectTo).origin === new URL(getConfig().appUrl).origin
+  } catch {
+    return false
+  }
+}
+
+/**
+ * 在跳转地址后追加查询参数
+ */
+function withParams(redirectTo: string, params: Record<string, string>): string {
+  const url = new URL(redirectTo)
+  for (const [key, value] of Object.entries(params)) {
+    url.searchParams.set(key, value)
+  }
+  return url.toString()
+}
+
+/**
+ * 开发身份模式的模拟 Supabase Auth 接口
+ * 实现本服务与浏览器端 supabase-js 调用到的接口子集，其余接口返回 501
+ * 未启用 AUTH_DEV_MODE 时整个路由返回 404
+ */
+async function handle(request: NextRequest, { params }: RouteContext) {
+  if (!getConfig().devMode) {
+    return NextResponse.json({ error: 'not_found' }, { status: 404 })
+  }
+
+  const { path } = await params
+  const endpoint = path.join('/')
+  const log = requestLogger(request).child({ devAuth: `${request.method} ${endpoint}` })
+
+  try {
+    // 健康检查与模拟授权页面由浏览器或探针直接访问，不要求 apikey
+    if (request.method === 'GET' && endpoint === 'health') {
+      return NextResponse.json({ name: 'dev-identity', description: 'Development identity provider' })
+    }
+    if (endpoint === 'authorize') {
+      return request.method === 'GET' ? authorize(request) : completeAuthorization(request)
+    }
+
+    if (path[0] === 'admin') {
+      if (!isServiceRole(request)) {
+        return authError(403, 'not_admin', 'User not allowed')
+      }
+      return admin(request, path.slice(1))
+    }
+
+    if (!hasApiKey(request)) {
+      return authError(401, 'no_authorization', 'Invalid API key')
+    }
+
+    switch (`${request.method} ${endpoint}`) {
+      case 'GET settings':
+        return NextResponse.json({ external: { email: true }, disable_signup: true, mailer_autoconfirm: true })
+      case 'POST token':
+        return token(request)
+      case 'GET user': {
+        const current = await getDevSessionUser(getBearerToken(request) || '')
+        return current ? NextResponse.json(current.user) : authError(403, 'bad_jwt', 'invalid JWT')
+      }
+      case 'POST logout': {
+        const scope = request.nextUrl.searchParams.get('scope')
+        await signOutDevSession(
+          getBearerToken(request) || '',
+          scope === 'global' || scope === 'others' ? scope : 'local'
+        )
+        return new NextResponse(null, { status: 204 })
+      }
+      case 'POST otp':
+      case 'POST recover':
+        return sendEmailToken(request, endpoint === 'recover' ? 'recovery' : 'magiclink', log)
+      case 'POST verify':
+        return verify(request)
+    }
+
+    log.warn('Development identity endpoint not implemented')
+    return authError(501, 'not_implemented', `${endpoint} is not available in development identity mode`)
+  } catch (error) {
+    log.error('Development identity error', { error })
+    return authError(500, 'unexpected_failure', 'Unexpected failure')
+  }
+}
+
+/**
+ * GET /authorize：显示模拟授权页面
+ */
+async function authorize(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams
+  const redirectTo = searchParams.get('redirect_to')
+  if (!isAllowedRedirect(redirectTo)) {
+    return authError(400, 'validation_failed', 'redirect_to must point to this service')
+  }
+
+  const html = renderDevConsentPage({
+    provider: searchParams.get('provider') || 'oauth',
+    redirectTo,
+    codeChallenge: searchParams.get('code_challenge'),
+    codeChallengeMethod: searchParams.get('code_challenge_method')
+  }, await listDevUsers())
+
+  return new NextResponse(html, {
+    headers: { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store' }
+  })
+}
+
+/**
+ * POST /authorize：提交模拟授权页面
+ * 选择用户后携带授权码跳回，拒绝时与真实提供商一样携带 error=access_denied
+ */
+async function completeAuthorization(request: NextRequest) {
+  const form = await request.formData()
+  const field = (name: string) => {
+    const value = form.get(name)
+    return typeof value === 'string' && value !== '' ? value : null
+  }
+
+  const redirectTo = field('redirect_to')
+  if (!isAllowedRedirect(redirectTo)) {
+    return authError(400, 'validation_failed', 'redirect_to must point to this service')
+  }
+
+  const userId = field('user_id')
+  if (field('action') === 'deny' || !userId || !await getDevUser(userId)) {
+    return NextResponse.redirect(withParams(redirectTo, {
+      error: 'access_denied',
+      error_description: 'The user denied the authorization request'
+    }), 303)
+  }
+
+  const code = createDevAuthorizationCode(
+    userId,
+    field('provider') || 'oauth',
+    field('code_challenge'),
+    field('code_challenge_method')
+  )
+  return NextResponse.redirect(withParams(redirectTo, { code }), 303)
+}
+
+/**
+ * POST /token：密码登录、授权码换取会话与刷新会话
+ */
+async function token(request: NextRequest) {
+  const body = await request.json().catch(() => ({}))
+  const grantType = request.nextUrl.searchParams.get('grant_type')
+
+  if (grantType === 'password') {
+    const session = await signInDevUserWithPassword(String(body.email || ''), String(body.password || ''))
+    return session ? NextResponse.json(session) : authError(400, 'invalid_credentials', 'Invalid login credentials')
+  }
+  if (grantType === 'pkce') {
+    const session = await exchangeDevAuthorizationCode(String(body.auth_code || ''), String(body.code_verifier || ''))
+    return session
+      ? NextResponse.json(session)
+      : authError(404, 'flow_state_not_found', 'invalid flow state, no valid flow state found')
+  }
+  if (grantType === 'refresh_token') {
+    const session = await refreshDevSession(String(body.refresh_token || ''))
+    return session
+      ? NextResponse.json(session)
+      : authError(400, 'refresh_token_not_found', 'Invalid Refresh Token: Refresh Token Not Found')
+  }
+  return authError(400, 'validation_failed', 'unsupported_grant_type')
+}
+
+/**
+ * POST /otp 与 POST /recover：生成邮件登录或重置密码验证码
+ * 不发送邮件，链接与验证码写入日志；邮箱未注册时与 Supabase 一样不暴露账户是否存在
+ */
+async function sendEmailToken(request: NextRequest, type: 'magiclink' | 'recovery', log: ReturnType<typeof requestLogger>) {
+  const body = await request.json().catch(() => ({}))
+  const email = String(body.email || '')
+  const redirectTo = request.nextUrl.searchParams.get('redirect_to')
+
+  const token = await createDevEmailToken(email, type)
+  if (!token) {
+    log.info('Development email token requested for unknown user', { email })
+    return NextResponse.json({})
+  }
+
+  const link = isAllowedRedirect(redirectTo)
+    ? withParams(redirectTo, { token_hash: token.tokenHash, type })
+    : null
+  log.info('Development email token issued', { email, type, otp: token.otp, link })
+  return NextResponse.json({})
+}
+
+/**
+ * POST /verify：校验邮件链接或 6 位验证码
+ */
+async function verify(request: NextRequest) {
+  const body = await request.json().catch(() => ({}))
+  const type = String(body.type || '')
+  const session = body.token_hash
+    ? await verifyDevEmailToken({ tokenHash: String(body.token_hash) }, type)
+    : await verifyDevEmailToken({ email: String(body.email || ''), otp: String(body.token || '') }, type)
+
+  return session ? NextResponse.json(session) : authError(403, 'otp_expired', 'Token has expired or is invalid')
+}
+
+/**
+ * Admin API：列出、获取与修改用户
+ * 创建、邀请与删除用户需要在种子文件中维护，返回 501
+ */
+async function admin(request: NextRequest, path: string[]) {
+  if (path[0] !== 'users') {
+    return authError(501, 'not_implemented', 'Admin endpoint is not available in development identity mode')
+  }
+
+  if (path.length === 1 && request.method === 'GET') {
+    return NextResponse.json({ users: await listDevUsers(), aud: 'authenticated' })
+  }
+
+  if (path.length === 2 && (request.method === 'GET' || request.method === 'PUT')) {
+    const body = request.method === 'PUT' ? await request.json().catch(() => ({})) : null
+    const user = body
+      ? await updateDevUser(path[1], {
+          password: typeof body.password === 'string' ? body.password : undefined,
+          user_metadata: body.user_metadata,
+          app_metadata: body.app_metadata
+        })
+      : await getDevUser(path[1])
+    return user ? NextResponse.json(user) : authError(404, 'user_not_found', 'User not found')
+  }
+
+  return authError(501, 'not_implemented', 'Admin endpoint is not available in development identity mode')
+}
+
+export const GET = handle
+export const POST = handle
+export const PUT = handle
+export const DELETE = handle
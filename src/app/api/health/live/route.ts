@@ -0,0 +1,9 @@
+import { NextResponse } from 'next/server'
+
+/**
+ * 存活检查接口
+ * 只表示进程能够处理请求，不检查外部依赖；依赖检查见 /api/health/ready
+ */
+export async function GET() {
+  return NextResponse.json({ status: 'ok' }, { headers: { 'Cache-Control': 'no-store' } })
+}
@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server'
+import { checkReadiness } from '@/lib/health'
+
+/**
+ * 就绪检查接口
+ * 检查配置、Supabase 可达性与密钥是否有效
+ * @returns 200 表示就绪，503 表示存在问题，响应体为各项检查结果
+ */
+export async function GET() {
+  const report = await checkReadiness()
+  return NextResponse.json(report, {
+    status: report.status === 'ok' ? 200 : 503,
+    headers: { 'Cache-Control': 'no-store' }
+  })
+}
@@ -0,0 +1,41 @@
+import { timingSafeEqual } from 'crypto'
+import { NextRequest, NextResponse } from 'next/server'
+import { getBearerToken } from '@/lib/auth'
+import { renderMetrics } from '@/lib/metrics'
+import { hashToken } from '@/lib/tokens'
+import { getConfig } from '@/lib/config'
+
+/**
+ * 校验抓取令牌
+ * 未配置 METRICS_TOKEN 时不校验，应由反向代理限制访问
+ */
+function isAuthorized(request: NextRequest): boolean {
+  const expected = getConfig().metricsToken
+  if (!expected) {
+    return true
+  }
+  const token = getBearerToken(request)
+  return !!token && timingSafeEqual(Buffer.from(hashToken(token)), Buffer.from(hashToken(expected)))
+}
+
+/**
+ * Prometheus 指标接口
+ * 配置 METRICS_TOKEN 后需要以 Bearer 令牌抓取
+ * @param request - Next.js 请求对象
+ * @returns Prometheus 文本格式的指标
+ */
+export async function GET(request: NextRequest) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json(
+      { error: 'unauthorized' },
+      { status: 401, headers: { 'WWW-Authenticate': 'Bearer', 'Cache-Control': 'no-store' } }
+    )
+  }
+
+  return new NextResponse(renderMetrics(), {
+    headers: {
+      'Content-Type': 'text/plain; version=0.0.4; charset=utf-8',
+      'Cache-Control': 'no-store'
+    }
+  })
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession } from '@/lib/auth'
+import { listFactors, deleteFactor, isStepUpRequired } from '@/lib/mfa'
+import { recordAuditEvent } from '@/lib/audit'
+import { requestLogger } from '@/lib/logger'
+
+/**
+ * 解除绑定 TOTP 验证器
+ * 已绑定验证器的用户需要先完成二次验证
+ * @param request - Next.js 请求对象
+ * @param context - 路由参数，包含验证器 ID
+ * @returns 204 表示已解除绑定，404 表示验证器不存在
+ */
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const sessionData = await validateSession(request)
+    if (!sessionData || sessionData.method !== 'cookie') {
+      return NextResponse.json({ error: 'unauthenticated' }, { status: 401 })
+    }
+    
+    const { id } = await params
+    const factors = await listFactors(sessionData.user.id)
+    const factor = factors.find(factor => factor.id === id)
+    if (!factor) {
+      return NextResponse.json({ error: 'not_found' }, { status: 404 })
+    }
+    
+    if (factor.status === 'verified' && await isStepUpRequired(sessionData.user.id, sessionData.user.aal)) {
+      return NextResponse.json({ error: 'mfa_required' }, { status: 403 })
+    }
+    
+    await deleteFactor(sessionData.user.id, id)
+    
+    requestLogger(request).info('MFA factor removed', { email: sessionData.user.email, id })
+    recordAuditEvent({
+      type: 'mfa.unenroll',
+      user: sessionData.user,
+      request,
+      details: { factorId: id, name: factor.friendly_name }
+    })
+    
+    return new NextResponse(null, { status: 204 })
+    
+  } catch (error) {
+    requestLogger(request).error('Remove MFA factor error', { error })
+    return NextResponse.json({ error: 'unexpected_error' }, { status: 500 })
+  }
+}
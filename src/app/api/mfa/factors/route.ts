@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isAuthApiError } from '@supabase/supabase-js'
+import { validateSession } from '@/lib/auth'
+import { listFactors, countRecoveryCodes, enrollTotp, isStepUpRequired } from '@/lib/mfa'
+import { requestLogger } from '@/lib/logger'
+
+/**
+ * 获取当前用户的 TOTP 验证器
+ * @param request - Next.js 请求对象
+ * @returns 验证器列表、当前会话的认证保证等级与剩余恢复码数量
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const sessionData = await validateSession(request)
+    if (!sessionData || sessionData.method !== 'cookie') {
+      return NextResponse.json({ error: 'unauthenticated' }, { status: 401 })
+    }
+    
+    const [factors, recoveryCodes] = await Promise.all([
+      listFactors(sessionData.user.id),
+      countRecoveryCodes(sessionData.user.id)
+    ])
+    
+    return NextResponse.json({
+      factors,
+      aal: sessionData.user.aal || 'aal1',
+      recoveryCodes
+    }, {
+      headers: {
+        'Cache-Control': 'no-store'
+      }
+    })
+    
+  } catch (error) {
+    requestLogger(request).error('List MFA factors error', { error })
+    return NextResponse.json({ error: 'unexpected_error' }, { status: 500 })
+  }
+}
+
+/**
+ * 开始绑定 TOTP 验证器
+ * 请求体：{ name }；已绑定验证器的用户需要先完成二次验证
+ * @param request - Next.js 请求对象
+ * @returns 二维码与密钥，验证器在首次验证成功后生效
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const sessionData = await validateSession(request)
+    if (!sessionData || sessionData.method !== 'cookie' || !sessionData.session) {
+      return NextResponse.json({ error: 'unauthenticated' }, { status: 401 })
+    }
+    
+    const body = await request.json().catch(() => null)
+    const name = typeof body?.name === 'string' ? body.name.trim() : ''
+    if (!name || name.length > 100) {
+      return NextResponse.json({ error: 'invalid_name' }, { status: 400 })
+    }
+    
+    if (await isStepUpRequired(sessionData.user.id, sessionData.user.aal)) {
+      return NextResponse.json({ error: 'mfa_required' }, { status: 403 })
+    }
+    
+    const enrollment = await enrollTotp(sessionData.session, sessionData.user.id, name)
+    
+    requestLogger(request).info('MFA enrollment started', { email: sessionData.user.email, id: enrollment.id })
+    
+    return NextResponse.json(enrollment, {
+      status: 201,
+      headers: {
+        'Cache-Control': 'no-store'
+      }
+    })
+    
+  } catch (error) {
+    // 名称重复等由 Supabase 拒绝的请求
+    if (isAuthApiError(error) && error.status < 500) {
+      return NextResponse.json({ error: error.code || 'invalid_request' }, { status: 400 })
+    }
+    requestLogger(request).error('Enroll MFA factor error', { error })
+    return NextResponse.json({ error: 'unexpected_error' }, { status: 500 })
+  }
+}
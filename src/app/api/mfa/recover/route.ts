@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession } from '@/lib/auth'
+import { redeemRecoveryCode } from '@/lib/mfa'
+import { createLockout } from '@/lib/rate-limit'
+import { recordAuditEvent } from '@/lib/audit'
+import { requestLogger } from '@/lib/logger'
+
+// 恢复码失败锁定：15 分钟内失败 5 次后锁定，首次锁定 5 分钟，之后逐次翻倍，最长 1 天
+const recoveryLockout = createLockout({
+  threshold: 5,
+  windowMs: 15 * 60 * 1000,
+  baseLockMs: 5 * 60 * 1000,
+  maxLockMs: 24 * 60 * 60 * 1000,
+  decayMs: 24 * 60 * 60 * 1000
+})
+
+/**
+ * 使用恢复码
+ * 恢复码有效时解除该用户的全部 TOTP 验证器，用户随后需要重新绑定
+ * 请求体：{ code }
+ * @param request - Next.js 请求对象
+ * @returns 解除绑定的验证器数量
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const sessionData = await validateSession(request)
+    if (!sessionData || sessionData.method !== 'cookie') {
+      return NextResponse.json({ error: 'unauthenticated' }, { status: 401 })
+    }
+    
+    const body = await request.json().catch(() => null)
+    const code = typeof body?.code === 'string' ? body.code.trim() : ''
+    if (!code) {
+      return NextResponse.json({ error: 'invalid_code' }, { status: 400 })
+    }
+    
+    // 检查与计数之间不能有 await，否则并发请求会同时通过检查
+    const userId = sessionData.user.id
+    const lock = recoveryLockout.check(userId)
+    if (!lock.allowed) {
+      return NextResponse.json(
+        { error: 'too_many_attempts', retryAfter: lock.retryAfter },
+        { status: 429, headers: { 'Retry-After': String(lock.retryAfter) } }
+      )
+    }
+    recoveryLockout.fail(userId)
+    
+    let removedFactors: number | null
+    try {
+      removedFactors = await redeemRecoveryCode(userId, code)
+    } catch (error) {
+      recoveryLockout.release(userId)
+      throw error
+    }
+    if (removedFactors === null) {
+      requestLogger(request).info('MFA recovery code rejected', { email: sessionData.user.email })
+      recordAuditEvent({
+        type: 'mfa.verify_failure',
+        user: sessionData.user,
+        request,
+        details: { error: 'invalid_recovery_code' }
+      })
+      return NextResponse.json({ error: 'invalid_code' }, { status: 400 })
+    }
+    
+    recoveryLockout.reset(userId)
+    requestLogger(request).info('MFA recovery code used', { email: sessionData.user.email, removedFactors })
+    recordAuditEvent({
+      type: 'mfa.recovery_code_use',
+      user: sessionData.user,
+      request,
+      details: { removedFactors }
+    })
+    
+    return NextResponse.json({ removedFactors })
+    
+  } catch (error) {
+    requestLogger(request).error('MFA recovery error', { error })
+    return NextResponse.json({ error: 'unexpected_error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession } from '@/lib/auth'
+import { listFactors, generateRecoveryCodes } from '@/lib/mfa'
+import { recordAuditEvent } from '@/lib/audit'
+import { requestLogger } from '@/lib/logger'
+
+/**
+ * 重新生成恢复码
+ * 只能在已绑定验证器且完成二次验证（aal2）的会话中生成，旧的恢复码全部作废
+ * @param request - Next.js 请求对象
+ * @returns 恢复码明文（仅返回这一次）
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const sessionData = await validateSession(request)
+    if (!sessionData || sessionData.method !== 'cookie') {
+      return NextResponse.json({ error: 'unauthenticated' }, { status: 401 })
+    }
+    
+    const factors = await listFactors(sessionData.user.id)
+    if (!factors.some(factor => factor.status === 'verified')) {
+      return NextResponse.json({ error: 'no_factor' }, { status: 400 })
+    }
+    if (sessionData.user.aal !== 'aal2') {
+      return NextResponse.json({ error: 'mfa_required' }, { status: 403 })
+    }
+    
+    const codes = await generateRecoveryCodes(sessionData.user.id)
+    
+    requestLogger(request).info('MFA recovery codes generated', { email: sessionData.user.email })
+    recordAuditEvent({ type: 'mfa.recovery_codes_generate', user: sessionData.user, request })
+    
+    return NextResponse.json({ codes }, {
+      status: 201,
+      headers: {
+        'Cache-Control': 'no-store'
+      }
+    })
+    
+  } catch (error) {
+    requestLogger(request).error('Generate recovery codes error', { error })
+    return NextResponse.json({ error: 'unexpected_error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isAuthApiError } from '@supabase/supabase-js'
+import { validateSession, setAuthCookie } from '@/lib/auth'
+import { resolveRedirect } from '@/lib/redirect'
+import { listFactors, verifyTotp } from '@/lib/mfa'
+import { recordAuditEvent } from '@/lib/audit'
+import { requestLogger } from '@/lib/logger'
+
+/**
+ * 验证 TOTP 验证码
+ * 用于完成验证器绑定与登录后的二次验证，成功后写入 aal2 会话的认证 Cookie
+ * 请求体：{ factorId, code, redirect? }
+ * @param request - Next.js 请求对象
+ * @returns 验证成功后应跳转的地址
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const sessionData = await validateSession(request)
+    if (!sessionData || sessionData.method !== 'cookie' || !sessionData.session) {
+      return NextResponse.json({ error: 'unauthenticated' }, { status: 401 })
+    }
+    
+    const body = await request.json().catch(() => null)
+    const factorId = typeof body?.factorId === 'string' ? body.factorId : ''
+    const code = typeof body?.code === 'string' ? body.code.replace(/\s/g, '') : ''
+    const redirect = typeof body?.redirect === 'string' ? body.redirect : null
+    if (!factorId || !/^\d{6}$/.test(code)) {
+      return NextResponse.json({ error: 'invalid_code' }, { status: 400 })
+    }
+    
+    const factor = (await listFactors(sessionData.user.id)).find(factor => factor.id === factorId)
+    if (!factor) {
+      return NextResponse.json({ error: 'not_found' }, { status: 404 })
+    }
+    
+    let session
+    try {
+      session = await verifyTotp(sessionData.session, factorId, code)
+    } catch (error) {
+      if (!isAuthApiError(error) || error.status >= 500) {
+        throw error
+      }
+      requestLogger(request).info('MFA verification failed', { email: sessionData.user.email, code: error.code })
+      recordAuditEvent({
+        type: 'mfa.verify_failure',
+        user: sessionData.user,
+        request,
+        details: { factorId, error: error.code }
+      })
+      return NextResponse.json(
+        { error: error.status === 429 ? 'too_many_attempts' : 'invalid_code' },
+        { status: error.status === 429 ? 429 : 400 }
+      )
+    }
+    
+    // 确定重定向 URL
+    const finalRedirectUrl = await resolveRedirect(redirect, '/dashboard', 'mfa', requestLogger(request))
+    
+    const response = NextResponse.json({ redirect: finalRedirectUrl }, {
+      headers: {
+        'Cache-Control': 'no-store'
+      }
+    })
+    setAuthCookie(response, session, request)
+    
+    requestLogger(request).info('MFA verification successful', { email: sessionData.user.email })
+    recordAuditEvent({
+      type: 'mfa.verify',
+      user: sessionData.user,
+      request,
+      details: { factorId, enrolled: factor.status === 'unverified' }
+    })
+    
+    return response
+    
+  } catch (error) {
+    requestLogger(request).error('MFA verification error', { error })
+    return NextResponse.json({ error: 'unexpected_error' }, { status: 500 })
+  }
+}
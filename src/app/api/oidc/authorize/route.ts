@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession, generateLoginUrl, generateStepUpUrl } from '@/lib/auth'
+import { findUserById } from '@/lib/identity-backend'
+import { getIssuer, getOidcClient, isRegisteredRedirectUri, issueAuthorizationCode, SUPPORTED_SCOPES } from '@/lib/oidc'
+import { requestLogger } from '@/lib/logger'
+
+/**
+ * OIDC 授权接口（授权码模式 + PKCE）
+ * 复用现有的 /login 页面与 /api/auth/callback 流程完成登录
+ * @param request - Next.js 请求对象
+ * @returns 重定向到客户端回调地址（携带授权码或错误）或登录页
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams
+    const clientId = params.get('client_id') || ''
+    const redirectUri = params.get('redirect_uri') || ''
+    const state = params.get('state')
+    
+    // 客户端或回调地址无效时不能重定向，直接返回错误
+    const client = await getOidcClient(clientId)
+    if (!client || !isRegisteredRedirectUri(client, redirectUri)) {
+      requestLogger(request).error('OIDC authorize invalid client or redirect_uri', { clientId, redirectUri })
+      return NextResponse.json(
+        { error: 'invalid_request', error_description: 'Unknown client_id or unregistered redirect_uri' },
+        { status: 400 }
+      )
+    }
+    
+    /**
+     * 携带参数重定向回客户端
+     */
+    const redirectToClient = (values: Record<string, string>) => {
+      const url = new URL(redirectUri)
+      Object.entries(values).forEach(([key, value]) => url.searchParams.set(key, value))
+      if (state) {
+        url.searchParams.set('state', state)
+      }
+      return NextResponse.redirect(url)
+    }
+    
+    if (params.get('response_type') !== 'code') {
+      return redirectToClient({ error: 'unsupported_response_type' })
+    }
+    
+    const scope = (params.get('scope') || '').split(' ').filter(Boolean)
+    if (!scope.includes('openid') || scope.some(item => !SUPPORTED_SCOPES.includes(item))) {
+      return redirectToClient({ error: 'invalid_scope' })
+    }
+    
+    // 公开客户端必须使用 PKCE，且只支持 S256
+    const codeChallenge = params.get('code_challenge') || undefined
+    const codeChallengeMethod = params.get('code_challenge_method') || 'plain'
+    if (codeChallenge && codeChallengeMethod !== 'S256') {
+      return redirectToClient({ error: 'invalid_request', error_description: 'code_challenge_method must be S256' })
+    }
+    if (!codeChallenge && !client.clientSecret) {
+      return redirectToClient({ error: 'invalid_request', error_description: 'PKCE is required for public clients' })
+    }
+    
+    // 使用客户端回调地址所在主机检查访问策略
+    const target = { host: new URL(redirectUri).host, path: '/' }
+    const sessionData = await validateSession(request, target)
+    
+    // 登录或二次验证完成后回到本授权请求
+    const authorizeUrl = `${getIssuer()}/api/oidc/authorize?${params.toString()}`
+    
+    if (!sessionData || sessionData.method !== 'cookie') {
+      if (params.get('prompt') === 'none') {
+        return redirectToClient({ error: 'login_required' })
+      }
+      
+      return NextResponse.redirect(await generateLoginUrl(authorizeUrl, requestLogger(request)))
+    }
+    
+    // 主机要求多因素认证而会话未完成二次验证：与 ForwardAuth 一样跳转到二次验证页面
+    if (sessionData.access?.reason === 'mfa_required') {
+      if (params.get('prompt') === 'none') {
+        return redirectToClient({ error: 'interaction_required' })
+      }
+      
+      return NextResponse.redirect(await generateStepUpUrl(authorizeUrl, requestLogger(request)))
+    }
+    
+    if (sessionData.access && !sessionData.access.allowed) {
+      requestLogger(request).info('OIDC authorize access denied', { email: sessionData.user.email, clientId: client.clientId })
+      return redirectToClient({ error: 'access_denied' })
+    }
+    
+    // 读取邮箱验证状态，访问令牌声明中不包含该信息
+    const user = await findUserById(sessionData.user.id)
+    
+    const authTime = sessionData.user.amr?.[0]?.timestamp || Math.floor(Date.now() / 1000)
+    const code = issueAuthorizationCode({
+      clientId: client.clientId,
+      redirectUri,
+      scope,
+      nonce: params.get('nonce') || undefined,
+      codeChallenge,
+      user: {
+        id: sessionData.user.id,
+        email: sessionData.user.email,
+        emailVerified: !!user?.email_confirmed_at,
+        name: sessionData.user.user_metadata?.name,
+        app_metadata: sessionData.user.app_metadata
+      },
+      authTime
+    })
+    
+    requestLogger(request).info('OIDC authorization code issued', { email: sessionData.user.email, clientId: client.clientId })
+    
+    return redirectToClient({ code })
+    
+  } catch (error) {
+    requestLogger(request).error('OIDC authorize error', { error })
+    return NextResponse.json({ error: 'server_error' }, { status: 500 })
+  }
+}
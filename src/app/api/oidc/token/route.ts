@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateClient, consumeAuthorizationCode, getOidcClient, issueTokens, verifyCodeChallenge } from '@/lib/oidc'
+import { requestLogger } from '@/lib/logger'
+
+/**
+ * 生成令牌接口的错误响应
+ */
+function tokenError(error: string, status = 400, description?: string) {
+  return NextResponse.json(
+    description ? { error, error_description: description } : { error },
+    {
+      status,
+      headers: {
+        'Cache-Control': 'no-store',
+        ...(status === 401 ? { 'WWW-Authenticate': 'Basic realm="oidc"' } : {})
+      }
+    }
+  )
+}
+
+/**
+ * 读取客户端凭据
+ * 支持 client_secret_basic（Authorization 头）与 client_secret_post（表单字段）
+ */
+function readClientCredentials(request: NextRequest, form: FormData) {
+  const authorization = request.headers.get('authorization')
+  if (authorization && /^basic\s/i.test(authorization)) {
+    const decoded = Buffer.from(authorization.slice(authorization.indexOf(' ') + 1).trim(), 'base64').toString('utf8')
+    const separator = decoded.indexOf(':')
+    if (separator > 0) {
+      return {
+        clientId: decodeURIComponent(decoded.slice(0, separator)),
+        clientSecret: decodeURIComponent(decoded.slice(separator + 1))
+      }
+    }
+  }
+  
+  return {
+    clientId: form.get('client_id')?.toString() || '',
+    clientSecret: form.get('client_secret')?.toString() || null
+  }
+}
+
+/**
+ * OIDC 令牌接口
+ * 使用授权码（及 PKCE code_verifier）兑换访问令牌与 ID 令牌
+ * @param request - Next.js 请求对象
+ * @returns 令牌响应
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const form = await request.formData().catch(() => null)
+    if (!form) {
+      return tokenError('invalid_request')
+    }
+    
+    if (form.get('grant_type') !== 'authorization_code') {
+      return tokenError('unsupported_grant_type')
+    }
+    
+    const { clientId, clientSecret } = readClientCredentials(request, form)
+    const client = await getOidcClient(clientId)
+    if (!client || !authenticateClient(client, clientSecret)) {
+      requestLogger(request).error('OIDC token invalid client', { clientId })
+      return tokenError('invalid_client', 401)
+    }
+    
+    const grant = consumeAuthorizationCode(form.get('code')?.toString() || '')
+    if (!grant || grant.clientId !== client.clientId || grant.redirectUri !== form.get('redirect_uri')) {
+      return tokenError('invalid_grant')
+    }
+    
+    if (grant.codeChallenge) {
+      const codeVerifier = form.get('code_verifier')?.toString() || ''
+      if (!verifyCodeChallenge(grant.codeChallenge, codeVerifier)) {
+        return tokenError('invalid_grant', 400, 'PKCE verification failed')
+      }
+    }
+    
+    const tokens = await issueTokens(grant)
+    
+    requestLogger(request).info('OIDC tokens issued', { email: grant.user.email, clientId: client.clientId })
+    
+    return NextResponse.json(tokens, {
+      headers: {
+        'Cache-Control': 'no-store',
+        'Pragma': 'no-cache'
+      }
+    })
+    
+  } catch (error) {
+    requestLogger(request).error('OIDC token error', { error })
+    return tokenError('server_error', 500)
+  }
+}
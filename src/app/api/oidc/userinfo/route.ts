@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getBearerToken } from '@/lib/auth'
+import { verifyOidcAccessToken } from '@/lib/oidc'
+import { requestLogger } from '@/lib/logger'
+
+// 返回给客户端的用户声明
+const USERINFO_CLAIMS = ['email', 'email_verified', 'name', 'preferred_username', 'roles']
+
+/**
+ * OIDC 用户信息接口
+ * @param request - Next.js 请求对象，需携带本服务签发的访问令牌
+ * @returns 用户声明
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const token = getBearerToken(request)
+    const claims = token ? await verifyOidcAccessToken(token) : null
+    
+    if (!claims) {
+      return NextResponse.json(
+        { error: 'invalid_token' },
+        { status: 401, headers: { 'WWW-Authenticate': 'Bearer error="invalid_token"' } }
+      )
+    }
+    
+    const userinfo: Record<string, unknown> = { sub: claims.sub }
+    USERINFO_CLAIMS.forEach(claim => {
+      if (claim in claims) {
+        userinfo[claim] = claims[claim]
+      }
+    })
+    
+    return NextResponse.json(userinfo, {
+      headers: {
+        'Cache-Control': 'no-store'
+      }
+    })
+    
+  } catch (error) {
+    requestLogger(request).error('OIDC userinfo error', { error })
+    return NextResponse.json({ error: 'server_error' }, { status: 500 })
+  }
+}
+
+/**
+ * 部分客户端使用 POST 调用用户信息接口
+ */
+export async function POST(request: NextRequest) {
+  return GET(request)
+}
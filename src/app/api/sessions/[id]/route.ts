@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession, clearAuthCookie } from '@/lib/auth'
+import { revokeUserSession } from '@/lib/user-sessions'
+import { requestLogger } from '@/lib/logger'
+
+/**
+ * 吊销单个会话
+ * 吊销当前会话时同时清除认证 Cookie
+ * @param request - Next.js 请求对象
+ * @param context - 路由参数，包含会话 ID
+ * @returns 204 表示已吊销，404 表示会话不存在
+ */
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const sessionData = await validateSession(request)
+    if (!sessionData || sessionData.method !== 'cookie') {
+      return NextResponse.json({ error: 'unauthenticated' }, { status: 401 })
+    }
+    
+    const { id } = await params
+    const revoked = await revokeUserSession(sessionData.user.id, id)
+    if (!revoked) {
+      return NextResponse.json({ error: 'not_found' }, { status: 404 })
+    }
+    
+    requestLogger(request).info('Session revoked', { email: sessionData.user.email, id })
+    
+    const response = new NextResponse(null, { status: 204 })
+    if (id === sessionData.user.session_id) {
+      clearAuthCookie(response, request)
+    }
+    return response
+    
+  } catch (error) {
+    requestLogger(request).error('Revoke session error', { error })
+    return NextResponse.json({ error: 'unexpected_error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession, clearAuthCookie } from '@/lib/auth'
+import { listUserSessions, revokeAllUserSessions } from '@/lib/user-sessions'
+import { requestLogger } from '@/lib/logger'
+
+/**
+ * 获取当前用户的全部有效会话
+ * @param request - Next.js 请求对象
+ * @returns 会话列表与当前会话 ID
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const sessionData = await validateSession(request)
+    if (!sessionData || sessionData.method !== 'cookie') {
+      return NextResponse.json({ error: 'unauthenticated' }, { status: 401 })
+    }
+    
+    const sessions = await listUserSessions(sessionData.user.id)
+    return NextResponse.json({
+      sessions,
+      currentSessionId: sessionData.user.session_id || null
+    })
+    
+  } catch (error) {
+    requestLogger(request).error('List sessions error', { error })
+    return NextResponse.json({ error: 'unexpected_error' }, { status: 500 })
+  }
+}
+
+/**
+ * 退出全部设备
+ * 吊销当前用户的全部会话并清除当前浏览器的认证 Cookie
+ * @param request - Next.js 请求对象
+ * @returns 被吊销的会话数量
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const sessionData = await validateSession(request)
+    if (!sessionData || sessionData.method !== 'cookie') {
+      return NextResponse.json({ error: 'unauthenticated' }, { status: 401 })
+    }
+    
+    const revoked = await revokeAllUserSessions(sessionData.user.id)
+    
+    requestLogger(request).info('All sessions revoked', { email: sessionData.user.email, revoked })
+    
+    const response = NextResponse.json({ revoked })
+    clearAuthCookie(response, request)
+    return response
+    
+  } catch (error) {
+    requestLogger(request).error('Revoke all sessions error', { error })
+    return NextResponse.json({ error: 'unexpected_error' }, { status: 500 })
+  }
+}
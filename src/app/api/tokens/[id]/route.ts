@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession, evictCachedSession } from '@/lib/auth'
+import { revokePersonalAccessToken } from '@/lib/personal-access-tokens'
+import { requestLogger } from '@/lib/logger'
+
+/**
+ * 吊销个人访问令牌
+ * @param request - Next.js 请求对象
+ * @param context - 路由参数，包含令牌 ID
+ * @returns 204 表示已吊销，404 表示令牌不存在或已吊销
+ */
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const sessionData = await validateSession(request)
+    if (!sessionData || sessionData.method !== 'cookie') {
+      return NextResponse.json({ error: 'unauthenticated' }, { status: 401 })
+    }
+    
+    const { id } = await params
+    const tokenHash = await revokePersonalAccessToken(sessionData.user.id, id)
+    if (!tokenHash) {
+      return NextResponse.json({ error: 'not_found' }, { status: 404 })
+    }
+    
+    // 立即失效本实例中缓存的校验结果
+    evictCachedSession(tokenHash)
+    
+    requestLogger(request).info('Personal access token revoked', { email: sessionData.user.email, id })
+    
+    return new NextResponse(null, { status: 204 })
+    
+  } catch (error) {
+    requestLogger(request).error('Revoke personal access token error', { error })
+    return NextResponse.json({ error: 'unexpected_error' }, { status: 500 })
+  }
+}
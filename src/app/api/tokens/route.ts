@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession } from '@/lib/auth'
+import { listPersonalAccessTokens, createPersonalAccessToken } from '@/lib/personal-access-tokens'
+import { requestLogger } from '@/lib/logger'
+
+// 允许的有效期（天），null 表示永不过期
+const ALLOWED_EXPIRY_DAYS = [7, 30, 90, 365, null]
+
+/**
+ * 获取当前用户的个人访问令牌列表
+ * 只接受浏览器会话，令牌不能用于管理令牌
+ * @param request - Next.js 请求对象
+ * @returns 令牌列表
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const sessionData = await validateSession(request)
+    if (!sessionData || sessionData.method !== 'cookie') {
+      return NextResponse.json({ error: 'unauthenticated' }, { status: 401 })
+    }
+    
+    const tokens = await listPersonalAccessTokens(sessionData.user.id)
+    return NextResponse.json({ tokens })
+    
+  } catch (error) {
+    requestLogger(request).error('List personal access tokens error', { error })
+    return NextResponse.json({ error: 'unexpected_error' }, { status: 500 })
+  }
+}
+
+/**
+ * 创建个人访问令牌
+ * 请求体：{ name, hosts, expiresInDays }
+ * @param request - Next.js 请求对象
+ * @returns 令牌明文（仅返回这一次）与令牌记录
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const sessionData = await validateSession(request)
+    if (!sessionData || sessionData.method !== 'cookie') {
+      return NextResponse.json({ error: 'unauthenticated' }, { status: 401 })
+    }
+    
+    const body = await request.json().catch(() => null)
+    const name = typeof body?.name === 'string' ? body.name.trim() : ''
+    const hosts = Array.isArray(body?.hosts)
+      ? body.hosts.filter((host: unknown): host is string => typeof host === 'string' && host.trim() !== '')
+          .map((host: string) => host.trim().toLowerCase())
+      : []
+    const expiresInDays = body?.expiresInDays ?? null
+    
+    if (!name || name.length > 100) {
+      return NextResponse.json({ error: 'invalid_name' }, { status: 400 })
+    }
+    if (!ALLOWED_EXPIRY_DAYS.includes(expiresInDays)) {
+      return NextResponse.json({ error: 'invalid_expiry' }, { status: 400 })
+    }
+    
+    const { token, record } = await createPersonalAccessToken(sessionData.user.id, {
+      name,
+      hosts,
+      expiresInDays
+    })
+    
+    requestLogger(request).info('Personal access token created', { email: sessionData.user.email, id: record.id })
+    
+    return NextResponse.json({ token, record }, { status: 201 })
+    
+  } catch (error) {
+    requestLogger(request).error('Create personal access token error', { error })
+    return NextResponse.json({ error: 'unexpected_error' }, { status: 500 })
+  }
+}
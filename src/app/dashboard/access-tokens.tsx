@@ -0,0 +1,235 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+
+/**
+ * 个人访问令牌记录
+ */
+interface PersonalAccessToken {
+  id: string
+  name: string
+  token_prefix: string
+  hosts: string[]
+  created_at: string
+  last_used_at: string | null
+  expires_at: string | null
+  revoked_at: string | null
+}
+
+// 有效期选项
+const EXPIRY_OPTIONS = [
+  { label: '7 天', value: 7 },
+  { label: '30 天', value: 30 },
+  { label: '90 天', value: 90 },
+  { label: '1 年', value: 365 },
+  { label: '永不过期', value: null }
+]
+
+/**
+ * 格式化时间
+ */
+function formatTime(value: string | null, fallback: string) {
+  return value ? new Date(value).toLocaleString('zh-CN') : fallback
+}
+
+/**
+ * 个人访问令牌管理区块
+ * 供脚本与 CI 通过 Authorization: Bearer 访问受保护的应用
+ */
+export function AccessTokensSection() {
+  const [tokens, setTokens] = useState<PersonalAccessToken[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [name, setName] = useState('')
+  const [hosts, setHosts] = useState('')
+  const [expiresInDays, setExpiresInDays] = useState<number | null>(30)
+  const [creating, setCreating] = useState(false)
+  const [newToken, setNewToken] = useState<string | null>(null)
+
+  /**
+   * 加载令牌列表
+   */
+  const loadTokens = useCallback(async () => {
+    try {
+      const response = await fetch('/api/tokens')
+      if (!response.ok) {
+        setError('加载访问令牌失败')
+        return
+      }
+      const { tokens } = await response.json()
+      setTokens(tokens)
+    } catch (error) {
+      console.error('加载访问令牌异常:', error)
+      setError('加载访问令牌失败')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadTokens()
+  }, [loadTokens])
+
+  /**
+   * 创建令牌
+   */
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setCreating(true)
+    setError(null)
+    setNewToken(null)
+
+    try {
+      const response = await fetch('/api/tokens', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          name,
+          hosts: hosts.split(',').map(host => host.trim()).filter(Boolean),
+          expiresInDays
+        }),
+      })
+
+      if (!response.ok) {
+        setError('创建访问令牌失败')
+        return
+      }
+
+      const { token } = await response.json()
+      setNewToken(token)
+      setName('')
+      setHosts('')
+      await loadTokens()
+    } catch (error) {
+      console.error('创建访问令牌异常:', error)
+      setError('创建访问令牌失败')
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  /**
+   * 吊销令牌
+   */
+  const handleRevoke = async (token: PersonalAccessToken) => {
+    if (!window.confirm(`确定吊销令牌「${token.name}」吗？使用该令牌的脚本将立即无法访问。`)) {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/tokens/${token.id}`, { method: 'DELETE' })
+      if (!response.ok) {
+        setError('吊销访问令牌失败')
+        return
+      }
+      await loadTokens()
+    } catch (error) {
+      console.error('吊销访问令牌异常:', error)
+      setError('吊销访问令牌失败')
+    }
+  }
+
+  return (
+    <div className="mt-6 bg-white overflow-hidden shadow rounded-lg">
+      <div className="px-4 py-5 sm:p-6">
+        <h2 className="text-lg font-medium text-gray-900 mb-4">
+          访问令牌
+        </h2>
+        <p className="text-sm text-gray-600 mb-4">
+          脚本和 CI 任务可以通过 <code className="font-mono">Authorization: Bearer &lt;令牌&gt;</code> 访问受保护的应用。
+        </p>
+
+        {error && (
+          <div className="mb-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+            {error}
+          </div>
+        )}
+
+        {newToken && (
+          <div className="mb-4 bg-green-50 border border-green-200 text-green-800 px-4 py-3 rounded-lg text-sm">
+            <p className="mb-2">令牌已创建，请立即复制保存，关闭页面后将无法再次查看：</p>
+            <code className="block font-mono break-all bg-white border border-green-200 rounded px-2 py-1">
+              {newToken}
+            </code>
+          </div>
+        )}
+
+        <form onSubmit={handleCreate} className="grid grid-cols-1 gap-4 sm:grid-cols-4 mb-6">
+          <input
+            type="text"
+            required
+            maxLength={100}
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="令牌名称，如 CI 部署"
+            className="px-3 py-2 border border-gray-300 rounded-lg shadow-sm text-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+          <input
+            type="text"
+            value={hosts}
+            onChange={(e) => setHosts(e.target.value)}
+            placeholder="限定主机，逗号分隔，留空不限"
+            className="px-3 py-2 border border-gray-300 rounded-lg shadow-sm text-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+          <select
+            value={expiresInDays ?? ''}
+            onChange={(e) => setExpiresInDays(e.target.value ? Number(e.target.value) : null)}
+            className="px-3 py-2 border border-gray-300 rounded-lg shadow-sm text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          >
+            {EXPIRY_OPTIONS.map(option => (
+              <option key={option.label} value={option.value ?? ''}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            disabled={creating}
+            className="bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white px-4 py-2 rounded-md text-sm font-medium transition-colors"
+          >
+            {creating ? '创建中...' : '创建令牌'}
+          </button>
+        </form>
+
+        {loading ? (
+          <p className="text-sm text-gray-500">加载中...</p>
+        ) : tokens.length === 0 ? (
+          <p className="text-sm text-gray-500">暂无访问令牌</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {tokens.map(token => (
+              <li key={token.id} className="py-3 flex items-center justify-between">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">
+                    {token.name}
+                    <span className="ml-2 font-mono text-xs text-gray-500">{token.token_prefix}…</span>
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    主机：{token.hosts.length > 0 ? token.hosts.join(', ') : '不限'}
+                    {' · '}创建于 {formatTime(token.created_at, '')}
+                    {' · '}最后使用 {formatTime(token.last_used_at, '从未使用')}
+                    {' · '}过期时间 {formatTime(token.expires_at, '永不过期')}
+                  </p>
+                </div>
+                {token.revoked_at ? (
+                  <span className="inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-gray-100 text-gray-600">
+                    已吊销
+                  </span>
+                ) : (
+                  <button
+                    onClick={() => handleRevoke(token)}
+                    className="text-sm text-red-600 hover:text-red-500 font-medium"
+                  >
+                    吊销
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,193 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+
+/**
+ * 应用密码记录
+ */
+interface AppPassword {
+  id: string
+  name: string
+  created_at: string
+  last_used_at: string | null
+  revoked_at: string | null
+}
+
+/**
+ * 格式化时间
+ */
+function formatTime(value: string | null, fallback: string) {
+  return value ? new Date(value).toLocaleString('zh-CN') : fallback
+}
+
+/**
+ * 应用密码管理区块
+ * 供只支持 HTTP Basic 认证的客户端（git、WebDAV、Prometheus 等）使用
+ */
+export function AppPasswordsSection({ email }: { email: string }) {
+  const [passwords, setPasswords] = useState<AppPassword[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [name, setName] = useState('')
+  const [creating, setCreating] = useState(false)
+  const [newPassword, setNewPassword] = useState<string | null>(null)
+
+  /**
+   * 加载应用密码列表
+   */
+  const loadPasswords = useCallback(async () => {
+    try {
+      const response = await fetch('/api/app-passwords')
+      if (!response.ok) {
+        setError('加载应用密码失败')
+        return
+      }
+      const { passwords } = await response.json()
+      setPasswords(passwords)
+    } catch (error) {
+      console.error('加载应用密码异常:', error)
+      setError('加载应用密码失败')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadPasswords()
+  }, [loadPasswords])
+
+  /**
+   * 创建应用密码
+   */
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setCreating(true)
+    setError(null)
+    setNewPassword(null)
+
+    try {
+      const response = await fetch('/api/app-passwords', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ name }),
+      })
+
+      if (!response.ok) {
+        setError('创建应用密码失败')
+        return
+      }
+
+      const { password } = await response.json()
+      setNewPassword(password)
+      setName('')
+      await loadPasswords()
+    } catch (error) {
+      console.error('创建应用密码异常:', error)
+      setError('创建应用密码失败')
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  /**
+   * 吊销应用密码
+   */
+  const handleRevoke = async (password: AppPassword) => {
+    if (!window.confirm(`确定吊销应用密码「${password.name}」吗？`)) {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/app-passwords/${password.id}`, { method: 'DELETE' })
+      if (!response.ok) {
+        setError('吊销应用密码失败')
+        return
+      }
+      await loadPasswords()
+    } catch (error) {
+      console.error('吊销应用密码异常:', error)
+      setError('吊销应用密码失败')
+    }
+  }
+
+  return (
+    <div className="mt-6 bg-white overflow-hidden shadow rounded-lg">
+      <div className="px-4 py-5 sm:p-6">
+        <h2 className="text-lg font-medium text-gray-900 mb-4">
+          应用密码
+        </h2>
+        <p className="text-sm text-gray-600 mb-4">
+          git、WebDAV、Prometheus 等只支持用户名密码的客户端请使用应用密码，用户名为 <span className="font-mono">{email}</span>。应用密码与您的登录密码无关，仅在启用了 Basic 认证的应用上有效。
+        </p>
+
+        {error && (
+          <div className="mb-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+            {error}
+          </div>
+        )}
+
+        {newPassword && (
+          <div className="mb-4 bg-green-50 border border-green-200 text-green-800 px-4 py-3 rounded-lg text-sm">
+            <p className="mb-2">应用密码已创建，请立即复制保存，关闭页面后将无法再次查看：</p>
+            <code className="block font-mono break-all bg-white border border-green-200 rounded px-2 py-1">
+              {newPassword}
+            </code>
+          </div>
+        )}
+
+        <form onSubmit={handleCreate} className="flex gap-4 mb-6">
+          <input
+            type="text"
+            required
+            maxLength={100}
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="用途，如 笔记本 git"
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg shadow-sm text-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+          <button
+            type="submit"
+            disabled={creating}
+            className="bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white px-4 py-2 rounded-md text-sm font-medium transition-colors"
+          >
+            {creating ? '生成中...' : '生成应用密码'}
+          </button>
+        </form>
+
+        {loading ? (
+          <p className="text-sm text-gray-500">加载中...</p>
+        ) : passwords.length === 0 ? (
+          <p className="text-sm text-gray-500">暂无应用密码</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {passwords.map(password => (
+              <li key={password.id} className="py-3 flex items-center justify-between">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">{password.name}</p>
+                  <p className="text-xs text-gray-500">
+                    创建于 {formatTime(password.created_at, '')}
+                    {' · '}最后使用 {formatTime(password.last_used_at, '从未使用')}
+                  </p>
+                </div>
+                {password.revoked_at ? (
+                  <span className="inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-gray-100 text-gray-600">
+                    已吊销
+                  </span>
+                ) : (
+                  <button
+                    onClick={() => handleRevoke(password)}
+                    className="text-sm text-red-600 hover:text-red-500 font-medium"
+                  >
+                    吊销
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
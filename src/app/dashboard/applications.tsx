@@ -0,0 +1,98 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+
+/**
+ * 仪表板中显示的应用
+ */
+interface DashboardApplication {
+  id: string
+  name: string
+  description: string | null
+  url: string
+  host: string
+  icon: string | null
+}
+
+/**
+ * 应用访问区块
+ * 列出应用注册表中当前用户可以访问的应用
+ */
+export function ApplicationsSection() {
+  const [applications, setApplications] = useState<DashboardApplication[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    /**
+     * 加载可访问的应用
+     */
+    const loadApplications = async () => {
+      try {
+        const response = await fetch('/api/applications')
+        if (!response.ok) {
+          setError('加载应用列表失败')
+          return
+        }
+        const { applications } = await response.json()
+        setApplications(applications)
+      } catch (error) {
+        console.error('加载应用列表异常:', error)
+        setError('加载应用列表失败')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadApplications()
+  }, [])
+
+  return (
+    <div className="mt-6 bg-white overflow-hidden shadow rounded-lg">
+      <div className="px-4 py-5 sm:p-6">
+        <h2 className="text-lg font-medium text-gray-900 mb-4">
+          应用访问
+        </h2>
+        <p className="text-sm text-gray-600 mb-4">
+          您现在可以访问以下受保护的应用：
+        </p>
+
+        {error && (
+          <div className="mb-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <p className="text-sm text-gray-500">加载中...</p>
+        ) : applications.length === 0 ? (
+          <p className="text-sm text-gray-500">暂无可访问的应用</p>
+        ) : (
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
+            {applications.map(app => (
+              <a
+                key={app.id}
+                href={app.url}
+                className="flex items-start gap-3 p-4 border border-gray-200 rounded-lg hover:border-blue-500 hover:shadow-md transition-all"
+              >
+                {app.icon ? (
+                  // 图标为任意外部地址，不经过 next/image 优化
+                  // eslint-disable-next-line @next/next/no-img-element
+                  <img src={app.icon} alt="" className="h-10 w-10 rounded-lg object-contain" />
+                ) : (
+                  <div className="h-10 w-10 rounded-lg bg-blue-600 text-white flex items-center justify-center font-semibold">
+                    {app.name.slice(0, 1)}
+                  </div>
+                )}
+                <div className="min-w-0">
+                  <h3 className="font-medium text-gray-900">{app.name}</h3>
+                  <p className="text-sm text-gray-500 truncate">{app.description || app.host}</p>
+                </div>
+              </a>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,337 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+
+/**
+ * TOTP 验证器
+ */
+interface MfaFactor {
+  id: string
+  friendly_name: string | null
+  status: 'verified' | 'unverified'
+  created_at: string
+}
+
+/**
+ * 进行中的绑定
+ */
+interface Enrollment {
+  id: string
+  qrCode: string
+  secret: string
+}
+
+/**
+ * 多因素认证区块
+ * 绑定 TOTP 身份验证器并管理恢复码；已绑定验证器时，修改设置前需要先完成二次验证
+ */
+export function MfaSection() {
+  const [factors, setFactors] = useState<MfaFactor[]>([])
+  const [aal, setAal] = useState('aal1')
+  const [recoveryCodeCount, setRecoveryCodeCount] = useState(0)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [name, setName] = useState('')
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null)
+  const [code, setCode] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+
+  const verifiedFactors = factors.filter(factor => factor.status === 'verified')
+  // 已绑定验证器但当前会话未完成二次验证
+  const stepUpRequired = verifiedFactors.length > 0 && aal !== 'aal2'
+
+  /**
+   * 加载验证器列表
+   */
+  const loadFactors = useCallback(async () => {
+    try {
+      const response = await fetch('/api/mfa/factors')
+      if (!response.ok) {
+        setError('加载多因素认证设置失败')
+        return
+      }
+      const { factors, aal, recoveryCodes } = await response.json()
+      setFactors(factors)
+      setAal(aal)
+      setRecoveryCodeCount(recoveryCodes)
+    } catch (error) {
+      console.error('加载多因素认证设置异常:', error)
+      setError('加载多因素认证设置失败')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadFactors()
+  }, [loadFactors])
+
+  /**
+   * 生成新的恢复码
+   */
+  const generateRecoveryCodes = async () => {
+    const response = await fetch('/api/mfa/recovery-codes', { method: 'POST' })
+    if (!response.ok) {
+      setError('生成恢复码失败')
+      return
+    }
+    const { codes } = await response.json()
+    setRecoveryCodes(codes)
+  }
+
+  /**
+   * 开始绑定验证器
+   */
+  const handleEnroll = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSubmitting(true)
+    setError(null)
+    setRecoveryCodes(null)
+
+    try {
+      const response = await fetch('/api/mfa/factors', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ name }),
+      })
+
+      if (!response.ok) {
+        const { error } = await response.json()
+        setError(error === 'mfa_factor_name_conflict' ? '已存在同名的验证器' : '绑定验证器失败')
+        return
+      }
+
+      setEnrollment(await response.json())
+      setCode('')
+    } catch (error) {
+      console.error('绑定验证器异常:', error)
+      setError('绑定验证器失败')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  /**
+   * 输入验证码完成绑定
+   * 首次绑定成功后会话提升为 aal2，并自动生成恢复码
+   */
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!enrollment) {
+      return
+    }
+    setSubmitting(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/mfa/verify', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ factorId: enrollment.id, code }),
+      })
+
+      if (!response.ok) {
+        setError('验证码错误或已过期')
+        return
+      }
+
+      const isFirstFactor = verifiedFactors.length === 0
+      setEnrollment(null)
+      setName('')
+      if (isFirstFactor || recoveryCodeCount === 0) {
+        await generateRecoveryCodes()
+      }
+      await loadFactors()
+    } catch (error) {
+      console.error('确认绑定验证器异常:', error)
+      setError('确认绑定验证器失败')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  /**
+   * 解除绑定验证器
+   */
+  const handleRemove = async (factor: MfaFactor) => {
+    if (!window.confirm(`确定解除绑定验证器「${factor.friendly_name || factor.id}」吗？`)) {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/mfa/factors/${factor.id}`, { method: 'DELETE' })
+      if (!response.ok) {
+        setError('解除绑定验证器失败')
+        return
+      }
+      await loadFactors()
+    } catch (error) {
+      console.error('解除绑定验证器异常:', error)
+      setError('解除绑定验证器失败')
+    }
+  }
+
+  /**
+   * 重新生成恢复码
+   */
+  const handleRegenerate = async () => {
+    if (!window.confirm('重新生成后，旧的恢复码将全部失效。确定继续吗？')) {
+      return
+    }
+
+    try {
+      setError(null)
+      await generateRecoveryCodes()
+      await loadFactors()
+    } catch (error) {
+      console.error('生成恢复码异常:', error)
+      setError('生成恢复码失败')
+    }
+  }
+
+  return (
+    <div className="mt-6 bg-white overflow-hidden shadow rounded-lg">
+      <div className="px-4 py-5 sm:p-6">
+        <h2 className="text-lg font-medium text-gray-900 mb-4">
+          多因素认证
+        </h2>
+        <p className="text-sm text-gray-600 mb-4">
+          绑定 Google Authenticator、1Password 等 TOTP 身份验证器后，登录时需要额外输入验证码。部分应用要求完成多因素认证才能访问。
+        </p>
+
+        {error && (
+          <div className="mb-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+            {error}
+          </div>
+        )}
+
+        {recoveryCodes && (
+          <div className="mb-4 bg-green-50 border border-green-200 text-green-800 px-4 py-3 rounded-lg text-sm">
+            <p className="mb-2">请立即保存以下恢复码，关闭页面后将无法再次查看。丢失验证器时，每个恢复码可使用一次：</p>
+            <ul className="grid grid-cols-2 gap-1 font-mono bg-white border border-green-200 rounded px-2 py-1">
+              {recoveryCodes.map(code => (
+                <li key={code}>{code}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {stepUpRequired && (
+          <div className="mb-4 bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded-lg text-sm">
+            当前会话尚未完成二次验证，修改多因素认证设置前请先
+            <a href="/mfa" className="mx-1 font-medium underline">完成验证</a>。
+          </div>
+        )}
+
+        {loading ? (
+          <p className="text-sm text-gray-500">加载中...</p>
+        ) : (
+          <>
+            {verifiedFactors.length === 0 ? (
+              <p className="text-sm text-gray-500 mb-4">尚未绑定身份验证器</p>
+            ) : (
+              <ul className="divide-y divide-gray-200 mb-4">
+                {verifiedFactors.map(factor => (
+                  <li key={factor.id} className="py-3 flex items-center justify-between">
+                    <div>
+                      <p className="text-sm font-medium text-gray-900">{factor.friendly_name || factor.id}</p>
+                      <p className="text-xs text-gray-500">
+                        绑定于 {new Date(factor.created_at).toLocaleString('zh-CN')}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => handleRemove(factor)}
+                      disabled={stepUpRequired}
+                      className="text-sm text-red-600 hover:text-red-500 disabled:text-gray-400 font-medium"
+                    >
+                      解除绑定
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {verifiedFactors.length > 0 && (
+              <div className="mb-6 flex items-center justify-between text-sm">
+                <span className="text-gray-600">剩余恢复码：{recoveryCodeCount} 个</span>
+                <button
+                  onClick={handleRegenerate}
+                  disabled={stepUpRequired}
+                  className="text-blue-600 hover:text-blue-500 disabled:text-gray-400 font-medium"
+                >
+                  重新生成恢复码
+                </button>
+              </div>
+            )}
+
+            {enrollment ? (
+              <form onSubmit={handleConfirm} className="space-y-4">
+                <p className="text-sm text-gray-600">
+                  使用身份验证器扫描二维码，或手动输入密钥，然后输入验证器显示的 6 位验证码：
+                </p>
+                {/* eslint-disable-next-line @next/next/no-img-element */}
+                <img src={enrollment.qrCode} alt="TOTP 二维码" className="h-48 w-48 border border-gray-200 rounded" />
+                <code className="block font-mono text-sm break-all bg-gray-50 border border-gray-200 rounded px-2 py-1">
+                  {enrollment.secret}
+                </code>
+                <div className="flex gap-4">
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    pattern="[0-9]{6}"
+                    maxLength={6}
+                    required
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    placeholder="123456"
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-lg shadow-sm text-sm font-mono placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                  <button
+                    type="submit"
+                    disabled={submitting}
+                    className="bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white px-4 py-2 rounded-md text-sm font-medium transition-colors"
+                  >
+                    {submitting ? '验证中...' : '完成绑定'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setEnrollment(null)}
+                    className="bg-gray-100 hover:bg-gray-200 text-gray-700 px-4 py-2 rounded-md text-sm font-medium transition-colors"
+                  >
+                    取消
+                  </button>
+                </div>
+              </form>
+            ) : (
+              <form onSubmit={handleEnroll} className="flex gap-4">
+                <input
+                  type="text"
+                  required
+                  maxLength={100}
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  disabled={stepUpRequired}
+                  placeholder="验证器名称，如 手机"
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg shadow-sm text-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+                <button
+                  type="submit"
+                  disabled={submitting || stepUpRequired}
+                  className="bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white px-4 py-2 rounded-md text-sm font-medium transition-colors"
+                >
+                  {submitting ? '处理中...' : '绑定验证器'}
+                </button>
+              </form>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
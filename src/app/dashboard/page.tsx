@@ -4,6 +4,12 @@ import { useEffect, useState } from 'react'
 import { useRouter } from 'next/navigation'
 import { createSupabaseComponentClient } from '@/lib/supabase-client'
 import type { User } from '@supabase/supabase-js'
+import { ApplicationsSection } from './applications'
+import { AccessTokensSection } from './access-tokens'
+import { AppPasswordsSection } from './app-passwords'
+import { SessionsSection } from './sessions'
+import { MfaSection } from './mfa'
+import { PasswordSection } from './password'
 
 /**
  * 仪表板页面组件
@@ -62,8 +68,8 @@ export default function DashboardPage() {
       })
       
       if (response.ok) {
-        // 重定向到登录页
-        window.location.href = '/login'
+        // 跳转到登出接口重定向的目标：有应用配置了登出地址时为登出结果页，否则为登录页
+        window.location.href = response.url
       } else {
         console.error('登出失败')
         // 即使 API 失败，也尝试客户端登出
@@ -197,42 +203,22 @@ export default function DashboardPage() {
           </div>
           
           {/* 应用链接 */}
-          <div className="mt-6 bg-white overflow-hidden shadow rounded-lg">
-            <div className="px-4 py-5 sm:p-6">
-              <h2 className="text-lg font-medium text-gray-900 mb-4">
-                应用访问
-              </h2>
-              <p className="text-sm text-gray-600 mb-4">
-                您现在可以访问以下受保护的应用：
-              </p>
-              
-              <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
-                <a
-                  href="https://app1.mydomain.com"
-                  className="block p-4 border border-gray-200 rounded-lg hover:border-blue-500 hover:shadow-md transition-all"
-                >
-                  <h3 className="font-medium text-gray-900">应用 1</h3>
-                  <p className="text-sm text-gray-500">app1.mydomain.com</p>
-                </a>
-                
-                <a
-                  href="https://app2.mydomain.com"
-                  className="block p-4 border border-gray-200 rounded-lg hover:border-blue-500 hover:shadow-md transition-all"
-                >
-                  <h3 className="font-medium text-gray-900">应用 2</h3>
-                  <p className="text-sm text-gray-500">app2.mydomain.com</p>
-                </a>
-                
-                <a
-                  href="https://app3.mydomain.com"
-                  className="block p-4 border border-gray-200 rounded-lg hover:border-blue-500 hover:shadow-md transition-all"
-                >
-                  <h3 className="font-medium text-gray-900">应用 3</h3>
-                  <p className="text-sm text-gray-500">app3.mydomain.com</p>
-                </a>
-              </div>
-            </div>
-          </div>
+          <ApplicationsSection />
+          
+          {/* 个人访问令牌 */}
+          <AccessTokensSection />
+          
+          {/* 应用密码 */}
+          <AppPasswordsSection email={user.email || ''} />
+          
+          {/* 登录会话 */}
+          <SessionsSection />
+          
+          {/* 修改密码 */}
+          <PasswordSection email={user.email || ''} />
+          
+          {/* 多因素认证 */}
+          <MfaSection />
         </div>
       </main>
     </div>
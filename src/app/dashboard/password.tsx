@@ -0,0 +1,158 @@
+'use client'
+
+import { useState } from 'react'
+import { PASSWORD_RULES, checkPasswordStrength } from '@/lib/password'
+
+/**
+ * 将修改密码的错误码转换为提示信息
+ * @param code - 错误码
+ * @param retryAfter - 被锁定时距离解除的秒数
+ */
+function describePasswordError(code: string, retryAfter?: number) {
+  switch (code) {
+    case 'invalid_current_password':
+      return '当前密码错误'
+    case 'weak_password':
+      return '新密码不满足强度要求'
+    case 'same_password':
+      return '新密码不能与当前密码相同'
+    case 'mfa_required':
+      return '修改密码前请先完成二次验证'
+    case 'too_many_attempts':
+      return retryAfter
+        ? `尝试次数过多，请 ${Math.ceil(retryAfter / 60)} 分钟后再试`
+        : '尝试次数过多，请稍后再试'
+    default:
+      return '修改密码失败，请重试'
+  }
+}
+
+/**
+ * 修改密码区块
+ * 需要输入当前密码；通过第三方登录注册、尚未设置密码的用户可以通过找回密码设置
+ */
+export function PasswordSection({ email }: { email: string }) {
+  const [currentPassword, setCurrentPassword] = useState('')
+  const [newPassword, setNewPassword] = useState('')
+  const [confirmation, setConfirmation] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  const failedRules = checkPasswordStrength(newPassword, email)
+
+  /**
+   * 提交修改密码
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setMessage(null)
+    if (newPassword !== confirmation) {
+      setError('两次输入的新密码不一致')
+      return
+    }
+    setSubmitting(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/auth/password/change', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ currentPassword, newPassword }),
+      })
+      const result = await response.json()
+
+      if (!response.ok) {
+        setError(describePasswordError(result.error, result.retryAfter))
+        return
+      }
+
+      setCurrentPassword('')
+      setNewPassword('')
+      setConfirmation('')
+      setMessage(result.revoked > 0 ? `密码已修改，其他 ${result.revoked} 个设备已退出登录` : '密码已修改')
+    } catch (error) {
+      console.error('修改密码异常:', error)
+      setError('修改密码失败，请重试')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg shadow-sm text-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500'
+
+  return (
+    <div className="mt-6 bg-white overflow-hidden shadow rounded-lg">
+      <div className="px-4 py-5 sm:p-6">
+        <h2 className="text-lg font-medium text-gray-900 mb-4">
+          修改密码
+        </h2>
+        <p className="text-sm text-gray-600 mb-4">
+          修改后其他设备将退出登录。尚未设置密码？请通过
+          <a href="/forgot-password" className="mx-1 text-blue-600 hover:text-blue-500 font-medium">找回密码</a>
+          设置。
+        </p>
+
+        {error && (
+          <div className="mb-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+            {error}
+          </div>
+        )}
+
+        {message && (
+          <div className="mb-4 bg-green-50 border border-green-200 text-green-800 px-4 py-3 rounded-lg text-sm">
+            {message}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4 max-w-md">
+          <input
+            type="password"
+            autoComplete="current-password"
+            required
+            value={currentPassword}
+            onChange={(e) => setCurrentPassword(e.target.value)}
+            placeholder="当前密码"
+            className={inputClassName}
+          />
+          <input
+            type="password"
+            autoComplete="new-password"
+            required
+            value={newPassword}
+            onChange={(e) => setNewPassword(e.target.value)}
+            placeholder="新密码"
+            className={inputClassName}
+          />
+          <input
+            type="password"
+            autoComplete="new-password"
+            required
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+            placeholder="再次输入新密码"
+            className={inputClassName}
+          />
+          {newPassword && (
+            <ul className="space-y-1 text-xs">
+              {PASSWORD_RULES.map(({ rule, label }) => (
+                <li key={rule} className={failedRules.includes(rule) ? 'text-gray-500' : 'text-green-700'}>
+                  {failedRules.includes(rule) ? '○' : '✓'} {label}
+                </li>
+              ))}
+            </ul>
+          )}
+          <button
+            type="submit"
+            disabled={submitting || failedRules.length > 0}
+            className="bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white px-4 py-2 rounded-md text-sm font-medium transition-colors"
+          >
+            {submitting ? '处理中...' : '修改密码'}
+          </button>
+        </form>
+      </div>
+    </div>
+  )
+}
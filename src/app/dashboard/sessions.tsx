@@ -0,0 +1,188 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+
+/**
+ * 会话记录
+ */
+interface UserSession {
+  id: string
+  created_at: string
+  refreshed_at: string | null
+  aal: string | null
+  user_agent: string | null
+  ip: string | null
+  last_seen_at: string | null
+}
+
+/**
+ * 格式化时间
+ */
+function formatTime(value: string | null) {
+  return value ? new Date(value).toLocaleString('zh-CN') : '无记录'
+}
+
+/**
+ * 从 User-Agent 中提取简短的设备描述
+ */
+function describeDevice(userAgent: string | null) {
+  if (!userAgent) {
+    return '未知设备'
+  }
+
+  const browser = ['Edg', 'Chrome', 'Firefox', 'Safari']
+    .find(name => userAgent.includes(`${name}/`))
+  const os = [
+    ['Windows', 'Windows'],
+    ['Mac OS X', 'macOS'],
+    ['iPhone', 'iOS'],
+    ['Android', 'Android'],
+    ['Linux', 'Linux']
+  ].find(([token]) => userAgent.includes(token))?.[1]
+
+  if (!browser && !os) {
+    return userAgent
+  }
+  return [browser === 'Edg' ? 'Edge' : browser, os].filter(Boolean).join(' · ')
+}
+
+/**
+ * 会话管理区块
+ * 列出当前用户的全部有效会话，支持吊销单个会话或退出全部设备
+ */
+export function SessionsSection() {
+  const [sessions, setSessions] = useState<UserSession[]>([])
+  const [currentSessionId, setCurrentSessionId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  /**
+   * 加载会话列表
+   */
+  const loadSessions = useCallback(async () => {
+    try {
+      const response = await fetch('/api/sessions')
+      if (!response.ok) {
+        setError('加载会话列表失败')
+        return
+      }
+      const { sessions, currentSessionId } = await response.json()
+      setSessions(sessions)
+      setCurrentSessionId(currentSessionId)
+    } catch (error) {
+      console.error('加载会话列表异常:', error)
+      setError('加载会话列表失败')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadSessions()
+  }, [loadSessions])
+
+  /**
+   * 吊销单个会话
+   */
+  const handleRevoke = async (session: UserSession) => {
+    const isCurrent = session.id === currentSessionId
+    if (!window.confirm(isCurrent ? '确定退出当前设备吗？' : '确定让该设备退出登录吗？')) {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/sessions/${session.id}`, { method: 'DELETE' })
+      if (!response.ok) {
+        setError('吊销会话失败')
+        return
+      }
+      if (isCurrent) {
+        window.location.href = '/login'
+        return
+      }
+      await loadSessions()
+    } catch (error) {
+      console.error('吊销会话异常:', error)
+      setError('吊销会话失败')
+    }
+  }
+
+  /**
+   * 退出全部设备
+   */
+  const handleRevokeAll = async () => {
+    if (!window.confirm('确定退出全部设备吗？包括当前设备在内的所有会话都将失效。')) {
+      return
+    }
+
+    try {
+      const response = await fetch('/api/sessions', { method: 'DELETE' })
+      if (!response.ok) {
+        setError('退出全部设备失败')
+        return
+      }
+      window.location.href = '/login'
+    } catch (error) {
+      console.error('退出全部设备异常:', error)
+      setError('退出全部设备失败')
+    }
+  }
+
+  return (
+    <div className="mt-6 bg-white overflow-hidden shadow rounded-lg">
+      <div className="px-4 py-5 sm:p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-medium text-gray-900">
+            登录会话
+          </h2>
+          <button
+            onClick={handleRevokeAll}
+            className="text-sm text-red-600 hover:text-red-500 font-medium"
+          >
+            退出全部设备
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <p className="text-sm text-gray-500">加载中...</p>
+        ) : sessions.length === 0 ? (
+          <p className="text-sm text-gray-500">暂无会话记录</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {sessions.map(session => (
+              <li key={session.id} className="py-3 flex items-center justify-between">
+                <div>
+                  <p className="text-sm font-medium text-gray-900" title={session.user_agent || ''}>
+                    {describeDevice(session.user_agent)}
+                    {session.id === currentSessionId && (
+                      <span className="ml-2 inline-flex px-2 py-0.5 text-xs font-semibold rounded-full bg-green-100 text-green-800">
+                        当前设备
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    IP：{session.ip || '未知'}
+                    {' · '}登录于 {formatTime(session.created_at)}
+                    {' · '}最后访问 {formatTime(session.last_seen_at)}
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleRevoke(session)}
+                  className="text-sm text-red-600 hover:text-red-500 font-medium"
+                >
+                  {session.id === currentSessionId ? '退出' : '吊销'}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
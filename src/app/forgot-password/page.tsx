@@ -0,0 +1,143 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useSearchParams } from 'next/navigation'
+
+/**
+ * 将重置链接的错误码转换为提示信息
+ * @param code - 错误码，来自重置链接落地接口
+ */
+function describeRecoveryError(code: string) {
+  switch (code) {
+    case 'otp_expired':
+      return '重置链接已过期或已使用，请重新发送重置邮件'
+    case 'invalid_link':
+      return '重置链接无效，请重新发送重置邮件'
+    default:
+      return '验证重置链接时发生错误，请重试'
+  }
+}
+
+/**
+ * 找回密码页面
+ * 输入邮箱后发送重置密码邮件，邮件中的链接打开设置新密码页面
+ */
+export default function ForgotPasswordPage() {
+  const searchParams = useSearchParams()
+  const [email, setEmail] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [sent, setSent] = useState(false)
+  const [error, setError] = useState<string | null>(() => {
+    const code = searchParams.get('error')
+    return code ? describeRecoveryError(code) : null
+  })
+  // 距离可以重新发送重置邮件的秒数
+  const [resendCooldown, setResendCooldown] = useState(0)
+
+  useEffect(() => {
+    // 重新发送倒计时
+    if (resendCooldown <= 0) {
+      return
+    }
+    const timer = setTimeout(() => setResendCooldown(resendCooldown - 1), 1000)
+    return () => clearTimeout(timer)
+  }, [resendCooldown])
+
+  /**
+   * 发送重置密码邮件
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/auth/password/forgot', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email })
+      })
+      const result = await response.json()
+
+      if (response.status === 429) {
+        setResendCooldown(result.retryAfter || 60)
+        setError(`发送过于频繁，请 ${result.retryAfter || 60} 秒后再试`)
+        return
+      }
+      if (!response.ok) {
+        setError(result.error === 'missing_email' ? '请输入邮箱地址' : '发送重置邮件失败，请重试')
+        return
+      }
+
+      setSent(true)
+      setResendCooldown(result.retryAfter)
+    } catch (error) {
+      console.error('发送重置邮件异常:', error)
+      setError('发送重置邮件失败，请重试')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full">
+        <div className="text-center mb-8">
+          <h2 className="text-2xl font-bold text-gray-900">找回密码</h2>
+          <p className="mt-2 text-sm text-gray-600">
+            输入注册邮箱，我们将发送重置密码的链接
+          </p>
+        </div>
+
+        <div className="bg-white rounded-2xl shadow-xl p-8 space-y-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+
+          {sent && (
+            <div className="bg-green-50 border border-green-200 text-green-800 px-4 py-3 rounded-lg text-sm">
+              如果 {email} 已注册，您将收到一封重置密码邮件，请打开邮件中的链接设置新密码。
+            </div>
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-1">
+                邮箱地址
+              </label>
+              <input
+                id="email"
+                type="email"
+                autoComplete="email"
+                required
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg shadow-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                placeholder="输入您的邮箱"
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={loading || resendCooldown > 0}
+              className="w-full flex justify-center py-3 px-4 border border-transparent rounded-lg shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {loading
+                ? '发送中...'
+                : resendCooldown > 0
+                  ? `${resendCooldown} 秒后可重新发送`
+                  : (sent ? '重新发送' : '发送重置邮件')}
+            </button>
+          </form>
+
+          <div className="text-center">
+            <a href="/login" className="text-sm text-blue-600 hover:text-blue-500 font-medium">
+              返回登录
+            </a>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,29 +1,119 @@
 'use client'
 
 import { useEffect, useState } from 'react'
-import { useRouter, useSearchParams } from 'next/navigation'
+import { useSearchParams } from 'next/navigation'
+import type { Provider } from '@supabase/supabase-js'
 import { createSupabaseComponentClient } from '@/lib/supabase-client'
+import { PASSWORD_RULES, checkPasswordStrength } from '@/lib/password'
+
+/**
+ * 第三方登录提供商
+ */
+interface AuthProvider {
+  provider: string
+  label: string
+  icon: string | null
+  scopes: string[]
+  queryParams: Record<string, string>
+}
+
+/**
+ * 注册策略
+ */
+interface RegistrationPolicy {
+  mode: 'open' | 'closed' | 'restricted'
+  emailDomains: string[]
+}
+
+/**
+ * 将登录错误码转换为提示信息
+ * @param code - 错误码，来自登录回调或登录接口
+ * @param retryAfter - 登录被锁定时距离解除的秒数
+ */
+function describeLoginError(code: string, retryAfter?: number | null) {
+  switch (code) {
+    case 'no_code':
+      return '登录过程中缺少授权码，请重试'
+    case 'no_session':
+      return '登录会话创建失败，请重试'
+    case 'unexpected_error':
+      return '登录过程中发生未知错误，请重试'
+    case 'missing_credentials':
+      return '请输入邮箱和密码'
+    case 'invalid_credentials':
+      return '邮箱或密码错误'
+    case 'email_not_confirmed':
+      return '邮箱尚未验证，请检查您的邮箱并点击确认链接'
+    case 'user_banned':
+      return '账户已被禁用，请联系管理员'
+    case 'provider_not_allowed':
+      return '您的账户不能使用该方式登录，请选择其他登录方式'
+    case 'too_many_attempts':
+      return retryAfter
+        ? `登录失败次数过多，请 ${Math.ceil(retryAfter / 60)} 分钟后再试`
+        : '登录失败次数过多，请稍后再试'
+    case 'missing_email':
+      return '请输入邮箱地址'
+    case 'invalid_otp':
+      return '请输入邮件中的 6 位数字验证码'
+    case 'otp_expired':
+      return '验证码或登录链接错误或已过期，请重新发送登录邮件'
+    case 'invalid_email':
+      return '邮箱地址格式不正确'
+    case 'weak_password':
+      return '密码不满足强度要求'
+    case 'registration_closed':
+      return '当前不开放注册，请联系管理员'
+    case 'email_domain_not_allowed':
+      return '该邮箱不能注册，请使用允许的邮箱或邀请链接注册'
+    case 'invalid_invitation':
+      return '邀请链接无效、已过期或已使用'
+    default:
+      return decodeURIComponent(code)
+  }
+}
 
 /**
  * 登录页面组件
  * 提供类似 Clerk 风格的现代化登录界面
  */
 export default function LoginPage() {
-  const router = useRouter()
   const searchParams = useSearchParams()
   const [supabase] = useState(() => createSupabaseComponentClient())
-  const [error, setError] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(() => {
+    // 首次渲染即显示错误，未启用 JavaScript 时表单提交失败也能看到提示
+    const code = searchParams.get('error')
+    return code ? describeLoginError(code, Number(searchParams.get('retry_after'))) : null
+  })
   const [loading, setLoading] = useState(false)
   const [origin, setOrigin] = useState('')
-  const [mode, setMode] = useState<'signin' | 'signup'>('signin')
+  // 魔法链接过期时回到无密码登录，方便重新发送；邀请链接直接进入注册
+  const [mode, setMode] = useState<'signin' | 'signup' | 'passwordless'>(() => {
+    if (searchParams.get('error') === 'otp_expired') {
+      return 'passwordless'
+    }
+    return searchParams.get('mode') === 'signup' ? 'signup' : 'signin'
+  })
   const [email, setEmail] = useState('')
   const [password, setPassword] = useState('')
+  const [providers, setProviders] = useState<AuthProvider[]>([])
+  const [otpSent, setOtpSent] = useState(false)
+  const [otp, setOtp] = useState('')
+  // 距离可以重新发送登录邮件的秒数
+  const [resendCooldown, setResendCooldown] = useState(0)
+  const [registration, setRegistration] = useState<RegistrationPolicy>({ mode: 'open', emailDomains: [] })
+  const [invite, setInvite] = useState(() => searchParams.get('invite') || '')
+  const [signupSent, setSignupSent] = useState(false)
+
+  const failedRules = mode === 'signup' ? checkPasswordStrength(password, email) : []
   
   const redirectUrl = searchParams.get('redirect')
   const errorParam = searchParams.get('error')
+  const retryAfterParam = searchParams.get('retry_after')
   
   /**
    * 处理登录
+   * 由登录接口在服务端完成登录并设置 Cookie；未启用 JavaScript 时表单直接提交到同一接口
    */
   const handleSignIn = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -31,14 +121,19 @@ export default function LoginPage() {
     setError(null)
 
     try {
-      const { error } = await supabase.auth.signInWithPassword({
-        email,
-        password,
+      const response = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, password, redirect: redirectUrl })
       })
+      const result = await response.json()
 
-      if (error) {
-        setError(error.message)
+      if (!response.ok) {
+        setError(describeLoginError(result.error || 'unexpected_error', result.retryAfter))
+        return
       }
+
+      window.location.href = result.redirect
     } catch (err) {
       setError('登录失败，请重试')
     } finally {
@@ -48,6 +143,7 @@ export default function LoginPage() {
 
   /**
    * 处理注册
+   * 由注册接口按注册策略检查后创建账户，并发送确认邮箱用的登录链接
    */
   const handleSignUp = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -55,19 +151,19 @@ export default function LoginPage() {
     setError(null)
 
     try {
-      const { error } = await supabase.auth.signUp({
-        email,
-        password,
-        options: {
-          emailRedirectTo: `${origin}/api/auth/callback`,
-        },
+      const response = await fetch('/api/auth/signup', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, password, invite, redirect: redirectUrl })
       })
 
-      if (error) {
-        setError(error.message)
-      } else {
-        setError('请检查您的邮箱并点击确认链接')
+      if (!response.ok) {
+        const result = await response.json()
+        setError(describeLoginError(result.error || 'unexpected_error', result.retryAfter))
+        return
       }
+
+      setSignupSent(true)
     } catch (err) {
       setError('注册失败，请重试')
     } finally {
@@ -76,17 +172,87 @@ export default function LoginPage() {
   }
 
   /**
-   * 处理 Google 登录
+   * 发送无密码登录邮件，邮件中同时包含魔法链接与 6 位验证码
+   */
+  const handleSendOtp = async (e?: React.FormEvent) => {
+    e?.preventDefault()
+    setLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/auth/otp', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, redirect: redirectUrl })
+      })
+      const result = await response.json()
+
+      if (response.status === 429) {
+        setResendCooldown(result.retryAfter || 60)
+        setError(`发送过于频繁，请 ${result.retryAfter || 60} 秒后再试`)
+        return
+      }
+      if (!response.ok) {
+        setError(describeLoginError(result.error || 'unexpected_error'))
+        return
+      }
+
+      setOtpSent(true)
+      setOtp('')
+      setResendCooldown(result.retryAfter)
+    } catch (error) {
+      console.error('发送登录邮件异常:', error)
+      setError('发送登录邮件失败，请重试')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  /**
+   * 使用邮件中的验证码登录
+   */
+  const handleVerifyOtp = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/auth/otp/verify', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, token: otp, redirect: redirectUrl })
+      })
+      const result = await response.json()
+
+      if (!response.ok) {
+        setError(describeLoginError(result.error || 'unexpected_error', result.retryAfter))
+        setOtp('')
+        return
+      }
+
+      window.location.href = result.redirect
+    } catch (error) {
+      console.error('验证码登录异常:', error)
+      setError('验证失败，请重试')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  /**
+   * 处理第三方登录
    */
-  const handleGoogleSignIn = async () => {
+  const handleOAuthSignIn = async (provider: AuthProvider) => {
     setLoading(true)
     setError(null)
 
     try {
       const { error } = await supabase.auth.signInWithOAuth({
-        provider: 'google',
+        provider: provider.provider as Provider,
         options: {
           redirectTo: `${origin}/api/auth/callback?redirect=${encodeURIComponent(redirectUrl || '/dashboard')}`,
+          scopes: provider.scopes.length > 0 ? provider.scopes.join(' ') : undefined,
+          queryParams: provider.queryParams,
         },
       })
 
@@ -94,12 +260,58 @@ export default function LoginPage() {
         setError(error.message)
       }
     } catch (err) {
-      setError('Google 登录失败，请重试')
+      setError(`${provider.label}失败，请重试`)
     } finally {
       setLoading(false)
     }
   }
 
+  useEffect(() => {
+    // 重新发送倒计时
+    if (resendCooldown <= 0) {
+      return
+    }
+    const timer = setTimeout(() => setResendCooldown(resendCooldown - 1), 1000)
+    return () => clearTimeout(timer)
+  }, [resendCooldown])
+
+  useEffect(() => {
+    /**
+     * 加载注册策略
+     */
+    const loadRegistration = async () => {
+      try {
+        const response = await fetch('/api/auth/registration')
+        if (response.ok) {
+          setRegistration(await response.json())
+        }
+      } catch (error) {
+        console.error('加载注册策略失败:', error)
+      }
+    }
+
+    loadRegistration()
+  }, [])
+
+  useEffect(() => {
+    /**
+     * 加载已配置的第三方登录提供商
+     */
+    const loadProviders = async () => {
+      try {
+        const response = await fetch('/api/auth/providers')
+        if (response.ok) {
+          const { providers } = await response.json()
+          setProviders(providers)
+        }
+      } catch (error) {
+        console.error('加载登录方式失败:', error)
+      }
+    }
+
+    loadProviders()
+  }, [])
+
   useEffect(() => {
     // 设置当前域名
     if (typeof window !== 'undefined') {
@@ -116,19 +328,7 @@ export default function LoginPage() {
   useEffect(() => {
     // 显示错误信息
     if (errorParam) {
-      switch (errorParam) {
-        case 'no_code':
-          setError('登录过程中缺少授权码，请重试')
-          break
-        case 'no_session':
-          setError('登录会话创建失败，请重试')
-          break
-        case 'unexpected_error':
-          setError('登录过程中发生未知错误，请重试')
-          break
-        default:
-          setError(decodeURIComponent(errorParam))
-      }
+      setError(describeLoginError(errorParam, Number(retryAfterParam)))
     }
     
     /**
@@ -145,9 +345,8 @@ export default function LoginPage() {
         }
         
         if (session) {
-          // 用户已登录，重定向到目标页面或仪表板
-          const targetUrl = redirectUrl || '/dashboard'
-          router.push(targetUrl)
+          // 用户已登录，经服务端校验后重定向到目标页面或仪表板
+          window.location.href = `/api/auth/continue?redirect=${encodeURIComponent(redirectUrl || '/dashboard')}`
         }
       } catch (error) {
         console.error('检查认证状态异常:', error)
@@ -159,7 +358,7 @@ export default function LoginPage() {
     if (origin) {
       checkAuth()
     }
-  }, [router, redirectUrl, errorParam, supabase, origin])
+  }, [redirectUrl, errorParam, retryAfterParam, supabase, origin])
   
   useEffect(() => {
     // 监听认证状态变化
@@ -207,10 +406,10 @@ export default function LoginPage() {
             </svg>
           </div>
           <h2 className="text-2xl font-bold text-gray-900">
-            {mode === 'signin' ? '欢迎回来' : '创建账户'}
+            {mode === 'signup' ? '创建账户' : '欢迎回来'}
           </h2>
           <p className="mt-2 text-sm text-gray-600">
-            {mode === 'signin' ? '登录到您的账户' : '注册新账户开始使用'}
+            {mode === 'signup' ? '注册新账户开始使用' : '登录到您的账户'}
           </p>
         </div>
 
@@ -223,89 +422,251 @@ export default function LoginPage() {
             </div>
           )}
 
-          {/* Google 登录按钮 */}
-          <button
-            onClick={handleGoogleSignIn}
-            disabled={loading}
-            className="w-full flex justify-center items-center px-4 py-3 border border-gray-300 rounded-lg shadow-sm bg-white text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-          >
-            <svg className="w-5 h-5 mr-2" viewBox="0 0 24 24">
-              <path fill="#4285F4" d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z"/>
-              <path fill="#34A853" d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z"/>
-              <path fill="#FBBC05" d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l2.85-2.22.81-.62z"/>
-              <path fill="#EA4335" d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z"/>
-            </svg>
-            {loading ? '处理中...' : '使用 Google 继续'}
-          </button>
+          {/* 第三方登录按钮 */}
+          {providers.length > 0 && (
+            <>
+              <div className="space-y-3">
+                {providers.map(provider => (
+                  <button
+                    key={provider.provider}
+                    onClick={() => handleOAuthSignIn(provider)}
+                    disabled={loading}
+                    className="w-full flex justify-center items-center px-4 py-3 border border-gray-300 rounded-lg shadow-sm bg-white text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    {provider.icon ? (
+                      // eslint-disable-next-line @next/next/no-img-element
+                      <img src={provider.icon} alt="" className="w-5 h-5 mr-2 object-contain" />
+                    ) : provider.provider === 'google' && (
+                      <svg className="w-5 h-5 mr-2" viewBox="0 0 24 24">
+                        <path fill="#4285F4" d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z"/>
+                        <path fill="#34A853" d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z"/>
+                        <path fill="#FBBC05" d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l2.85-2.22.81-.62z"/>
+                        <path fill="#EA4335" d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z"/>
+                      </svg>
+                    )}
+                    {loading ? '处理中...' : provider.label}
+                  </button>
+                ))}
+              </div>
 
-          {/* 分割线 */}
-          <div className="relative">
-            <div className="absolute inset-0 flex items-center">
-              <div className="w-full border-t border-gray-300" />
-            </div>
-            <div className="relative flex justify-center text-sm">
-              <span className="px-2 bg-white text-gray-500">或</span>
-            </div>
-          </div>
+              {/* 分割线 */}
+              <div className="relative">
+                <div className="absolute inset-0 flex items-center">
+                  <div className="w-full border-t border-gray-300" />
+                </div>
+                <div className="relative flex justify-center text-sm">
+                  <span className="px-2 bg-white text-gray-500">或</span>
+                </div>
+              </div>
+            </>
+          )}
 
-          {/* 邮箱密码表单 */}
-          <form onSubmit={mode === 'signin' ? handleSignIn : handleSignUp} className="space-y-4">
-            <div>
-              <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-1">
-                邮箱地址
-              </label>
-              <input
-                id="email"
-                name="email"
-                type="email"
-                autoComplete="email"
-                required
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-                className="w-full px-3 py-2 border border-gray-300 rounded-lg shadow-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                placeholder="输入您的邮箱"
-              />
+          {mode === 'passwordless' ? (
+            /* 无密码登录 */
+            otpSent ? (
+              <form onSubmit={handleVerifyOtp} className="space-y-4">
+                <p className="text-sm text-gray-600">
+                  登录邮件已发送到 <span className="font-medium text-gray-900">{email}</span>，请点击邮件中的链接，或输入邮件中的 6 位验证码：
+                </p>
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  pattern="[0-9]{6}"
+                  maxLength={6}
+                  required
+                  autoFocus
+                  value={otp}
+                  onChange={(e) => setOtp(e.target.value)}
+                  placeholder="123456"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg shadow-sm placeholder-gray-400 text-center tracking-widest font-mono focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+                <button
+                  type="submit"
+                  disabled={loading}
+                  className="w-full flex justify-center py-3 px-4 border border-transparent rounded-lg shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  {loading ? '验证中...' : '登录'}
+                </button>
+                <div className="flex justify-between text-sm">
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setOtpSent(false)
+                      setOtp('')
+                      setError(null)
+                    }}
+                    className="text-gray-600 hover:text-gray-800"
+                  >
+                    更换邮箱
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleSendOtp()}
+                    disabled={loading || resendCooldown > 0}
+                    className="text-blue-600 hover:text-blue-500 disabled:text-gray-400 font-medium"
+                  >
+                    {resendCooldown > 0 ? `${resendCooldown} 秒后可重新发送` : '重新发送'}
+                  </button>
+                </div>
+              </form>
+            ) : (
+              <form onSubmit={handleSendOtp} className="space-y-4">
+                <div>
+                  <label htmlFor="passwordless-email" className="block text-sm font-medium text-gray-700 mb-1">
+                    邮箱地址
+                  </label>
+                  <input
+                    id="passwordless-email"
+                    type="email"
+                    autoComplete="email"
+                    required
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg shadow-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    placeholder="输入您的邮箱"
+                  />
+                </div>
+                <button
+                  type="submit"
+                  disabled={loading || resendCooldown > 0}
+                  className="w-full flex justify-center py-3 px-4 border border-transparent rounded-lg shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  {loading ? '发送中...' : (resendCooldown > 0 ? `${resendCooldown} 秒后可重新发送` : '发送登录链接与验证码')}
+                </button>
+              </form>
+            )
+          ) : mode === 'signup' && registration.mode === 'closed' ? (
+            <p className="text-sm text-gray-600 text-center">当前不开放注册，请联系管理员邀请您加入。</p>
+          ) : mode === 'signup' && signupSent ? (
+            <div className="bg-green-50 border border-green-200 text-green-800 px-4 py-3 rounded-lg text-sm">
+              我们已向 {email} 发送确认邮件，请点击邮件中的链接完成注册并登录。
             </div>
+          ) : (
+            /* 邮箱密码表单 */
+            <form
+              method="post"
+              action="/api/auth/login"
+              onSubmit={mode === 'signin' ? handleSignIn : handleSignUp}
+              className="space-y-4"
+            >
+              {redirectUrl && <input type="hidden" name="redirect" value={redirectUrl} />}
 
-            <div>
-              <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-1">
-                密码
-              </label>
-              <input
-                id="password"
-                name="password"
-                type="password"
-                autoComplete={mode === 'signin' ? 'current-password' : 'new-password'}
-                required
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                className="w-full px-3 py-2 border border-gray-300 rounded-lg shadow-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                placeholder={mode === 'signin' ? '输入您的密码' : '创建密码'}
-              />
-            </div>
+              <div>
+                <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-1">
+                  {mode === 'signin' ? '邮箱或用户名' : '邮箱地址'}
+                </label>
+                {/* 登录时允许输入目录（LDAP）用户名 */}
+                <input
+                  id="email"
+                  name="email"
+                  type={mode === 'signin' ? 'text' : 'email'}
+                  autoComplete={mode === 'signin' ? 'username' : 'email'}
+                  required
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg shadow-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  placeholder={mode === 'signin' ? '输入您的邮箱或用户名' : '输入您的邮箱'}
+                />
+              </div>
 
-            <button
-              type="submit"
-              disabled={loading}
-              className="w-full flex justify-center py-3 px-4 border border-transparent rounded-lg shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-            >
-              {loading ? '处理中...' : (mode === 'signin' ? '登录' : '注册')}
-            </button>
-          </form>
+              <div>
+                <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-1">
+                  密码
+                </label>
+                <input
+                  id="password"
+                  name="password"
+                  type="password"
+                  autoComplete={mode === 'signin' ? 'current-password' : 'new-password'}
+                  required
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg shadow-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  placeholder={mode === 'signin' ? '输入您的密码' : '创建密码'}
+                />
+                {mode === 'signin' && (
+                  <div className="mt-1 text-right">
+                    <a href="/forgot-password" className="text-xs text-blue-600 hover:text-blue-500">
+                      忘记密码？
+                    </a>
+                  </div>
+                )}
+                {mode === 'signup' && password && (
+                  <ul className="mt-2 space-y-1 text-xs">
+                    {PASSWORD_RULES.map(({ rule, label }) => (
+                      <li key={rule} className={failedRules.includes(rule) ? 'text-gray-500' : 'text-green-700'}>
+                        {failedRules.includes(rule) ? '○' : '✓'} {label}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              {/* 限制注册模式：允许的邮箱域或邀请码 */}
+              {mode === 'signup' && registration.mode === 'restricted' && (
+                <div>
+                  <label htmlFor="invite" className="block text-sm font-medium text-gray-700 mb-1">
+                    邀请码
+                  </label>
+                  <input
+                    id="invite"
+                    type="text"
+                    autoComplete="off"
+                    value={invite}
+                    onChange={(e) => setInvite(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg shadow-sm placeholder-gray-400 font-mono focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    placeholder="邀请链接中的邀请码"
+                  />
+                  {registration.emailDomains.length > 0 && (
+                    <p className="mt-1 text-xs text-gray-500">
+                      使用 {registration.emailDomains.map(domain => `@${domain}`).join('、')} 邮箱注册时无需邀请码
+                    </p>
+                  )}
+                </div>
+              )}
+
+              <button
+                type="submit"
+                disabled={loading || failedRules.length > 0}
+                className="w-full flex justify-center py-3 px-4 border border-transparent rounded-lg shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {loading ? '处理中...' : (mode === 'signin' ? '登录' : '注册')}
+              </button>
+            </form>
+          )}
 
           {/* 切换模式 */}
-          <div className="text-center">
+          <div className="text-center space-y-2">
+            {mode !== 'signup' && (
+              <button
+                onClick={() => {
+                  setMode(mode === 'signin' ? 'passwordless' : 'signin')
+                  setError(null)
+                  setOtpSent(false)
+                  setOtp('')
+                  setPassword('')
+                }}
+                className="block w-full text-sm text-blue-600 hover:text-blue-500 font-medium"
+              >
+                {mode === 'signin' ? '使用邮箱验证码登录' : '使用密码登录'}
+              </button>
+            )}
+            {(mode === 'signup' || registration.mode !== 'closed') && (
             <button
               onClick={() => {
-                setMode(mode === 'signin' ? 'signup' : 'signin')
+                setMode(mode === 'signup' ? 'signin' : 'signup')
                 setError(null)
                 setEmail('')
                 setPassword('')
+                setOtpSent(false)
+                setSignupSent(false)
               }}
-              className="text-sm text-blue-600 hover:text-blue-500 font-medium"
+              className="block w-full text-sm text-blue-600 hover:text-blue-500 font-medium"
             >
-              {mode === 'signin' ? '没有账户？立即注册' : '已有账户？立即登录'}
+              {mode === 'signup' ? '已有账户？立即登录' : '没有账户？立即注册'}
             </button>
+            )}
           </div>
 
           {/* 重定向信息 */}
@@ -0,0 +1,98 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+
+// 前端通道登出的等待时间（毫秒），超时未加载完成的应用视为未响应
+const FRONTCHANNEL_TIMEOUT = 5000
+
+type ChannelStatus = 'pending' | 'confirmed' | 'failed' | 'skipped'
+
+/**
+ * 登出结果页中的应用
+ * backchannel 为服务端通知结果，未配置后端通道时为 null
+ */
+export interface LogoutApplication {
+  id: string
+  name: string
+  backchannel: ChannelStatus | null
+  frontchannelUrl: string | null
+}
+
+const STATUS_STYLES: Record<ChannelStatus, { label: string; className: string }> = {
+  pending: { label: '通知中', className: 'bg-yellow-100 text-yellow-800' },
+  confirmed: { label: '已确认', className: 'bg-green-100 text-green-800' },
+  failed: { label: '未确认', className: 'bg-red-100 text-red-800' },
+  skipped: { label: '未通知', className: 'bg-gray-100 text-gray-600' }
+}
+
+/**
+ * 通道状态标签
+ */
+function StatusBadge({ channel, status }: { channel: string; status: ChannelStatus }) {
+  const style = STATUS_STYLES[status]
+  return (
+    <span className={`inline-flex px-2 py-0.5 text-xs font-semibold rounded-full ${style.className}`}>
+      {channel}：{style.label}
+    </span>
+  )
+}
+
+/**
+ * 登出结果
+ * 在隐藏 iframe 中加载各应用的前端通道登出地址，并展示各应用的确认状态
+ */
+export function LogoutStatus({ applications, continueUrl }: { applications: LogoutApplication[]; continueUrl: string }) {
+  // 挂载后再渲染 iframe，避免加载事件早于水合而丢失
+  const [mounted, setMounted] = useState(false)
+  const [frontchannel, setFrontchannel] = useState<Record<string, ChannelStatus>>(() => Object.fromEntries(
+    applications.filter(app => app.frontchannelUrl).map(app => [app.id, 'pending'])
+  ))
+
+  useEffect(() => {
+    setMounted(true)
+    const timer = setTimeout(() => {
+      setFrontchannel(current => Object.fromEntries(
+        Object.entries(current).map(([id, status]) => [id, status === 'pending' ? 'failed' : status])
+      ))
+    }, FRONTCHANNEL_TIMEOUT)
+    return () => clearTimeout(timer)
+  }, [])
+
+  const finished = Object.values(frontchannel).every(status => status !== 'pending')
+
+  return (
+    <div>
+      <ul className="divide-y divide-gray-200 mb-6">
+        {applications.map(app => (
+          <li key={app.id} className="py-3 flex items-center justify-between">
+            <span className="text-sm font-medium text-gray-900">{app.name}</span>
+            <span className="flex gap-2">
+              {app.backchannel && <StatusBadge channel="服务端" status={app.backchannel} />}
+              {frontchannel[app.id] && <StatusBadge channel="浏览器" status={frontchannel[app.id]} />}
+              {!app.backchannel && !frontchannel[app.id] && (
+                <StatusBadge channel="登出" status="skipped" />
+              )}
+            </span>
+          </li>
+        ))}
+      </ul>
+
+      {mounted && applications.filter(app => app.frontchannelUrl).map(app => (
+        <iframe
+          key={app.id}
+          src={app.frontchannelUrl || undefined}
+          title={`${app.name} 登出`}
+          className="hidden"
+          onLoad={() => setFrontchannel(current => ({ ...current, [app.id]: 'confirmed' }))}
+        />
+      ))}
+
+      <a
+        href={continueUrl}
+        className="w-full flex justify-center py-3 px-4 border border-transparent rounded-lg shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 transition-colors"
+      >
+        {finished ? '重新登录' : '正在通知应用...'}
+      </a>
+    </div>
+  )
+}
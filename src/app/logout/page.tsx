@@ -0,0 +1,57 @@
+import { getLogoutApplications } from '@/lib/applications'
+import { resolveRedirect } from '@/lib/redirect'
+import { getFrontchannelLogoutUrl } from '@/lib/single-logout'
+import { LogoutStatus, type LogoutApplication } from './logout-status'
+
+/**
+ * 解析后端通道登出结果参数
+ */
+function parseAppIds(value: string | string[] | undefined): string[] {
+  return typeof value === 'string' ? value.split(',') : []
+}
+
+/**
+ * 登出结果页
+ * 有应用配置了登出地址时，登出接口重定向到此页面，由其完成前端通道登出并展示各应用的确认状态
+ */
+export default async function LogoutPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>
+}) {
+  const params = await searchParams
+  const confirmed = parseAppIds(params.confirmed)
+  const failed = parseAppIds(params.failed)
+
+  // 只允许站内路径或受信任域名，其余情况回到登录页
+  const redirect = typeof params.redirect === 'string' ? params.redirect : null
+  const continueUrl = await resolveRedirect(redirect, '/login', 'logout')
+
+  const applications: LogoutApplication[] = (await getLogoutApplications()).map(app => ({
+    id: app.id,
+    name: app.name,
+    backchannel: !app.backchannelLogoutUri
+      ? null
+      : confirmed.includes(app.id) ? 'confirmed' : failed.includes(app.id) ? 'failed' : 'skipped',
+    frontchannelUrl: getFrontchannelLogoutUrl(app)
+  }))
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full">
+        <div className="text-center mb-8">
+          <h2 className="text-2xl font-bold text-gray-900">
+            您已退出登录
+          </h2>
+          <p className="mt-2 text-sm text-gray-600">
+            正在通知以下应用结束会话
+          </p>
+        </div>
+
+        <div className="bg-white rounded-2xl shadow-xl p-8">
+          <LogoutStatus applications={applications} continueUrl={continueUrl} />
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,257 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useSearchParams } from 'next/navigation'
+
+/**
+ * TOTP 验证器
+ */
+interface MfaFactor {
+  id: string
+  friendly_name: string | null
+  status: 'verified' | 'unverified'
+}
+
+/**
+ * 二次验证页面
+ * 登录后或访问要求多因素认证的应用时，已登录用户在此输入 TOTP 验证码将会话提升为 aal2
+ * 丢失验证器时可使用恢复码解除绑定，之后在仪表板重新绑定
+ */
+export default function MfaPage() {
+  const searchParams = useSearchParams()
+  const redirectUrl = searchParams.get('redirect')
+  const [factors, setFactors] = useState<MfaFactor[]>([])
+  const [factorId, setFactorId] = useState('')
+  const [loading, setLoading] = useState(true)
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [mode, setMode] = useState<'totp' | 'recovery'>('totp')
+  const [code, setCode] = useState('')
+  const [recovered, setRecovered] = useState(false)
+
+  useEffect(() => {
+    /**
+     * 加载验证器，会话已是 aal2 时直接跳转
+     */
+    const loadFactors = async () => {
+      try {
+        const response = await fetch('/api/mfa/factors')
+        if (response.status === 401) {
+          const loginUrl = new URL('/login', window.location.origin)
+          if (redirectUrl) {
+            loginUrl.searchParams.set('redirect', redirectUrl)
+          }
+          window.location.href = loginUrl.toString()
+          return
+        }
+        if (!response.ok) {
+          setError('加载验证器失败')
+          return
+        }
+
+        const { factors, aal } = await response.json()
+        const verified = (factors as MfaFactor[]).filter(factor => factor.status === 'verified')
+        if (aal === 'aal2' && verified.length > 0) {
+          // 经服务端校验后跳转
+          window.location.href = `/api/auth/continue?redirect=${encodeURIComponent(redirectUrl || '/dashboard')}`
+          return
+        }
+        setFactors(verified)
+        setFactorId(verified[0]?.id || '')
+      } catch (error) {
+        console.error('加载验证器异常:', error)
+        setError('加载验证器失败')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadFactors()
+  }, [redirectUrl])
+
+  /**
+   * 提交验证码
+   */
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSubmitting(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/mfa/verify', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ factorId, code, redirect: redirectUrl }),
+      })
+      const result = await response.json()
+
+      if (!response.ok) {
+        setError(result.error === 'too_many_attempts' ? '尝试次数过多，请稍后再试' : '验证码错误或已过期')
+        setCode('')
+        return
+      }
+
+      window.location.href = result.redirect
+    } catch (error) {
+      console.error('二次验证异常:', error)
+      setError('验证失败，请重试')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  /**
+   * 使用恢复码
+   */
+  const handleRecover = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSubmitting(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/mfa/recover', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ code }),
+      })
+
+      if (!response.ok) {
+        setError(response.status === 429 ? '尝试次数过多，请稍后再试' : '恢复码无效或已使用')
+        return
+      }
+
+      setRecovered(true)
+    } catch (error) {
+      console.error('使用恢复码异常:', error)
+      setError('使用恢复码失败，请重试')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg shadow-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500'
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full">
+        <div className="text-center mb-8">
+          <h2 className="text-2xl font-bold text-gray-900">二次验证</h2>
+          <p className="mt-2 text-sm text-gray-600">
+            请输入身份验证器中显示的 6 位验证码
+          </p>
+        </div>
+
+        <div className="bg-white rounded-2xl shadow-xl p-8 space-y-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+
+          {loading ? (
+            <p className="text-sm text-gray-500 text-center">加载中...</p>
+          ) : recovered ? (
+            <div className="space-y-4 text-sm text-gray-700">
+              <p>恢复码已使用，您的身份验证器已全部解除绑定。请在仪表板中重新绑定验证器并保存新的恢复码。</p>
+              <a
+                href="/dashboard"
+                className="w-full flex justify-center py-3 px-4 rounded-lg text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
+              >
+                前往仪表板
+              </a>
+            </div>
+          ) : factors.length === 0 ? (
+            <div className="space-y-4 text-sm text-gray-700">
+              <p>访问该应用需要多因素认证，但您尚未绑定身份验证器。请先在仪表板中绑定验证器。</p>
+              <a
+                href="/dashboard"
+                className="w-full flex justify-center py-3 px-4 rounded-lg text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
+              >
+                前往仪表板
+              </a>
+            </div>
+          ) : (
+            <>
+              {mode === 'totp' ? (
+                <form onSubmit={handleVerify} className="space-y-4">
+                  {factors.length > 1 && (
+                    <select value={factorId} onChange={(e) => setFactorId(e.target.value)} className={inputClassName}>
+                      {factors.map(factor => (
+                        <option key={factor.id} value={factor.id}>{factor.friendly_name || factor.id}</option>
+                      ))}
+                    </select>
+                  )}
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    pattern="[0-9]{6}"
+                    maxLength={6}
+                    required
+                    autoFocus
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    placeholder="123456"
+                    className={`${inputClassName} text-center tracking-widest font-mono`}
+                  />
+                  <button
+                    type="submit"
+                    disabled={submitting}
+                    className="w-full flex justify-center py-3 px-4 border border-transparent rounded-lg shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    {submitting ? '验证中...' : '验证'}
+                  </button>
+                </form>
+              ) : (
+                <form onSubmit={handleRecover} className="space-y-4">
+                  <p className="text-sm text-gray-600">
+                    使用恢复码将解除您的全部身份验证器，之后需要在仪表板中重新绑定。
+                  </p>
+                  <input
+                    type="text"
+                    autoComplete="off"
+                    required
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    placeholder="abcde-fghjk"
+                    className={`${inputClassName} font-mono`}
+                  />
+                  <button
+                    type="submit"
+                    disabled={submitting}
+                    className="w-full flex justify-center py-3 px-4 border border-transparent rounded-lg shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    {submitting ? '处理中...' : '使用恢复码'}
+                  </button>
+                </form>
+              )}
+
+              <div className="text-center">
+                <button
+                  onClick={() => {
+                    setMode(mode === 'totp' ? 'recovery' : 'totp')
+                    setError(null)
+                    setCode('')
+                  }}
+                  className="text-sm text-blue-600 hover:text-blue-500 font-medium"
+                >
+                  {mode === 'totp' ? '无法使用验证器？使用恢复码' : '返回输入验证码'}
+                </button>
+              </div>
+            </>
+          )}
+
+          <div className="text-center">
+            <a href="/api/auth/logout?redirect=/login" className="text-xs text-gray-500 hover:text-gray-700">
+              切换账户
+            </a>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,170 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { PASSWORD_RULES, checkPasswordStrength } from '@/lib/password'
+
+/**
+ * 设置新密码页面
+ * 由重置密码邮件中的链接打开；设置成功后全部设备退出登录，需要使用新密码重新登录
+ */
+export default function ResetPasswordPage() {
+  const [email, setEmail] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [expired, setExpired] = useState(false)
+  const [password, setPassword] = useState('')
+  const [confirmation, setConfirmation] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [done, setDone] = useState(false)
+
+  const failedRules = checkPasswordStrength(password, email)
+
+  useEffect(() => {
+    /**
+     * 确认重置链接仍然有效
+     */
+    const loadRecovery = async () => {
+      try {
+        const response = await fetch('/api/auth/password/reset')
+        if (response.status === 401) {
+          setExpired(true)
+          return
+        }
+        if (!response.ok) {
+          setError('加载失败，请重试')
+          return
+        }
+        const { email } = await response.json()
+        setEmail(email)
+      } catch (error) {
+        console.error('加载重置密码状态异常:', error)
+        setError('加载失败，请重试')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadRecovery()
+  }, [])
+
+  /**
+   * 提交新密码
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (password !== confirmation) {
+      setError('两次输入的密码不一致')
+      return
+    }
+    setSubmitting(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/auth/password/reset', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ password })
+      })
+
+      if (response.status === 401) {
+        setExpired(true)
+        return
+      }
+      if (!response.ok) {
+        const { error } = await response.json()
+        setError(error === 'weak_password' ? '密码不满足强度要求' : '设置新密码失败，请重试')
+        return
+      }
+
+      setDone(true)
+    } catch (error) {
+      console.error('设置新密码异常:', error)
+      setError('设置新密码失败，请重试')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg shadow-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500'
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full">
+        <div className="text-center mb-8">
+          <h2 className="text-2xl font-bold text-gray-900">设置新密码</h2>
+          {email && (
+            <p className="mt-2 text-sm text-gray-600">{email}</p>
+          )}
+        </div>
+
+        <div className="bg-white rounded-2xl shadow-xl p-8 space-y-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+
+          {loading ? (
+            <p className="text-sm text-gray-500 text-center">加载中...</p>
+          ) : done ? (
+            <div className="space-y-4 text-sm text-gray-700">
+              <p>密码已重置，您的账户已在全部设备上退出登录。请使用新密码重新登录。</p>
+              <a
+                href="/login"
+                className="w-full flex justify-center py-3 px-4 rounded-lg text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
+              >
+                前往登录
+              </a>
+            </div>
+          ) : expired ? (
+            <div className="space-y-4 text-sm text-gray-700">
+              <p>重置链接已过期或已使用，请重新发送重置邮件。</p>
+              <a
+                href="/forgot-password"
+                className="w-full flex justify-center py-3 px-4 rounded-lg text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
+              >
+                重新发送
+              </a>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <input
+                type="password"
+                autoComplete="new-password"
+                required
+                autoFocus
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="新密码"
+                className={inputClassName}
+              />
+              <input
+                type="password"
+                autoComplete="new-password"
+                required
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+                placeholder="再次输入新密码"
+                className={inputClassName}
+              />
+              <ul className="space-y-1 text-xs">
+                {PASSWORD_RULES.map(({ rule, label }) => (
+                  <li key={rule} className={failedRules.includes(rule) ? 'text-gray-500' : 'text-green-700'}>
+                    {failedRules.includes(rule) ? '○' : '✓'} {label}
+                  </li>
+                ))}
+              </ul>
+              <button
+                type="submit"
+                disabled={submitting || failedRules.length > 0}
+                className="w-full flex justify-center py-3 px-4 border border-transparent rounded-lg shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {submitting ? '处理中...' : '设置新密码'}
+              </button>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,25 @@
+/**
+ * 服务启动时校验配置
+ * 配置问题逐条写入日志；生产环境存在 error 级别的问题时退出进程，避免以错误的默认值对外提供服务
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs' || process.env.NEXT_PHASE === 'phase-production-build') {
+    return
+  }
+
+  const { getConfigIssues } = await import('./lib/config')
+  const { checkSupabaseSignupDisabled } = await import('./lib/registration')
+  const { logger } = await import('./lib/logger')
+
+  // 注册策略依赖 Supabase 关闭公开注册，该设置只能向 Supabase 查询
+  const signupIssue = await checkSupabaseSignupDisabled()
+  const issues = signupIssue ? [...getConfigIssues(), signupIssue] : getConfigIssues()
+  issues.forEach(({ variable, severity, message }) => {
+    logger[severity === 'error' ? 'error' : 'warn']('Configuration problem', { variable, problem: message })
+  })
+
+  if (process.env.NODE_ENV === 'production' && issues.some(issue => issue.severity === 'error')) {
+    logger.error('Invalid configuration, refusing to start')
+    process.exit(1)
+  }
+}
@@ -0,0 +1,310 @@
+import type { User } from '@supabase/supabase-js'
+import { createSupabaseAdminClient } from './supabase-server'
+import { getUserRoles, type PolicySubject } from './policy'
+import { revokeAllUserSessions } from './user-sessions'
+import { createInvitation, revokeInvitation, type RegistrationInvitation } from './registration'
+import { recordAuditEvent } from './audit'
+import { logger } from './logger'
+import { getConfig } from './config'
+
+// 管理员角色，与访问策略中的 roles 规则读取同一个 app_metadata 字段
+export const ADMIN_ROLE = getConfig().adminRole
+
+// 禁用账户时使用的封禁时长（约 100 年）
+const DISABLED_BAN_DURATION = '876000h'
+// 用户列表每页数量上限
+const MAX_PAGE_SIZE = 100
+
+/**
+ * 管理后台中的用户
+ */
+export interface AdminUser {
+  id: string
+  email: string | null
+  created_at: string
+  last_sign_in_at: string | null
+  email_confirmed_at: string | null
+  banned_until: string | null
+  app_metadata: Record<string, unknown>
+  mfa_factors: number
+}
+
+/**
+ * 管理操作类型
+ */
+export type AdminAction =
+  | 'user.invite'
+  | 'user.disable'
+  | 'user.enable'
+  | 'user.delete'
+  | 'user.roles'
+  | 'user.mfa_reset'
+  | 'user.sessions_revoke'
+  | 'invitation.create'
+  | 'invitation.revoke'
+
+/**
+ * 执行管理操作的管理员
+ */
+export interface AdminActor {
+  id: string
+  email?: string
+}
+
+/**
+ * 判断用户是否为管理员
+ */
+export function isAdmin(subject: PolicySubject): boolean {
+  return getUserRoles(subject).includes(ADMIN_ROLE)
+}
+
+/**
+ * 判断账户是否已被禁用
+ * Admin API 返回的用户包含 banned_until，但 User 类型中没有声明
+ */
+export function isUserDisabled(user: User): boolean {
+  const { banned_until: bannedUntil } = user as User & { banned_until?: string | null }
+  return !!bannedUntil && new Date(bannedUntil).getTime() > Date.now()
+}
+
+/**
+ * 记录管理操作到审计日志
+ */
+function recordAdminAction(
+  actor: AdminActor,
+  action: AdminAction,
+  target: { id: string; email?: string | null } | null,
+  details: Record<string, unknown> = {}
+) {
+  logger.info('Admin action', { actor: actor.email, action, target: target?.email || target?.id })
+  recordAuditEvent({ type: `admin.${action}`, actor, user: target, details })
+}
+
+/**
+ * 获取单个用户
+ */
+async function getUser(userId: string): Promise<User> {
+  const supabase = createSupabaseAdminClient()
+  const { data, error } = await supabase.auth.admin.getUserById(userId)
+
+  if (error) {
+    throw error
+  }
+
+  return data.user
+}
+
+/**
+ * 分页列出或按邮箱、用户 ID 搜索用户
+ * @param query - 搜索关键字，为空时列出全部用户
+ * @param page - 页码，从 1 开始
+ * @param pageSize - 每页数量
+ * @returns 用户列表与总数
+ */
+export async function listUsers(query: string, page: number, pageSize: number) {
+  const limit = Math.min(Math.max(pageSize, 1), MAX_PAGE_SIZE)
+  const offset = (Math.max(page, 1) - 1) * limit
+
+  const supabase = createSupabaseAdminClient()
+  const { data, error } = await supabase.rpc('admin_list_users', {
+    // 转义 LIKE 通配符，关键字按字面匹配
+    p_query: query.replace(/[\\%_]/g, '\\$&'),
+    p_limit: limit,
+    p_offset: offset
+  })
+
+  if (error) {
+    throw error
+  }
+
+  const rows = (data || []) as (AdminUser & { total_count: number })[]
+  return {
+    users: rows.map(row => {
+      const user: AdminUser & { total_count?: number } = { ...row }
+      delete user.total_count
+      return user
+    }),
+    total: rows.length > 0 ? Number(rows[0].total_count) : 0
+  }
+}
+
+/**
+ * 邀请用户
+ * Supabase 会发送邀请邮件，用户设置密码后即可登录
+ * @param actor - 执行操作的管理员
+ * @param email - 被邀请的邮箱
+ * @returns 新建的用户
+ */
+export async function inviteUser(actor: AdminActor, email: string): Promise<User> {
+  const supabase = createSupabaseAdminClient()
+  const baseUrl = getConfig().appUrl
+  const { data, error } = await supabase.auth.admin.inviteUserByEmail(email, {
+    redirectTo: new URL('/login', baseUrl).toString()
+  })
+
+  if (error) {
+    throw error
+  }
+
+  recordAdminAction(actor, 'user.invite', data.user)
+  return data.user
+}
+
+/**
+ * 禁用或启用账户
+ * 禁用时同时吊销该用户的全部会话，使其立即从所有应用中退出
+ * @param actor - 执行操作的管理员
+ * @param userId - 目标用户 ID
+ * @param disabled - 是否禁用
+ */
+export async function setUserDisabled(actor: AdminActor, userId: string, disabled: boolean) {
+  const supabase = createSupabaseAdminClient()
+  const { data, error } = await supabase.auth.admin.updateUserById(userId, {
+    ban_duration: disabled ? DISABLED_BAN_DURATION : 'none'
+  })
+
+  if (error) {
+    throw error
+  }
+
+  let revokedSessions = 0
+  if (disabled) {
+    revokedSessions = await revokeAllUserSessions(userId)
+  }
+
+  recordAdminAction(actor, disabled ? 'user.disable' : 'user.enable', data.user, disabled ? { revokedSessions } : {})
+}
+
+/**
+ * 删除账户
+ * @param actor - 执行操作的管理员
+ * @param userId - 目标用户 ID
+ */
+export async function deleteUser(actor: AdminActor, userId: string) {
+  const user = await getUser(userId)
+
+  // 先吊销会话，删除后 auth.sessions 中的记录随用户一起消失，无法再标记吊销
+  await revokeAllUserSessions(userId)
+
+  const supabase = createSupabaseAdminClient()
+  const { error } = await supabase.auth.admin.deleteUser(userId)
+
+  if (error) {
+    throw error
+  }
+
+  recordAdminAction(actor, 'user.delete', user)
+}
+
+/**
+ * 设置用户角色
+ * 角色写入 app_metadata.roles，用户只能通过服务端修改；新的访问令牌才会包含新角色
+ * 移除了原有角色时吊销用户的全部会话，已签发的访问令牌不再保留旧权限
+ * @param actor - 执行操作的管理员
+ * @param userId - 目标用户 ID
+ * @param roles - 角色列表
+ * @returns 是否移除了原有角色
+ */
+export async function setUserRoles(actor: AdminActor, userId: string, roles: string[]): Promise<boolean> {
+  const user = await getUser(userId)
+  const previousRoles = getUserRoles(user)
+
+  // 旧版本的单个 role 字段一并清除，避免与 roles 不一致
+  const supabase = createSupabaseAdminClient()
+  const { error } = await supabase.auth.admin.updateUserById(userId, {
+    app_metadata: { roles, role: null }
+  })
+
+  if (error) {
+    throw error
+  }
+
+  const downgraded = previousRoles.some(role => !roles.includes(role))
+  let revokedSessions = 0
+  if (downgraded) {
+    revokedSessions = await revokeAllUserSessions(userId)
+  }
+
+  recordAdminAction(actor, 'user.roles', user, downgraded
+    ? { from: previousRoles, to: roles, revokedSessions }
+    : { from: previousRoles, to: roles })
+  return downgraded
+}
+
+/**
+ * 重置用户的多因素认证
+ * 删除用户的全部 MFA 因子，用户下次登录后可重新绑定
+ * @param actor - 执行操作的管理员
+ * @param userId - 目标用户 ID
+ * @returns 删除的因子数量
+ */
+export async function resetUserMfa(actor: AdminActor, userId: string): Promise<number> {
+  const user = await getUser(userId)
+
+  const supabase = createSupabaseAdminClient()
+  const { data, error } = await supabase.auth.admin.mfa.listFactors({ userId })
+
+  if (error) {
+    throw error
+  }
+
+  for (const factor of data.factors) {
+    const { error: deleteError } = await supabase.auth.admin.mfa.deleteFactor({ id: factor.id, userId })
+    if (deleteError) {
+      throw deleteError
+    }
+  }
+
+  recordAdminAction(actor, 'user.mfa_reset', user, { factors: data.factors.length })
+  return data.factors.length
+}
+
+/**
+ * 强制用户的全部会话过期
+ * @param actor - 执行操作的管理员
+ * @param userId - 目标用户 ID
+ * @returns 被吊销的会话数量
+ */
+export async function revokeUserSessions(actor: AdminActor, userId: string): Promise<number> {
+  const user = await getUser(userId)
+  const revoked = await revokeAllUserSessions(userId)
+
+  recordAdminAction(actor, 'user.sessions_revoke', user, { revokedSessions: revoked })
+  return revoked
+}
+
+/**
+ * 创建注册邀请
+ * @param actor - 执行操作的管理员
+ * @param email - 绑定的邮箱，为空时任何邮箱都可以使用
+ * @param expiresInDays - 有效天数
+ * @returns 邀请与邀请码
+ */
+export async function createRegistrationInvitation(actor: AdminActor, email: string | null, expiresInDays: number) {
+  const result = await createInvitation(actor, email, expiresInDays)
+
+  recordAdminAction(actor, 'invitation.create', null, {
+    invitationId: result.invitation.id,
+    email,
+    expiresAt: result.invitation.expires_at
+  })
+  return result
+}
+
+/**
+ * 撤销注册邀请
+ * @param actor - 执行操作的管理员
+ * @param invitationId - 邀请 ID
+ * @returns 被撤销的邀请，已使用或已撤销时返回 null
+ */
+export async function revokeRegistrationInvitation(
+  actor: AdminActor,
+  invitationId: string
+): Promise<RegistrationInvitation | null> {
+  const invitation = await revokeInvitation(invitationId)
+
+  if (invitation) {
+    recordAdminAction(actor, 'invitation.revoke', null, { invitationId, email: invitation.email })
+  }
+  return invitation
+}
@@ -0,0 +1,47 @@
+import { getConfig } from './config'
+
+/**
+ * 受信任的主机规则
+ * port 为 null 时只允许协议默认端口，为 * 时允许任意端口
+ */
+export interface HostRule {
+  matches: (hostname: string) => boolean
+  port: string | null
+}
+
+/**
+ * 解析 ALLOWED_DOMAINS 中的条目
+ * 支持 example.com、*.example.com，以及 example.com:8443、example.com:* 形式的端口
+ * 两种域名写法都匹配该域名本身及其子域名，必须在 . 处分隔，evilexample.com 不匹配 example.com
+ */
+export function parseAllowedDomain(entry: string): HostRule {
+  const [, domain, port] = /^(.+?)(?::(\d+|\*))?$/.exec(entry.trim().toLowerCase()) || [entry, entry]
+  const baseDomain = domain.startsWith('*.') ? domain.slice(2) : domain
+  return {
+    matches: hostname => hostname === baseDomain || hostname.endsWith(`.${baseDomain}`),
+    port: port || null
+  }
+}
+
+/**
+ * 判断端口是否符合规则
+ * URL 会省略协议默认端口，此时 url.port 为空字符串
+ */
+export function matchPort(rulePort: string | null, url: URL): boolean {
+  if (rulePort === '*') {
+    return true
+  }
+  if (rulePort === null) {
+    return url.port === ''
+  }
+  const defaultPort = url.protocol === 'https:' ? '443' : '80'
+  return (url.port || defaultPort) === rulePort
+}
+
+/**
+ * 获取 ALLOWED_DOMAINS 对应的主机规则
+ * 不读取文件，可以在 middleware 中使用
+ */
+export function getAllowedDomainRules(): HostRule[] {
+  return getConfig().allowedDomains.map(parseAllowedDomain)
+}
@@ -0,0 +1,184 @@
+import { randomInt } from 'crypto'
+import type { User } from '@supabase/supabase-js'
+import { createSupabaseAdminClient } from './supabase-server'
+import { isUserDisabled } from './admin'
+import { findUserById } from './identity-backend'
+import { hashToken } from './tokens'
+import { logger } from './logger'
+
+// last_used_at 更新间隔（毫秒），避免每个请求都写数据库
+const LAST_USED_UPDATE_INTERVAL = 60 * 1000
+// 应用密码字符集，去掉了容易混淆的字符
+const PASSWORD_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789'
+// 应用密码分组数与每组长度，共约 118 位熵
+const PASSWORD_GROUPS = 4
+const PASSWORD_GROUP_LENGTH = 6
+
+const TABLE = 'app_passwords'
+
+/**
+ * 应用密码记录（不含密码本身）
+ */
+export interface AppPassword {
+  id: string
+  name: string
+  created_at: string
+  last_used_at: string | null
+  revoked_at: string | null
+}
+
+interface AppPasswordRow extends AppPassword {
+  user_id: string
+}
+
+/**
+ * 校验通过的应用密码
+ */
+export interface VerifiedAppPassword {
+  appPassword: AppPassword
+  user: User
+}
+
+// 列表返回的字段
+const PUBLIC_COLUMNS = 'id, name, created_at, last_used_at, revoked_at'
+
+/**
+ * 生成易于输入的随机应用密码，形如 abcdef-ghjkmn-pqrstu-vwxyz2
+ */
+function generateAppPassword(): string {
+  return Array.from({ length: PASSWORD_GROUPS }, () =>
+    Array.from({ length: PASSWORD_GROUP_LENGTH }, () =>
+      PASSWORD_ALPHABET[randomInt(PASSWORD_ALPHABET.length)]
+    ).join('')
+  ).join('-')
+}
+
+/**
+ * 列出用户的应用密码
+ * @param userId - 用户 ID
+ * @returns 应用密码列表，按创建时间倒序
+ */
+export async function listAppPasswords(userId: string): Promise<AppPassword[]> {
+  const supabase = createSupabaseAdminClient()
+  const { data, error } = await supabase
+    .from(TABLE)
+    .select(PUBLIC_COLUMNS)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    throw error
+  }
+
+  return (data || []) as AppPassword[]
+}
+
+/**
+ * 创建应用密码
+ * 密码明文只在创建时返回一次，数据库中只保存哈希
+ * @param userId - 用户 ID
+ * @param name - 密码用途名称
+ * @returns 密码明文与记录
+ */
+export async function createAppPassword(userId: string, name: string) {
+  const password = generateAppPassword()
+
+  const supabase = createSupabaseAdminClient()
+  const { data, error } = await supabase
+    .from(TABLE)
+    .insert({
+      user_id: userId,
+      name,
+      password_hash: hashToken(password)
+    })
+    .select(PUBLIC_COLUMNS)
+    .single()
+
+  if (error) {
+    throw error
+  }
+
+  return { password, record: data as AppPassword }
+}
+
+/**
+ * 吊销应用密码
+ * @param userId - 用户 ID，只能吊销自己的应用密码
+ * @param passwordId - 应用密码 ID
+ * @returns 是否吊销成功
+ */
+export async function revokeAppPassword(userId: string, passwordId: string): Promise<boolean> {
+  const supabase = createSupabaseAdminClient()
+  const { data, error } = await supabase
+    .from(TABLE)
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', passwordId)
+    .eq('user_id', userId)
+    .is('revoked_at', null)
+    .select('id')
+    .maybeSingle()
+
+  if (error) {
+    throw error
+  }
+
+  return !!data
+}
+
+/**
+ * 校验 Basic 凭据中的用户名与应用密码
+ * 用户名为账户邮箱；校验通过时异步更新 last_used_at
+ * @param username - 用户名（邮箱）
+ * @param password - 应用密码
+ * @returns 应用密码记录与所属用户，凭据无效时返回 null
+ */
+export async function verifyAppPassword(username: string, password: string): Promise<VerifiedAppPassword | null> {
+  const supabase = createSupabaseAdminClient()
+  const { data, error } = await supabase
+    .from(TABLE)
+    .select(`${PUBLIC_COLUMNS}, user_id`)
+    .eq('password_hash', hashToken(password))
+    .maybeSingle()
+
+  if (error) {
+    throw error
+  }
+
+  const row = data as AppPasswordRow | null
+  if (!row || row.revoked_at) {
+    return null
+  }
+
+  const user = await findUserById(row.user_id)
+  if (!user || user.email?.toLowerCase() !== username.toLowerCase()) {
+    return null
+  }
+
+  // 已禁用的账户不能再使用凭据访问应用
+  if (isUserDisabled(user)) {
+    return null
+  }
+
+  if (!row.last_used_at || Date.now() - new Date(row.last_used_at).getTime() > LAST_USED_UPDATE_INTERVAL) {
+    supabase
+      .from(TABLE)
+      .update({ last_used_at: new Date().toISOString() })
+      .eq('id', row.id)
+      .then(({ error }) => {
+        if (error) {
+          logger.error('App password last_used_at update error', { error })
+        }
+      })
+  }
+
+  return {
+    appPassword: {
+      id: row.id,
+      name: row.name,
+      created_at: row.created_at,
+      last_used_at: row.last_used_at,
+      revoked_at: row.revoked_at
+    },
+    user
+  }
+}
@@ -0,0 +1,101 @@
+import { createConfigFileLoader } from './config-file'
+import type { HostRule, PathRule, SubjectRule } from './policy'
+
+/**
+ * 已注册的应用
+ * url 为仪表板中的入口地址，icon 为图标地址，未配置 url 的应用不在仪表板中显示
+ * hosts 为应用使用的主机模式（支持 *.domain.com），用于 ForwardAuth 访问控制与重定向校验
+ * allow / paths / basicAuth / mfa / providers 与访问策略中的主机规则含义相同
+ * frontchannelLogoutUri 在登出结果页中以隐藏 iframe 加载，携带应用自身的 Cookie
+ * backchannelLogoutUri 由本服务以服务端 POST 发送签名的 logout_token
+ */
+export interface Application {
+  id: string
+  name: string
+  description?: string
+  url?: string
+  icon?: string
+  hosts?: string[]
+  allow?: SubjectRule
+  paths?: PathRule[]
+  basicAuth?: boolean
+  mfa?: boolean
+  providers?: string[]
+  frontchannelLogoutUri?: string
+  backchannelLogoutUri?: string
+}
+
+/**
+ * 判断是否为 http(s) 地址
+ */
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value)
+    return url.protocol === 'https:' || url.protocol === 'http:'
+  } catch {
+    return false
+  }
+}
+
+/**
+ * 加载应用注册文件，文件修改后自动重新加载
+ * 文件不存在时 value 为 null；首次加载失败时 error 为 true
+ */
+export const loadApplications = createConfigFileLoader<Application[]>({
+  name: 'Applications',
+  envVar: 'APPLICATIONS_FILE',
+  defaultPath: 'config/applications.json',
+  parse: data => {
+    const { applications = [] } = data as { applications?: Application[] }
+    const ids = new Set<string>()
+    applications.forEach(app => {
+      if (!app.id || !app.name || ids.has(app.id)) {
+        throw new Error(`Invalid application: ${app.id || '(missing id)'}`)
+      }
+      ids.add(app.id)
+      if (app.hosts !== undefined && !Array.isArray(app.hosts)) {
+        throw new Error(`Invalid hosts for application ${app.id}`)
+      }
+      const uris = [app.url, app.frontchannelLogoutUri, app.backchannelLogoutUri]
+      uris.forEach(uri => {
+        if (uri !== undefined && !isHttpUrl(uri)) {
+          throw new Error(`Invalid URI for application ${app.id}: ${uri}`)
+        }
+      })
+    })
+    return applications
+  }
+})
+
+/**
+ * 获取全部已注册的应用
+ * 未配置注册文件时返回空列表
+ */
+export async function getApplications(): Promise<Application[]> {
+  const { value } = await loadApplications()
+  return value || []
+}
+
+/**
+ * 获取配置了登出地址的应用
+ */
+export async function getLogoutApplications(): Promise<Application[]> {
+  const applications = await getApplications()
+  return applications.filter(app => app.frontchannelLogoutUri || app.backchannelLogoutUri)
+}
+
+/**
+ * 将应用转换为访问策略中的主机规则
+ * @param applications - 已注册的应用
+ * @returns 每个应用主机对应一条规则
+ */
+export function getApplicationHostRules(applications: Application[]): HostRule[] {
+  return applications.flatMap(app => (app.hosts || []).map(host => ({
+    host,
+    allow: app.allow,
+    paths: app.paths,
+    basicAuth: app.basicAuth,
+    mfa: app.mfa,
+    providers: app.providers
+  })))
+}
@@ -0,0 +1,360 @@
+import { createReadStream, promises as fs } from 'fs'
+import path from 'path'
+import { createInterface } from 'readline'
+import type { NextRequest } from 'next/server'
+import { createSupabaseAdminClient } from './supabase-server'
+import { getClientIp } from './proxy'
+import type { AdminAction } from './admin'
+import { logger } from './logger'
+import { getConfig } from './config'
+
+// 审计事件批量写入间隔（毫秒）与单批数量上限
+const FLUSH_INTERVAL = 1000
+const FLUSH_BATCH_SIZE = 100
+// 写入失败时内存中最多保留的事件数，超过后丢弃最早的事件
+const MAX_PENDING_EVENTS = 10000
+
+const TABLE = 'audit_events'
+
+/**
+ * 审计事件类型
+ */
+export type AuditEventType =
+  | 'login.success'
+  | 'login.failure'
+  | 'login.otp_send'
+  | 'oauth.callback_error'
+  | 'logout'
+  | 'session.refresh'
+  | 'session.refresh_failure'
+  | 'forward_auth.allow'
+  | 'forward_auth.deny'
+  | 'mfa.verify'
+  | 'mfa.verify_failure'
+  | 'mfa.unenroll'
+  | 'mfa.recovery_codes_generate'
+  | 'mfa.recovery_code_use'
+  | 'password.reset_request'
+  | 'password.recovery'
+  | 'password.reset'
+  | 'password.change'
+  | 'password.change_failure'
+  | 'signup.success'
+  | 'signup.denied'
+  | `admin.${AdminAction}`
+  | 'admin.audit_export'
+
+/**
+ * 审计事件
+ * user 为事件涉及的用户，actor 为执行操作的管理员（仅管理操作）
+ */
+export interface AuditEvent {
+  occurred_at: string
+  type: AuditEventType
+  user_id: string | null
+  email: string | null
+  actor_id: string | null
+  actor_email: string | null
+  host: string | null
+  path: string | null
+  method: string | null
+  ip: string | null
+  user_agent: string | null
+  details: Record<string, unknown>
+}
+
+/**
+ * 记录审计事件时传入的信息
+ * 传入 request 时自动记录客户端 IP 与 User-Agent
+ */
+export interface AuditEventInput {
+  type: AuditEventType
+  user?: { id?: string | null; email?: string | null } | null
+  actor?: { id: string; email?: string | null } | null
+  host?: string | null
+  path?: string | null
+  method?: string | null
+  request?: NextRequest
+  details?: Record<string, unknown>
+}
+
+/**
+ * 审计事件查询条件
+ * user 为用户 ID（精确匹配）或邮箱（包含匹配），from / to 为 ISO 时间
+ */
+export interface AuditQuery {
+  user?: string
+  host?: string
+  type?: string
+  from?: string
+  to?: string
+  limit: number
+  offset: number
+}
+
+/**
+ * 审计事件存储
+ * 写入由本模块批量调用；查询结果按发生时间倒序
+ */
+export interface AuditSink {
+  name: string
+  write(events: AuditEvent[]): Promise<void>
+  query(query: AuditQuery): Promise<{ events: AuditEvent[]; total: number }>
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * 写入 Supabase audit_events 表
+ */
+function createSupabaseSink(): AuditSink {
+  return {
+    name: 'supabase',
+
+    async write(events) {
+      const supabase = createSupabaseAdminClient()
+      const { error } = await supabase.from(TABLE).insert(events)
+      if (error) {
+        throw error
+      }
+    },
+
+    async query({ user, host, type, from, to, limit, offset }) {
+      const supabase = createSupabaseAdminClient()
+      let request = supabase
+        .from(TABLE)
+        .select('occurred_at, type, user_id, email, actor_id, actor_email, host, path, method, ip, user_agent, details', { count: 'exact' })
+
+      if (user) {
+        request = UUID_PATTERN.test(user)
+          ? request.eq('user_id', user)
+          : request.ilike('email', `%${user.replace(/[\\%_]/g, '\\$&')}%`)
+      }
+      if (host) {
+        request = request.eq('host', host)
+      }
+      if (type) {
+        request = request.eq('type', type)
+      }
+      if (from) {
+        request = request.gte('occurred_at', from)
+      }
+      if (to) {
+        request = request.lte('occurred_at', to)
+      }
+
+      const { data, error, count } = await request
+        .order('occurred_at', { ascending: false })
+        .range(offset, offset + limit - 1)
+
+      if (error) {
+        throw error
+      }
+
+      return { events: (data || []) as AuditEvent[], total: count || 0 }
+    }
+  }
+}
+
+/**
+ * 判断事件是否满足查询条件（文件存储使用）
+ */
+function matchQuery(event: AuditEvent, { user, host, type, from, to }: AuditQuery): boolean {
+  if (user) {
+    const matched = UUID_PATTERN.test(user)
+      ? event.user_id === user
+      : !!event.email?.toLowerCase().includes(user.toLowerCase())
+    if (!matched) {
+      return false
+    }
+  }
+  if (host && event.host !== host) {
+    return false
+  }
+  if (type && event.type !== type) {
+    return false
+  }
+  const time = new Date(event.occurred_at).getTime()
+  if (from && time < new Date(from).getTime()) {
+    return false
+  }
+  if (to && time > new Date(to).getTime()) {
+    return false
+  }
+  return true
+}
+
+/**
+ * 追加写入本地 JSONL 文件，每行一个事件
+ * 查询时逐行扫描整个文件，适合事件量不大的部署
+ */
+function createFileSink(file: string): AuditSink {
+  return {
+    name: 'file',
+
+    async write(events) {
+      await fs.mkdir(path.dirname(file), { recursive: true })
+      await fs.appendFile(file, events.map(event => `${JSON.stringify(event)}\n`).join(''), 'utf8')
+    },
+
+    async query(query) {
+      const matched: AuditEvent[] = []
+
+      try {
+        await fs.access(file)
+      } catch {
+        return { events: [], total: 0 }
+      }
+
+      const lines = createInterface({ input: createReadStream(file, 'utf8'), crlfDelay: Infinity })
+      for await (const line of lines) {
+        if (!line.trim()) {
+          continue
+        }
+        try {
+          const event = JSON.parse(line) as AuditEvent
+          if (matchQuery(event, query)) {
+            matched.push(event)
+          }
+        } catch {
+          // 忽略写入中断等原因造成的损坏行
+        }
+      }
+
+      // 文件按写入顺序保存，倒序后即为最新的事件在前
+      matched.reverse()
+      return {
+        events: matched.slice(query.offset, query.offset + query.limit),
+        total: matched.length
+      }
+    }
+  }
+}
+
+let sink: AuditSink | null | undefined
+
+/**
+ * 获取配置的审计事件存储
+ * AUDIT_SINK 为 supabase（默认）、file 或 none
+ * @returns 审计事件存储，none 时返回 null
+ */
+export function getAuditSink(): AuditSink | null {
+  if (sink === undefined) {
+    const { sink: type, logFile } = getConfig().audit
+    if (type === 'file') {
+      sink = createFileSink(path.resolve(process.cwd(), logFile))
+    } else if (type === 'none') {
+      sink = null
+    } else {
+      sink = createSupabaseSink()
+    }
+  }
+  return sink
+}
+
+// 不记录的事件类型，例如高频的 forward_auth.allow
+const ignoredTypes = new Set(getConfig().audit.ignoreEvents)
+
+let pendingEvents: AuditEvent[] = []
+let flushTimer: ReturnType<typeof setTimeout> | null = null
+let flushing = false
+
+/**
+ * 批量写入待写入的审计事件
+ * 写入失败的事件放回队列，下次继续尝试
+ */
+async function flushAuditEvents() {
+  flushTimer = null
+  const target = getAuditSink()
+  if (flushing || !target || pendingEvents.length === 0) {
+    return
+  }
+
+  flushing = true
+  const batch = pendingEvents.slice(0, FLUSH_BATCH_SIZE)
+  pendingEvents = pendingEvents.slice(batch.length)
+
+  try {
+    await target.write(batch)
+  } catch (error) {
+    logger.error('Audit sink write error', { sink: target.name, error })
+    pendingEvents = batch.concat(pendingEvents).slice(-MAX_PENDING_EVENTS)
+  } finally {
+    flushing = false
+  }
+
+  if (pendingEvents.length > 0 && !flushTimer) {
+    flushTimer = setTimeout(flushAuditEvents, FLUSH_INTERVAL)
+  }
+}
+
+/**
+ * 记录审计事件
+ * 事件进入内存队列后批量写入，不阻塞当前请求
+ * @param input - 事件信息
+ */
+export function recordAuditEvent(input: AuditEventInput) {
+  if (ignoredTypes.has(input.type) || !getAuditSink()) {
+    return
+  }
+
+  pendingEvents.push({
+    occurred_at: new Date().toISOString(),
+    type: input.type,
+    user_id: input.user?.id || null,
+    email: input.user?.email || null,
+    actor_id: input.actor?.id || null,
+    actor_email: input.actor?.email || null,
+    host: input.host || null,
+    path: input.path || null,
+    method: input.method || null,
+    ip: input.request ? getClientIp(input.request) : null,
+    user_agent: input.request?.headers.get('user-agent') || null,
+    details: input.details || {}
+  })
+
+  if (pendingEvents.length > MAX_PENDING_EVENTS) {
+    pendingEvents = pendingEvents.slice(-MAX_PENDING_EVENTS)
+  }
+
+  if (pendingEvents.length >= FLUSH_BATCH_SIZE) {
+    flushAuditEvents()
+  } else if (!flushTimer) {
+    flushTimer = setTimeout(flushAuditEvents, FLUSH_INTERVAL)
+  }
+}
+
+/**
+ * 查询审计事件
+ * @param query - 查询条件
+ * @returns 按发生时间倒序的事件与满足条件的总数
+ */
+export async function queryAuditEvents(query: AuditQuery) {
+  const target = getAuditSink()
+  if (!target) {
+    return { events: [], total: 0 }
+  }
+  return target.query(query)
+}
+
+/**
+ * 从查询参数中读取审计事件筛选条件
+ * 支持 user、host、type、from、to，时间参数无法解析时忽略
+ * @param searchParams - 请求查询参数
+ * @returns 不含分页的筛选条件
+ */
+export function parseAuditFilter(searchParams: URLSearchParams): Omit<AuditQuery, 'limit' | 'offset'> {
+  const read = (name: string) => searchParams.get(name)?.trim() || undefined
+  const readTime = (name: string) => {
+    const value = read(name)
+    return value && !Number.isNaN(new Date(value).getTime()) ? new Date(value).toISOString() : undefined
+  }
+
+  return {
+    user: read('user'),
+    host: read('host')?.toLowerCase(),
+    type: read('type'),
+    from: readTime('from'),
+    to: readTime('to')
+  }
+}
@@ -0,0 +1,96 @@
+import type { User } from '@supabase/supabase-js'
+import { createConfigFileLoader } from './config-file'
+
+/**
+ * 第三方登录提供商
+ * provider 为 Supabase 中的提供商名称，如 google、github、azure、gitlab，
+ * 通用 OIDC 身份提供方通过 Supabase 的 keycloak 提供商接入
+ * emailDomains 不为空时只允许这些邮箱域的用户使用该提供商登录
+ */
+export interface AuthProvider {
+  provider: string
+  label: string
+  icon?: string
+  scopes?: string[]
+  queryParams?: Record<string, string>
+  emailDomains?: string[]
+}
+
+// 未配置提供商文件时保持原有的 Google 登录
+const DEFAULT_PROVIDERS: AuthProvider[] = [
+  { provider: 'google', label: '使用 Google 继续' }
+]
+
+/**
+ * 加载第三方登录提供商配置，文件修改后自动重新加载
+ * 文件不存在时 value 为 null；首次加载失败时 error 为 true
+ */
+export const loadAuthProviders = createConfigFileLoader<AuthProvider[]>({
+  name: 'Auth providers',
+  envVar: 'AUTH_PROVIDERS_FILE',
+  defaultPath: 'config/auth-providers.json',
+  parse: data => {
+    const { providers = [] } = data as { providers?: AuthProvider[] }
+    const names = new Set<string>()
+    providers.forEach(entry => {
+      if (!entry.provider || !entry.label || names.has(entry.provider) || entry.provider === 'email') {
+        throw new Error(`Invalid auth provider: ${entry.provider || '(missing provider)'}`)
+      }
+      names.add(entry.provider)
+      if (entry.scopes !== undefined && !Array.isArray(entry.scopes)) {
+        throw new Error(`Invalid scopes for auth provider ${entry.provider}`)
+      }
+      if (entry.emailDomains !== undefined && !Array.isArray(entry.emailDomains)) {
+        throw new Error(`Invalid emailDomains for auth provider ${entry.provider}`)
+      }
+    })
+    return providers
+  }
+})
+
+/**
+ * 获取已配置的第三方登录提供商
+ * 未配置文件时返回默认的 Google；文件首次加载失败时不启用任何提供商
+ */
+export async function getAuthProviders(): Promise<AuthProvider[]> {
+  const { value, error } = await loadAuthProviders()
+  if (error) {
+    return []
+  }
+  return value || DEFAULT_PROVIDERS
+}
+
+/**
+ * 获取本次登录使用的提供商
+ * app_metadata.provider 只记录首次注册时的提供商，因此取最近登录的身份
+ * @param user - 登录返回的用户
+ * @returns Supabase 提供商名称，邮箱密码登录为 email
+ */
+export function getSignInProvider(user: User): string {
+  const identities = [...(user.identities || [])].sort((a, b) =>
+    new Date(b.last_sign_in_at || 0).getTime() - new Date(a.last_sign_in_at || 0).getTime()
+  )
+  return identities[0]?.provider || user.app_metadata?.provider || 'email'
+}
+
+/**
+ * 判断用户能否使用该提供商登录
+ * 提供商必须已配置，且用户邮箱属于该提供商允许的邮箱域
+ * @param provider - Supabase 提供商名称
+ * @param email - 用户邮箱
+ * @returns 是否允许
+ */
+export async function isProviderAllowed(provider: string, email: string | undefined): Promise<boolean> {
+  const entry = (await getAuthProviders()).find(item => item.provider === provider)
+  if (!entry) {
+    return false
+  }
+
+  const domains = entry.emailDomains || []
+  if (domains.length === 0) {
+    return true
+  }
+
+  const domain = email?.toLowerCase().split('@')[1] || ''
+  return domains.some(item => item.toLowerCase() === domain)
+}
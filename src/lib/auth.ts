@@ -1,143 +1,525 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createSupabaseServerClient, createSupabaseAdminClient } from './supabase-server'
-import Cookies from 'js-cookie'
+import type { AMREntry, Session, User, UserAppMetadata, UserMetadata } from '@supabase/supabase-js'
+import { createCookieChunks, combineCookieChunks, isChunkOf } from './cookie-chunks'
+import { getBackendForToken, type IdentityBackend } from './identity-backend'
+import { evaluateAccess, isBasicAuthEnabled, matchHost, type AccessTarget, type AccessDecision } from './policy'
+import { isPersonalAccessToken, verifyPersonalAccessToken } from './personal-access-tokens'
+import { verifyAppPassword } from './app-passwords'
+import { isSessionRevoked, recordSessionActivity, getSessionId, getSessionProvider } from './user-sessions'
+import { hashToken } from './tokens'
+import { logger, requestLogger, type Logger } from './logger'
+import { resolveRedirect } from './redirect'
+import { getConfig } from './config'
+
+/**
+ * 从访问令牌声明中得到的用户信息
+ */
+export interface SessionUser {
+  id: string
+  email?: string
+  phone?: string
+  role?: string
+  aal?: string
+  session_id?: string
+  amr?: AMREntry[]
+  // 会话的登录方式，来自会话活动记录而不是令牌声明
+  provider?: string | null
+  app_metadata: UserAppMetadata
+  user_metadata: UserMetadata
+}
+
+/**
+ * 认证 Cookie 中保存的会话信息
+ */
+export interface AuthCookieSession {
+  access_token: string
+  refresh_token: string
+  expires_in?: number
+  expires_at?: number
+  token_type?: string
+  user?: unknown
+}
+
+/**
+ * 会话的认证方式
+ */
+export type AuthMethod = 'cookie' | 'personal_access_token' | 'app_password'
+
+interface CachedSession {
+  user: SessionUser
+  session: AuthCookieSession | null
+  method: AuthMethod
+  // 签发认证 Cookie 中会话的身份后端，令牌与应用密码为 null
+  backend: IdentityBackend | null
+  // 令牌限定的可访问主机，为空表示不限制
+  hosts: string[]
+  // 个人访问令牌或应用密码的 ID，吊销时据此移除缓存
+  credentialId: string | null
+  expiresAt: number
+}
+
+// 会话校验结果缓存有效期（毫秒），可通过 SESSION_CACHE_TTL 秒数配置
+const SESSION_CACHE_TTL = getConfig().sessionCacheTtl * 1000
+// 会话缓存最大条目数
+const SESSION_CACHE_MAX_ENTRIES = 10000
+
+// 认证 Cookie 有效期（秒），与 @supabase/ssr 默认值一致
+// Cookie 需要比访问令牌活得更久，过期后才能用其中的刷新令牌换取新会话
+const AUTH_COOKIE_MAX_AGE = 400 * 24 * 60 * 60
+// 同一刷新令牌的刷新结果保留时间（毫秒），避免并发子请求重复刷新
+const REFRESH_RESULT_TTL = 10 * 1000
+
+// 以令牌哈希为键的会话校验结果缓存
+const sessionCache = new Map<string, CachedSession>()
+// 以刷新令牌哈希为键的进行中/最近完成的刷新
+const pendingRefreshes = new Map<string, Promise<Session | null>>()
+
+/**
+ * 获取 Supabase 认证 Cookie 名称
+ */
+export function getAuthCookieName(): string {
+  const supabaseUrl = getConfig().supabase.url
+  const projectRef = new URL(supabaseUrl).hostname.split('.')[0]
+  return `sb-${projectRef}-auth-token`
+}
+
+/**
+ * 读取认证 Cookie 中的会话信息
+ * 兼容 setAuthCookie 写入的 JSON 格式、@supabase/ssr 写入的 base64- 前缀格式以及分片 Cookie
+ * @param request - Next.js 请求对象
+ * @returns 会话信息或 null
+ */
+export function readAuthCookie(request: NextRequest): AuthCookieSession | null {
+  const value = combineCookieChunks(getAuthCookieName(), request.cookies.getAll())
+  if (!value) {
+    return null
+  }
+
+  try {
+    const json = value.startsWith('base64-')
+      ? Buffer.from(value.slice('base64-'.length), 'base64url').toString('utf8')
+      : value
+    const session = JSON.parse(json) as AuthCookieSession
+    return session && typeof session.access_token === 'string' ? session : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * 读取会话缓存，过期条目会被移除
+ */
+function getCachedSession(key: string): CachedSession | null {
+  const cached = sessionCache.get(key)
+  if (!cached) {
+    return null
+  }
+  if (cached.expiresAt <= Date.now()) {
+    sessionCache.delete(key)
+    return null
+  }
+  return cached
+}
+
+/**
+ * 从会话缓存中移除令牌，令牌被吊销时调用
+ * @param tokenHash - 令牌哈希
+ */
+export function evictCachedSession(tokenHash: string) {
+  sessionCache.delete(tokenHash)
+}
+
+/**
+ * 从会话缓存中移除某个个人访问令牌或应用密码的校验结果
+ * 应用密码的缓存键包含明文密码，吊销时只能按 ID 查找
+ * @param credentialId - 个人访问令牌或应用密码的 ID
+ */
+export function evictCachedCredential(credentialId: string) {
+  sessionCache.forEach((cached, key) => {
+    if (cached.credentialId === credentialId) {
+      sessionCache.delete(key)
+    }
+  })
+}
+
+/**
+ * 从会话缓存中移除某个用户的全部校验结果，包括个人访问令牌与应用密码
+ * 账户被禁用、删除或会话被强制过期时调用
+ * @param userId - 用户 ID
+ */
+export function evictCachedUserSessions(userId: string) {
+  sessionCache.forEach((cached, key) => {
+    if (cached.user.id === userId) {
+      sessionCache.delete(key)
+    }
+  })
+}
+
+/**
+ * 写入会话缓存，超过容量时淘汰最早写入的条目
+ */
+function setCachedSession(key: string, value: CachedSession) {
+  if (sessionCache.size >= SESSION_CACHE_MAX_ENTRIES) {
+    const oldestKey = sessionCache.keys().next().value
+    if (oldestKey !== undefined) {
+      sessionCache.delete(oldestKey)
+    }
+  }
+  sessionCache.set(key, value)
+}
+
+/**
+ * 读取 Authorization: Bearer 令牌
+ */
+export function getBearerToken(request: NextRequest): string | null {
+  const authorization = request.headers.get('authorization')
+  if (!authorization || !/^bearer\s/i.test(authorization)) {
+    return null
+  }
+  return authorization.slice(authorization.indexOf(' ') + 1).trim() || null
+}
+
+/**
+ * 校验认证 Cookie 中的访问令牌
+ * 由签发该令牌的身份后端校验
+ */
+async function resolveCookieSession(session: AuthCookieSession): Promise<CachedSession | null> {
+  const backend = getBackendForToken(session.access_token)
+  const claims = await backend.getSession(session.access_token)
+  if (!claims) {
+    return null
+  }
+  
+  const user: SessionUser = {
+    id: claims.sub!,
+    email: claims.email as string | undefined,
+    phone: claims.phone as string | undefined,
+    role: claims.role as string | undefined,
+    aal: claims.aal as string | undefined,
+    session_id: claims.session_id as string | undefined,
+    amr: claims.amr as AMREntry[] | undefined,
+    app_metadata: (claims.app_metadata || {}) as UserAppMetadata,
+    user_metadata: (claims.user_metadata || {}) as UserMetadata
+  }
+  
+  // 缓存时间不超过令牌本身的过期时间
+  const expiresAt = Math.min(Date.now() + SESSION_CACHE_TTL, claims.exp! * 1000)
+  return { user, session, method: 'cookie', backend, hosts: [], credentialId: null, expiresAt }
+}
+
+/**
+ * 读取 Authorization: Basic 凭据
+ */
+export function getBasicCredentials(request: NextRequest): { username: string; password: string } | null {
+  const authorization = request.headers.get('authorization')
+  if (!authorization || !/^basic\s/i.test(authorization)) {
+    return null
+  }
+  
+  const decoded = Buffer.from(authorization.slice(authorization.indexOf(' ') + 1).trim(), 'base64').toString('utf8')
+  const separator = decoded.indexOf(':')
+  if (separator <= 0) {
+    return null
+  }
+  
+  return { username: decoded.slice(0, separator), password: decoded.slice(separator + 1) }
+}
+
+/**
+ * 将 Supabase 用户转换为会话用户
+ */
+function toSessionUser(user: User): SessionUser {
+  return {
+    id: user.id,
+    email: user.email,
+    phone: user.phone,
+    role: user.role,
+    app_metadata: user.app_metadata,
+    user_metadata: user.user_metadata
+  }
+}
+
+/**
+ * 校验个人访问令牌
+ */
+async function resolvePersonalAccessToken(token: string): Promise<CachedSession | null> {
+  const verified = await verifyPersonalAccessToken(token)
+  if (!verified) {
+    return null
+  }
+  
+  const { user, token: record } = verified
+  const expiresAt = record.expires_at
+    ? Math.min(Date.now() + SESSION_CACHE_TTL, new Date(record.expires_at).getTime())
+    : Date.now() + SESSION_CACHE_TTL
+  
+  return {
+    user: toSessionUser(user),
+    session: null,
+    method: 'personal_access_token',
+    backend: null,
+    hosts: record.hosts,
+    credentialId: record.id,
+    expiresAt
+  }
+}
+
+/**
+ * 校验应用密码
+ */
+async function resolveAppPassword(username: string, password: string): Promise<CachedSession | null> {
+  const verified = await verifyAppPassword(username, password)
+  if (!verified) {
+    return null
+  }
+  
+  return {
+    user: toSessionUser(verified.user),
+    session: null,
+    method: 'app_password',
+    backend: null,
+    hosts: [],
+    credentialId: verified.appPassword.id,
+    expiresAt: Date.now() + SESSION_CACHE_TTL
+  }
+}
 
 /**
  * 验证用户会话
+ * 支持认证 Cookie 中的 Supabase 访问令牌、Authorization: Bearer 个人访问令牌
+ * 以及启用了 Basic 认证的主机上的应用密码，校验结果按令牌哈希短暂缓存
+ * 传入访问目标时同时根据令牌的主机范围与访问策略判断用户能否访问该目标
  * @param request - Next.js 请求对象
- * @returns 用户信息或 null
+ * @param target - 访问目标（主机与路径），可选
+ * @returns 用户信息与访问判断结果，未登录时返回 null
  */
-export async function validateSession(request: NextRequest) {
+export async function validateSession(request: NextRequest, target?: AccessTarget) {
   try {
-    const supabase = await createSupabaseServerClient()
-    const { data: { session }, error } = await supabase.auth.getSession()
+    // 其他类型的 Bearer 令牌属于后端应用自身，忽略后继续使用 Cookie
+    const bearerToken = getBearerToken(request)
+    const personalAccessToken = bearerToken && isPersonalAccessToken(bearerToken) ? bearerToken : null
+    // Basic 凭据只在目标主机启用了 Basic 认证时使用
+    const basicCredentials = !personalAccessToken && target && await isBasicAuthEnabled(target.host)
+      ? getBasicCredentials(request)
+      : null
+    const cookieSession = personalAccessToken || basicCredentials ? null : readAuthCookie(request)
     
-    if (error || !session) {
+    let cacheKey: string
+    let resolve: () => Promise<CachedSession | null>
+    if (personalAccessToken) {
+      cacheKey = hashToken(personalAccessToken)
+      resolve = () => resolvePersonalAccessToken(personalAccessToken)
+    } else if (basicCredentials) {
+      cacheKey = hashToken(`basic:${basicCredentials.username}:${basicCredentials.password}`)
+      resolve = () => resolveAppPassword(basicCredentials.username, basicCredentials.password)
+    } else if (cookieSession) {
+      cacheKey = hashToken(cookieSession.access_token)
+      resolve = () => resolveCookieSession(cookieSession)
+    } else {
       return null
     }
     
+    let cached = getCachedSession(cacheKey)
+    
+    if (!cached) {
+      cached = await resolve()
+      if (!cached) {
+        return null
+      }
+      setCachedSession(cacheKey, cached)
+    }
+    
+    // 已吊销的会话立即失效，不等待访问令牌过期
+    // 不使用 Supabase 会话表的身份后端自行处理登出，登录方式即为后端本身
+    // LDAP 的登出记录只在本实例生效，其他实例依靠较短的访问令牌有效期
+    let user = cached.user
+    const sessionId = cached.user.session_id
+    if (cached.backend && !cached.backend.tracksSessions) {
+      user = { ...cached.user, provider: cached.backend.id }
+    } else if (cached.method === 'cookie' && sessionId) {
+      if (await isSessionRevoked(sessionId)) {
+        return null
+      }
+      recordSessionActivity(sessionId, cached.user.id, request)
+      user = { ...cached.user, provider: await getSessionProvider(sessionId) }
+    }
+    
+    let access: AccessDecision | null = null
+    if (target) {
+      const inScope = cached.hosts.length === 0 ||
+        cached.hosts.some(host => matchHost(host, target.host))
+      access = inScope
+        ? await evaluateAccess(user, target)
+        : { allowed: false, reason: 'token_scope_mismatch', host: target.host, path: target.path }
+    }
+    
     return {
-      user: session.user,
-      session: session
+      user,
+      session: cached.session,
+      method: cached.method,
+      access
     }
   } catch (error) {
-    console.error('Session validation error:', error)
+    requestLogger(request).error('Session validation error', { error })
     return null
   }
 }
 
 /**
  * 设置认证 Cookie
+ * 值超过单个 Cookie 的长度限制时按 @supabase/ssr 的格式拆分为多个分片
  * @param response - Next.js 响应对象
  * @param session - Supabase 会话对象
+ * @param request - 当前请求，传入时会清除请求中已不再使用的旧分片
  */
-export function setAuthCookie(response: NextResponse, session: any) {
-  const isSecure = process.env.NODE_ENV === 'production'
-  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
-  const projectRef = new URL(supabaseUrl).hostname.split('.')[0]
+export function setAuthCookie(response: NextResponse, session: Session, request?: NextRequest) {
+  const isSecure = getConfig().cookie.secure
+  const cookieName = getAuthCookieName()
   
   // 获取 Cookie 域名配置
-  const cookieDomain = process.env.COOKIE_DOMAIN || '.localhost'
+  const cookieDomain = getConfig().cookie.domain
   
   // 设置 Supabase 标准 cookies
-  response.cookies.set(`sb-${projectRef}-auth-token`, JSON.stringify({
+  const chunks = createCookieChunks(cookieName, JSON.stringify({
     access_token: session.access_token,
     refresh_token: session.refresh_token,
     expires_in: session.expires_in,
     expires_at: session.expires_at,
     token_type: session.token_type,
     user: session.user
-  }), {
-    httpOnly: false, // Supabase 客户端需要能够读取这个 cookie
-    secure: isSecure,
-    sameSite: 'lax',
-    maxAge: session.expires_in,
-    path: '/',
-    domain: cookieDomain // 设置域名以支持跨子域名访问
+  }))
+  
+  chunks.forEach(({ name, value }) => {
+    response.cookies.set(name, value, {
+      httpOnly: false, // Supabase 客户端需要能够读取这个 cookie
+      secure: isSecure,
+      sameSite: 'lax',
+      maxAge: AUTH_COOKIE_MAX_AGE,
+      path: '/',
+      domain: cookieDomain // 设置域名以支持跨子域名访问
+    })
   })
+  
+  // 清除分片数量变化后残留的旧 Cookie
+  if (request) {
+    const written = new Set(chunks.map(chunk => chunk.name))
+    request.cookies.getAll()
+      .filter(cookie => isChunkOf(cookie.name, cookieName) && !written.has(cookie.name))
+      .forEach(cookie => {
+        response.cookies.set(cookie.name, '', {
+          maxAge: 0,
+          path: '/',
+          domain: cookieDomain
+        })
+      })
+  }
 }
 
 /**
  * 清除认证 Cookie
  * @param response - Next.js 响应对象
+ * @param request - 当前请求，传入时会同时清除请求中的全部分片
  */
-export function clearAuthCookie(response: NextResponse) {
-  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
-  const projectRef = new URL(supabaseUrl).hostname.split('.')[0]
+export function clearAuthCookie(response: NextResponse, request?: NextRequest) {
+  const cookieName = getAuthCookieName()
   
   // 获取 Cookie 域名配置
-  const cookieDomain = process.env.COOKIE_DOMAIN || '.localhost'
+  const cookieDomain = getConfig().cookie.domain
+  
+  const names = new Set([cookieName])
+  request?.cookies.getAll()
+    .filter(cookie => isChunkOf(cookie.name, cookieName))
+    .forEach(cookie => names.add(cookie.name))
   
   // 清除 Supabase 标准 cookie
-  response.cookies.set(`sb-${projectRef}-auth-token`, '', {
-    maxAge: 0,
-    path: '/',
-    domain: cookieDomain // 确保清除时使用相同的域名
+  names.forEach(name => {
+    response.cookies.set(name, '', {
+      maxAge: 0,
+      path: '/',
+      domain: cookieDomain // 确保清除时使用相同的域名
+    })
   })
 }
 
+/**
+ * 获取会话的登录方式
+ * 使用 Supabase 会话表的身份后端读取登录时的记录，其他后端即为后端本身
+ * @param accessToken - 访问令牌
+ * @returns 登录方式，没有记录时返回 null
+ */
+export async function getSessionLoginProvider(accessToken: string): Promise<string | null> {
+  const backend = getBackendForToken(accessToken)
+  if (!backend.tracksSessions) {
+    return backend.id
+  }
+  const sessionId = getSessionId(accessToken)
+  return sessionId ? getSessionProvider(sessionId) : null
+}
+
 /**
  * 刷新用户会话
+ * 同一刷新令牌的并发请求共享一次刷新结果，避免触发 Supabase 的刷新令牌重用检测
  * @param refreshToken - 刷新令牌
  * @returns 新的会话信息或 null
  */
-export async function refreshSession(refreshToken: string) {
+export function refreshSession(refreshToken: string): Promise<Session | null> {
+  const key = hashToken(refreshToken)
+  const pending = pendingRefreshes.get(key)
+  if (pending) {
+    return pending
+  }
+  
+  const result = rotateRefreshToken(refreshToken)
+  pendingRefreshes.set(key, result)
+  result.finally(() => {
+    setTimeout(() => pendingRefreshes.delete(key), REFRESH_RESULT_TTL)
+  })
+  
+  return result
+}
+
+/**
+ * 通过签发该刷新令牌的身份后端换取新会话
+ * Supabase 的刷新令牌不是 JWT，无法识别时交给 Supabase
+ */
+async function rotateRefreshToken(refreshToken: string): Promise<Session | null> {
+  const backend = getBackendForToken(refreshToken)
   try {
-    const supabase = createSupabaseAdminClient()
-    const { data, error } = await supabase.auth.refreshSession({
-      refresh_token: refreshToken
-    })
-    
-    if (error || !data.session) {
-      return null
-    }
-    
-    return data.session
+    return await backend.refresh(refreshToken)
   } catch (error) {
-    console.error('Session refresh error:', error)
+    logger.error('Session refresh error', { backend: backend.id, error })
     return null
   }
 }
 
 /**
  * 生成登录重定向 URL
+ * 原始请求 URL 来自反向代理的请求头，不安全时不带 redirect 参数，登录后进入仪表板
  * @param originalUrl - 原始请求 URL
+ * @param log - 请求日志记录器
  * @returns 登录页面 URL
  */
-export function generateLoginUrl(originalUrl: string): string {
-  // 从环境变量获取配置的 URL
-  const baseUrl = process.env.NEXT_APP_URL || 'http://localhost:3000'
-  const loginUrl = new URL('/login', baseUrl)
-  loginUrl.searchParams.set('redirect', originalUrl)
+export async function generateLoginUrl(originalUrl: string, log?: Logger): Promise<string> {
+  const loginUrl = new URL('/login', getConfig().appUrl)
+  const redirect = await resolveRedirect(originalUrl, null, 'login', log)
+  if (redirect) {
+    loginUrl.searchParams.set('redirect', redirect)
+  }
   return loginUrl.toString()
 }
 
 /**
- * 验证重定向 URL 是否安全
- * @param url - 重定向 URL
- * @returns 是否安全
+ * 生成二次验证 URL
+ * 已登录但会话未达到 aal2 的用户在此完成 TOTP 验证，无需重新登录
+ * @param originalUrl - 原始请求 URL，不安全时不带 redirect 参数
+ * @param log - 请求日志记录器
+ * @returns 二次验证页面 URL
  */
-export function isValidRedirectUrl(url: string): boolean {
-  try {
-    const redirectUrl = new URL(url)
-    
-    // 从环境变量获取允许的域名列表
-    const allowedDomainsStr = process.env.ALLOWED_DOMAINS || 'localhost'
-    const allowedDomains = allowedDomainsStr.split(',').map(domain => domain.trim())
-
-    return allowedDomains.some(domain => {
-      // 处理通配符域名 (*.domain.com)
-      if (domain.startsWith('*.')) {
-        const baseDomain = domain.slice(2) // 移除 '*.' 前缀
-        return redirectUrl.hostname === baseDomain || 
-               redirectUrl.hostname.endsWith(`.${baseDomain}`)
-      }
-      
-      // 处理普通域名
-      return redirectUrl.hostname === domain || 
-             redirectUrl.hostname.endsWith(`.${domain}`)
-    })
-  } catch {
-    return false
+export async function generateStepUpUrl(originalUrl: string, log?: Logger): Promise<string> {
+  const stepUpUrl = new URL('/mfa', getConfig().appUrl)
+  const redirect = await resolveRedirect(originalUrl, null, 'mfa', log)
+  if (redirect) {
+    stepUpUrl.searchParams.set('redirect', redirect)
   }
-}
\ No newline at end of file
+  return stepUpUrl.toString()
+}
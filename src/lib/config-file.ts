@@ -0,0 +1,77 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { logger } from './logger'
+
+// 配置文件变更检查间隔（毫秒）
+const RELOAD_CHECK_INTERVAL = 1000
+
+/**
+ * 配置文件加载状态
+ * value 为 null 表示文件不存在；error 表示文件首次加载即失败
+ */
+export interface ConfigFileState<T> {
+  value: T | null
+  error: boolean
+}
+
+interface ConfigFileCache<T> extends ConfigFileState<T> {
+  mtimeMs: number
+  checkedAt: number
+}
+
+interface ConfigFileOptions<T> {
+  // 配置文件用途，用于日志
+  name: string
+  // 指定文件路径的环境变量
+  envVar: string
+  // 默认文件路径（相对于工作目录）
+  defaultPath: string
+  // 解析并校验文件内容，校验失败时抛出异常
+  parse?: (data: unknown) => T
+}
+
+/**
+ * 创建 JSON 配置文件加载器
+ * 文件修改后自动重新加载，无需重启服务；解析失败时保留上一次有效的内容
+ * @param options - 加载器配置
+ * @returns 加载函数
+ */
+export function createConfigFileLoader<T>(options: ConfigFileOptions<T>): () => Promise<ConfigFileState<T>> {
+  let cache: ConfigFileCache<T> | null = null
+
+  return async () => {
+    const now = Date.now()
+    if (cache && now - cache.checkedAt < RELOAD_CHECK_INTERVAL) {
+      return cache
+    }
+
+    const file = path.resolve(process.cwd(), process.env[options.envVar] || options.defaultPath)
+
+    let mtimeMs: number
+    try {
+      mtimeMs = (await fs.stat(file)).mtimeMs
+    } catch {
+      cache = { value: null, mtimeMs: 0, checkedAt: now, error: false }
+      return cache
+    }
+
+    if (cache && cache.mtimeMs === mtimeMs) {
+      cache.checkedAt = now
+      return cache
+    }
+
+    try {
+      const data = JSON.parse(await fs.readFile(file, 'utf8')) as unknown
+      const value = options.parse ? options.parse(data) : data as T
+      cache = { value, mtimeMs, checkedAt: now, error: false }
+      logger.info('Config file loaded', { config: options.name, file })
+    } catch (error) {
+      logger.error('Config file load error', { config: options.name, error })
+      cache = cache && !cache.error
+        ? { ...cache, mtimeMs, checkedAt: now }
+        : { value: null, mtimeMs, checkedAt: now, error: true }
+    }
+
+    return cache
+  }
+}
@@ -0,0 +1,345 @@
+/**
+ * 服务端配置
+ * 所有环境变量在这里读取与校验，其余模块通过 getConfig() 使用
+ */
+export interface AppConfig {
+  // 本服务对外访问地址（NEXT_APP_URL）
+  appUrl: string
+  // 开发身份模式：使用内置的模拟 Supabase Auth 接口与种子用户，无需 Supabase 项目
+  devMode: boolean
+  supabase: {
+    url: string
+    anonKey: string
+    serviceRoleKey: string
+    // 未配置时通过 Supabase 远程校验 HS256 令牌
+    jwtSecret: string | null
+  }
+  cookie: {
+    domain: string
+    secure: boolean
+  }
+  // 允许作为登录后重定向目标的域名，支持 *.example.com，可用 :8443 或 :* 指定端口
+  allowedDomains: string[]
+  // 客户端 IP 的来源：反向代理追加的 X-Forwarded-For 条目，或反向代理覆盖设置的 X-Real-IP
+  clientIp: {
+    header: 'x-forwarded-for' | 'x-real-ip'
+    // 本服务前面会追加 X-Forwarded-For 的可信代理层数，客户端 IP 为从右往左数第几个条目
+    trustedProxyHops: number
+  }
+  // 以下时长单位为秒，backchannelLogoutTimeout 为毫秒
+  sessionCacheTtl: number
+  sessionRevocationCheckTtl: number
+  identityAssertionTtl: number
+  oidcTokenTtl: number
+  otpResendCooldown: number
+  backchannelLogoutTimeout: number
+  registration: {
+    mode: 'open' | 'closed' | 'restricted'
+    emailDomains: string[]
+  }
+  audit: {
+    sink: 'supabase' | 'file' | 'none'
+    logFile: string
+    ignoreEvents: string[]
+    exportLimit: number
+  }
+  // LDAP/Active Directory 身份后端，未配置 LDAP_URL 时为 null
+  ldap: {
+    url: string
+    // 查找用户使用的服务账户，未配置时匿名查找
+    bindDn: string | null
+    bindPassword: string | null
+    baseDn: string
+    // 查找用户的过滤器，{{identifier}} 替换为登录时输入的邮箱或用户名
+    userFilter: string
+    groupBaseDn: string
+    // 查找用户所属组的过滤器，{{dn}} 替换为用户 DN
+    groupFilter: string
+    // 使用 LDAP 登录的邮箱域，不含 @ 的用户名始终使用 LDAP
+    emailDomains: string[]
+    // 会话令牌签名密钥
+    sessionSecret: string
+    // 会话有效期（秒），到期后需要重新登录
+    sessionTtl: number
+    // 单次目录操作超时（毫秒）
+    timeout: number
+    startTls: boolean
+    // 是否校验 ldaps:// 与 StartTLS 的服务器证书
+    tlsVerify: boolean
+  } | null
+  adminRole: string
+  mfaIssuer: string | null
+  metricsToken: string | null
+  logLevel: 'debug' | 'info' | 'warn' | 'error'
+}
+
+/**
+ * 配置问题
+ * error 表示服务无法正常工作，生产环境下启动失败；warning 只做提示
+ */
+export interface ConfigIssue {
+  variable: string
+  severity: 'error' | 'warning'
+  message: string
+}
+
+type Env = Record<string, string | undefined>
+
+const DEV_APP_URL = 'http://localhost:3000'
+const DEV_COOKIE_DOMAIN = '.localhost'
+const DEV_ALLOWED_DOMAINS = ['localhost:*']
+
+// 开发身份模式下的默认值，模拟接口位于 /api/dev/auth/v1
+export const DEV_SUPABASE_PATH = '/api/dev'
+const DEV_ANON_KEY = 'dev-anon-key'
+const DEV_SERVICE_ROLE_KEY = 'dev-service-role-key'
+const DEV_JWT_SECRET = 'dev-mode-jwt-secret-do-not-use-in-production'
+
+let cached: { config: AppConfig; issues: ConfigIssue[] } | null = null
+
+/**
+ * 解析环境变量
+ * 无效的值记录为问题并使用默认值，以便开发环境在配置不完整时仍能启动
+ * @param env - 环境变量
+ * @returns 配置与发现的问题
+ */
+function parseConfig(env: Env): { config: AppConfig; issues: ConfigIssue[] } {
+  const issues: ConfigIssue[] = []
+  const production = env.NODE_ENV === 'production'
+
+  const read = (name: string): string | null => env[name]?.trim() || null
+
+  const issue = (variable: string, message: string, severity: ConfigIssue['severity'] = 'error') => {
+    issues.push({ variable, severity, message })
+  }
+
+  /**
+   * 读取必填项；开发环境可以使用默认值并提示
+   */
+  const required = (name: string, devDefault?: string): string => {
+    const value = read(name)
+    if (value) {
+      return value
+    }
+    if (devDefault !== undefined && !production) {
+      issue(name, `is not set, using ${devDefault}`, 'warning')
+      return devDefault
+    }
+    issue(name, 'is required')
+    return devDefault || ''
+  }
+
+  /**
+   * 读取 http(s) 地址
+   */
+  const url = (name: string, devDefault?: string): string => {
+    const value = required(name, devDefault)
+    if (!value) {
+      return value
+    }
+    try {
+      const parsed = new URL(value)
+      if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+        issue(name, 'must be an http(s) URL')
+      }
+      if (production && parsed.protocol !== 'https:' && name === 'NEXT_APP_URL') {
+        issue(name, 'should use https in production', 'warning')
+      }
+    } catch {
+      issue(name, 'is not a valid URL')
+    }
+    return value.replace(/\/$/, '')
+  }
+
+  /**
+   * 读取正数，未设置时使用默认值
+   */
+  const positiveNumber = (name: string, defaultValue: number): number => {
+    const value = read(name)
+    if (value === null) {
+      return defaultValue
+    }
+    const parsed = Number(value)
+    if (!Number.isFinite(parsed) || parsed <= 0) {
+      issue(name, `must be a positive number, using ${defaultValue}`)
+      return defaultValue
+    }
+    return parsed
+  }
+
+  /**
+   * 读取枚举值，未设置时使用第一个值
+   */
+  const oneOf = <T extends string>(name: string, values: readonly T[]): T => {
+    const value = read(name)?.toLowerCase()
+    if (!value) {
+      return values[0]
+    }
+    if (!(values as readonly string[]).includes(value)) {
+      issue(name, `must be one of ${values.join(', ')}, using ${values[0]}`)
+      return values[0]
+    }
+    return value as T
+  }
+
+  const list = (name: string): string[] =>
+    (read(name) || '').split(',').map(item => item.trim()).filter(Boolean)
+
+  const appUrl = url('NEXT_APP_URL', DEV_APP_URL)
+
+  // 开发身份模式允许任何人以种子用户登录，生产环境需要显式确认（如离线 CI 中运行生产构建）
+  const devMode = ['true', '1'].includes(read('AUTH_DEV_MODE')?.toLowerCase() || '')
+  if (devMode) {
+    if (production && read('AUTH_DEV_MODE_ALLOW_PRODUCTION') !== 'true') {
+      issue('AUTH_DEV_MODE', 'must not be enabled in production')
+    } else {
+      issue('AUTH_DEV_MODE', 'is enabled, anyone can sign in as a seeded development user', 'warning')
+    }
+  }
+
+  // 开发身份模式下 Supabase 相关配置均可省略，默认指向本服务的模拟接口
+  const mockSupabaseUrl = `${appUrl}${DEV_SUPABASE_PATH}`
+  const supabaseUrl = devMode && !read('NEXT_PUBLIC_SUPABASE_URL')
+    ? mockSupabaseUrl
+    : url('NEXT_PUBLIC_SUPABASE_URL')
+  const anonKey = devMode ? read('NEXT_PUBLIC_SUPABASE_ANON_KEY') || DEV_ANON_KEY : required('NEXT_PUBLIC_SUPABASE_ANON_KEY')
+  const serviceRoleKey = devMode ? read('SUPABASE_SERVICE_ROLE_KEY') || DEV_SERVICE_ROLE_KEY : required('SUPABASE_SERVICE_ROLE_KEY')
+
+  // 公开的默认密钥只用于模拟接口，连接真实的 Supabase 项目时必须配置项目的密钥，否则任何人都能伪造访问令牌
+  const usesMockSupabase = devMode && supabaseUrl === mockSupabaseUrl
+  const jwtSecret = read('SUPABASE_JWT_SECRET') || (usesMockSupabase ? DEV_JWT_SECRET : null)
+  if (!jwtSecret && devMode) {
+    issue('SUPABASE_JWT_SECRET', 'is required when AUTH_DEV_MODE is enabled with a NEXT_PUBLIC_SUPABASE_URL other than the built-in mock endpoint')
+  } else if (!jwtSecret) {
+    issue('SUPABASE_JWT_SECRET', 'is not set, HS256 access tokens are verified remotely', 'warning')
+  }
+
+  // 认证 Cookie 必须能够写入本服务的域名，否则登录后无法保持会话
+  const cookieDomain = required('COOKIE_DOMAIN', DEV_COOKIE_DOMAIN)
+  try {
+    const host = new URL(appUrl).hostname
+    const domain = cookieDomain.replace(/^\./, '').toLowerCase()
+    if (domain && host !== domain && !host.endsWith(`.${domain}`)) {
+      issue('COOKIE_DOMAIN', `does not match the host of NEXT_APP_URL (${host})`)
+    }
+  } catch {
+    // NEXT_APP_URL 无效时已经记录
+  }
+
+  let allowedDomains = list('ALLOWED_DOMAINS')
+  if (allowedDomains.length === 0) {
+    if (production) {
+      issue('ALLOWED_DOMAINS', 'is required')
+    } else {
+      issue('ALLOWED_DOMAINS', `is not set, using ${DEV_ALLOWED_DOMAINS.join(',')}`, 'warning')
+      allowedDomains = DEV_ALLOWED_DOMAINS
+    }
+  }
+
+  // 只接受主机名与可选端口，https://example.com 等写法无法匹配任何地址
+  const invalidDomains = allowedDomains.filter(domain => !/^(\*\.)?[a-z0-9.-]+(:(\d+|\*))?$/i.test(domain))
+  if (invalidDomains.length > 0) {
+    issue('ALLOWED_DOMAINS', `contains invalid entries: ${invalidDomains.join(', ')}`)
+  }
+
+  const registrationMode = oneOf('REGISTRATION_MODE', ['open', 'closed', 'restricted'] as const)
+  const registrationDomains = list('REGISTRATION_EMAIL_DOMAINS').map(domain => domain.toLowerCase())
+  if (registrationMode === 'restricted' && registrationDomains.length === 0) {
+    issue('REGISTRATION_EMAIL_DOMAINS', 'is empty, only invited users can sign up', 'warning')
+  }
+
+  let ldap: AppConfig['ldap'] = null
+  const ldapUrl = read('LDAP_URL')
+  if (ldapUrl) {
+    if (!/^ldaps?:\/\//i.test(ldapUrl)) {
+      issue('LDAP_URL', 'must be an ldap:// or ldaps:// URL')
+    }
+    // 会话令牌由本服务签名，密钥过短时可被暴力破解
+    const sessionSecret = required('LDAP_SESSION_SECRET')
+    if (sessionSecret && sessionSecret.length < 32) {
+      issue('LDAP_SESSION_SECRET', 'must be at least 32 characters')
+    }
+    const baseDn = required('LDAP_BASE_DN')
+    const startTls = read('LDAP_START_TLS') === 'true'
+    if (production && ldapUrl.toLowerCase().startsWith('ldap://') && !startTls) {
+      issue('LDAP_URL', 'sends passwords in plain text, use ldaps:// or LDAP_START_TLS=true', 'warning')
+    }
+    ldap = {
+      url: ldapUrl,
+      bindDn: read('LDAP_BIND_DN'),
+      bindPassword: read('LDAP_BIND_PASSWORD'),
+      baseDn,
+      userFilter: read('LDAP_USER_FILTER') ||
+        '(&(objectClass=person)(|(mail={{identifier}})(uid={{identifier}})(sAMAccountName={{identifier}})))',
+      groupBaseDn: read('LDAP_GROUP_BASE_DN') || baseDn,
+      groupFilter: read('LDAP_GROUP_FILTER') || '(|(member={{dn}})(uniqueMember={{dn}}))',
+      emailDomains: list('LDAP_EMAIL_DOMAINS').map(domain => domain.toLowerCase()),
+      sessionSecret,
+      sessionTtl: positiveNumber('LDAP_SESSION_TTL', 12 * 60 * 60),
+      timeout: positiveNumber('LDAP_TIMEOUT', 5000),
+      startTls,
+      tlsVerify: read('LDAP_TLS_VERIFY') !== 'false'
+    }
+  }
+
+  const config: AppConfig = {
+    appUrl,
+    devMode,
+    supabase: {
+      url: supabaseUrl,
+      anonKey,
+      serviceRoleKey,
+      jwtSecret
+    },
+    cookie: {
+      domain: cookieDomain,
+      secure: production
+    },
+    allowedDomains,
+    clientIp: {
+      header: oneOf('CLIENT_IP_HEADER', ['x-forwarded-for', 'x-real-ip'] as const),
+      trustedProxyHops: Math.floor(positiveNumber('TRUSTED_PROXY_HOPS', 1))
+    },
+    sessionCacheTtl: positiveNumber('SESSION_CACHE_TTL', 30),
+    sessionRevocationCheckTtl: positiveNumber('SESSION_REVOCATION_CHECK_TTL', 5),
+    identityAssertionTtl: positiveNumber('IDENTITY_ASSERTION_TTL', 60),
+    oidcTokenTtl: positiveNumber('OIDC_TOKEN_TTL', 3600),
+    otpResendCooldown: positiveNumber('OTP_RESEND_COOLDOWN', 60),
+    backchannelLogoutTimeout: positiveNumber('BACKCHANNEL_LOGOUT_TIMEOUT', 5000),
+    registration: {
+      mode: registrationMode,
+      emailDomains: registrationDomains
+    },
+    audit: {
+      // 开发身份模式没有数据库，默认写入文件
+      sink: oneOf('AUDIT_SINK', devMode ? ['file', 'supabase', 'none'] as const : ['supabase', 'file', 'none'] as const),
+      logFile: read('AUDIT_LOG_FILE') || 'logs/audit.jsonl',
+      ignoreEvents: list('AUDIT_IGNORE_EVENTS'),
+      exportLimit: positiveNumber('AUDIT_EXPORT_LIMIT', 50000)
+    },
+    ldap,
+    adminRole: read('ADMIN_ROLE') || 'admin',
+    mfaIssuer: read('MFA_ISSUER'),
+    metricsToken: read('METRICS_TOKEN'),
+    logLevel: oneOf('LOG_LEVEL', ['info', 'debug', 'warn', 'error'] as const)
+  }
+
+  return { config, issues }
+}
+
+/**
+ * 获取配置
+ * 环境变量在首次调用时解析并缓存
+ */
+export function getConfig(): AppConfig {
+  cached = cached || parseConfig(process.env)
+  return cached.config
+}
+
+/**
+ * 获取配置问题
+ */
+export function getConfigIssues(): ConfigIssue[] {
+  cached = cached || parseConfig(process.env)
+  return cached.issues
+}
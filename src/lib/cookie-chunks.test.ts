@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest'
+import { combineCookieChunks, createCookieChunks, isChunkOf, MAX_CHUNK_SIZE } from './cookie-chunks'
+
+const NAME = 'sb-auth-token'
+
+describe('createCookieChunks', () => {
+  it('keeps short values in a single cookie', () => {
+    expect(createCookieChunks(NAME, 'value')).toEqual([{ name: NAME, value: 'value' }])
+  })
+
+  it.each([
+    ['ASCII', 'a'.repeat(MAX_CHUNK_SIZE * 2 + 10)],
+    ['escaped characters', '{"token":"x"} '.repeat(600)],
+    ['multi-byte characters', '中文令牌😀'.repeat(400)]
+  ])('splits long %s values into chunks that combine back', (_, value) => {
+    const chunks = createCookieChunks(NAME, value)
+    expect(chunks.length).toBeGreaterThan(1)
+    chunks.forEach((chunk, index) => {
+      expect(chunk.name).toBe(`${NAME}.${index}`)
+      expect(encodeURIComponent(chunk.value).length).toBeLessThanOrEqual(MAX_CHUNK_SIZE)
+    })
+    expect(combineCookieChunks(NAME, chunks)).toBe(value)
+  })
+})
+
+describe('combineCookieChunks', () => {
+  it('prefers the unchunked cookie', () => {
+    expect(combineCookieChunks(NAME, [
+      { name: `${NAME}.0`, value: 'stale' },
+      { name: NAME, value: 'whole' }
+    ])).toBe('whole')
+  })
+
+  it('joins chunks in order and stops at the first gap', () => {
+    expect(combineCookieChunks(NAME, [
+      { name: `${NAME}.1`, value: 'b' },
+      { name: `${NAME}.0`, value: 'a' },
+      { name: `${NAME}.3`, value: 'd' }
+    ])).toBe('ab')
+  })
+
+  it('returns null without the cookie', () => {
+    expect(combineCookieChunks(NAME, [{ name: 'other', value: 'x' }])).toBeNull()
+  })
+})
+
+describe('isChunkOf', () => {
+  it.each([
+    [NAME, true],
+    [`${NAME}.0`, true],
+    [`${NAME}.12`, true],
+    [`${NAME}.01`, false],
+    [`${NAME}.x`, false],
+    [`${NAME}-code-verifier`, false],
+    [`other.${NAME}.0`, false]
+  ])('%s -> %s', (cookieName, expected) => {
+    expect(isChunkOf(cookieName, NAME)).toBe(expected)
+  })
+})
@@ -0,0 +1,89 @@
+/**
+ * Cookie 分片工具
+ * 与 @supabase/ssr 的分片格式保持一致：值过长时拆分为 name.0、name.1 ... 多个 Cookie
+ */
+
+// 单个 Cookie 分片的最大长度（URL 编码后），与 @supabase/ssr 保持一致
+export const MAX_CHUNK_SIZE = 3180
+
+const CHUNK_NAME_REGEX = /^(.*)\.(0|[1-9][0-9]*)$/
+
+interface CookieEntry {
+  name: string
+  value: string
+}
+
+/**
+ * 判断 Cookie 名称是否为指定 Cookie 本身或其分片
+ */
+export function isChunkOf(cookieName: string, name: string): boolean {
+  if (cookieName === name) {
+    return true
+  }
+  const match = cookieName.match(CHUNK_NAME_REGEX)
+  return !!match && match[1] === name
+}
+
+/**
+ * 将 Cookie 值拆分为分片
+ * 拆分在 URL 编码后的字符串上进行，且不会截断转义序列或 Unicode 字符
+ * @param name - Cookie 名称
+ * @param value - Cookie 值
+ * @returns 无需拆分时返回单个条目，否则返回 name.0、name.1 ... 条目
+ */
+export function createCookieChunks(name: string, value: string): CookieEntry[] {
+  let encoded = encodeURIComponent(value)
+  if (encoded.length <= MAX_CHUNK_SIZE) {
+    return [{ name, value }]
+  }
+
+  const chunks: string[] = []
+  while (encoded.length > 0) {
+    let head = encoded.slice(0, MAX_CHUNK_SIZE)
+
+    // 避免截断 %XX 转义序列
+    const lastEscape = head.lastIndexOf('%')
+    if (lastEscape > MAX_CHUNK_SIZE - 3) {
+      head = head.slice(0, lastEscape)
+    }
+
+    // 避免截断多字节 Unicode 字符
+    let decoded = ''
+    while (head.length > 0) {
+      try {
+        decoded = decodeURIComponent(head)
+        break
+      } catch {
+        head = head.slice(0, head.lastIndexOf('%'))
+      }
+    }
+
+    chunks.push(decoded)
+    encoded = encoded.slice(head.length)
+  }
+
+  return chunks.map((chunk, index) => ({ name: `${name}.${index}`, value: chunk }))
+}
+
+/**
+ * 合并 Cookie 分片
+ * 优先读取未分片的 Cookie，否则按序号拼接 name.0、name.1 ... 直到缺失
+ * @param name - Cookie 名称
+ * @param cookies - 请求中的全部 Cookie
+ * @returns 合并后的值，不存在时返回 null
+ */
+export function combineCookieChunks(name: string, cookies: CookieEntry[]): string | null {
+  const values = new Map(cookies.map(cookie => [cookie.name, cookie.value]))
+
+  const whole = values.get(name)
+  if (whole) {
+    return whole
+  }
+
+  const parts: string[] = []
+  for (let index = 0; values.has(`${name}.${index}`); index++) {
+    parts.push(values.get(`${name}.${index}`)!)
+  }
+
+  return parts.length > 0 ? parts.join('') : null
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it, vi } from 'vitest'
+
+vi.hoisted(() => {
+  process.env.NEXT_APP_URL = 'https://auth.example.com'
+  process.env.ALLOWED_DOMAINS = 'example.com,apps.example.org:8443'
+  process.env.LOG_LEVEL = 'error'
+})
+
+import { getCorsHeaders, getCorsPolicy, isAllowedOrigin } from './cors'
+
+describe('getCorsPolicy', () => {
+  it.each([
+    ['/api/applications', true],
+    ['/api/auth/providers', false],
+    ['/api/auth/registration', false],
+    ['/api/oidc/token', false],
+    ['/api/oidc/userinfo', false]
+  ])('allows cross-origin reads of %s', (pathname, credentials) => {
+    expect(getCorsPolicy(pathname)).toMatchObject({ credentials })
+  })
+
+  it.each([
+    '/api/admin/users',
+    '/api/tokens',
+    '/api/app-passwords',
+    '/api/mfa/factors',
+    '/api/auth/password/change',
+    '/api/sessions',
+    '/api/applications/extra',
+    '/api/oidc/authorize'
+  ])('does not allow cross-origin requests to %s', pathname => {
+    expect(getCorsPolicy(pathname)).toBeNull()
+  })
+})
+
+describe('isAllowedOrigin', () => {
+  it.each([
+    ['https://auth.example.com', true],
+    ['https://example.com', true],
+    ['https://app.example.com', true],
+    ['http://app.example.com', true],
+    ['https://apps.example.org:8443', true],
+    ['https://apps.example.org', false],
+    ['https://app.example.com:8443', false],
+    ['https://evilexample.com', false],
+    ['https://example.com.evil.com', false],
+    ['https://example.com/path', false],
+    ['https://user@example.com', false],
+    ['null', false],
+    ['file://example.com', false]
+  ])('%s -> %s', (origin, expected) => {
+    expect(isAllowedOrigin(origin)).toBe(expected)
+  })
+})
+
+describe('getCorsHeaders', () => {
+  const policy = { methods: ['GET'], headers: [], credentials: true }
+
+  it('echoes allowed origins with credentials', () => {
+    const headers = getCorsHeaders('https://app.example.com', policy, false)
+    expect(headers.get('Access-Control-Allow-Origin')).toBe('https://app.example.com')
+    expect(headers.get('Access-Control-Allow-Credentials')).toBe('true')
+    expect(headers.get('Access-Control-Allow-Methods')).toBeNull()
+  })
+
+  it('answers preflight requests with the allowed methods', () => {
+    const headers = getCorsHeaders('https://app.example.com', policy, true)
+    expect(headers.get('Access-Control-Allow-Methods')).toBe('GET')
+    expect(headers.get('Access-Control-Max-Age')).toBe('600')
+  })
+
+  it('only varies on Origin for other origins', () => {
+    const headers = getCorsHeaders('https://evil.com', policy, true)
+    expect([...headers.keys()]).toEqual(['vary'])
+  })
+})
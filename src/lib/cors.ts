@@ -0,0 +1,101 @@
+import { getConfig } from './config'
+import { getAllowedDomainRules, matchPort } from './allowed-domains'
+
+/**
+ * 接口的跨域策略
+ */
+export interface CorsPolicy {
+  // 允许的请求方法，预检请求返回 Access-Control-Allow-Methods
+  methods: string[]
+  // 允许的请求头，预检请求返回 Access-Control-Allow-Headers
+  headers: string[]
+  // 是否允许携带 Cookie（Access-Control-Allow-Credentials）
+  credentials: boolean
+}
+
+interface CorsRoute {
+  pattern: RegExp
+  policy: CorsPolicy
+}
+
+// 预检结果的缓存时间（秒）
+const PREFLIGHT_MAX_AGE = 600
+
+/**
+ * 允许跨域请求的接口，第一条匹配的规则生效，未列出的接口不返回任何 CORS 响应头
+ * 只开放子域名上的应用需要的只读接口；管理接口，以及令牌、应用密码、多因素认证、密码与会话管理等
+ * 会创建凭据或修改账户的接口一律不允许跨域，受信任子域名上的 XSS 也无法借用户的 Cookie 读取其响应
+ * OIDC 令牌与用户信息接口由依赖方以 Bearer 令牌调用，不携带 Cookie
+ */
+const CORS_ROUTES: CorsRoute[] = [
+  {
+    pattern: /^\/api\/applications$/,
+    policy: { methods: ['GET'], headers: [], credentials: true }
+  },
+  {
+    pattern: /^\/api\/auth\/(providers|registration)$/,
+    policy: { methods: ['GET'], headers: [], credentials: false }
+  },
+  {
+    pattern: /^\/api\/oidc\/(token|userinfo)$/,
+    policy: { methods: ['GET', 'POST'], headers: ['Content-Type', 'Authorization'], credentials: false }
+  }
+]
+
+/**
+ * 获取接口的跨域策略
+ * @param pathname - 请求路径
+ * @returns 跨域策略，接口不支持跨域请求时返回 null
+ */
+export function getCorsPolicy(pathname: string): CorsPolicy | null {
+  return CORS_ROUTES.find(route => route.pattern.test(pathname))?.policy ?? null
+}
+
+/**
+ * 判断请求来源是否允许跨域访问
+ * 允许本服务自身与 ALLOWED_DOMAINS 中的域名，协议必须为 http(s)，端口规则与重定向校验一致
+ * @param origin - Origin 请求头
+ */
+export function isAllowedOrigin(origin: string): boolean {
+  let url: URL
+  try {
+    url = new URL(origin)
+  } catch {
+    return false
+  }
+  // Origin 只包含协议、主机与端口，带有路径或用户信息的值不是浏览器发送的
+  if ((url.protocol !== 'http:' && url.protocol !== 'https:') || url.origin !== origin) {
+    return false
+  }
+  if (url.origin === new URL(getConfig().appUrl).origin) {
+    return true
+  }
+  return getAllowedDomainRules().some(rule => rule.matches(url.hostname) && matchPort(rule.port, url))
+}
+
+/**
+ * 生成跨域响应头
+ * 来源不允许时只返回 Vary，浏览器会拒绝读取响应
+ * @param origin - Origin 请求头
+ * @param policy - 接口的跨域策略
+ * @param preflight - 是否为预检请求
+ */
+export function getCorsHeaders(origin: string, policy: CorsPolicy, preflight: boolean): Headers {
+  const headers = new Headers({ Vary: 'Origin' })
+  if (!isAllowedOrigin(origin)) {
+    return headers
+  }
+
+  headers.set('Access-Control-Allow-Origin', origin)
+  if (policy.credentials) {
+    headers.set('Access-Control-Allow-Credentials', 'true')
+  }
+  if (preflight) {
+    headers.set('Access-Control-Allow-Methods', policy.methods.join(', '))
+    if (policy.headers.length > 0) {
+      headers.set('Access-Control-Allow-Headers', policy.headers.join(', '))
+    }
+    headers.set('Access-Control-Max-Age', String(PREFLIGHT_MAX_AGE))
+  }
+  return headers
+}
@@ -0,0 +1,61 @@
+import type { User } from '@supabase/supabase-js'
+import { DEV_SUPABASE_PATH } from './config'
+import { escapeHtml } from './forbidden'
+
+/**
+ * 模拟第三方登录的授权请求参数
+ */
+export interface DevConsentRequest {
+  provider: string
+  redirectTo: string
+  codeChallenge: string | null
+  codeChallengeMethod: string | null
+}
+
+/**
+ * 生成开发身份模式的模拟授权同意页面
+ * 代替第三方提供商的登录页，直接选择一个种子用户完成登录
+ * @param request - 授权请求参数，以隐藏字段提交回授权接口
+ * @param users - 可选择的种子用户
+ * @returns HTML 字符串
+ */
+export function renderDevConsentPage(request: DevConsentRequest, users: User[]): string {
+  const hidden = [
+    ['provider', request.provider],
+    ['redirect_to', request.redirectTo],
+    ['code_challenge', request.codeChallenge],
+    ['code_challenge_method', request.codeChallengeMethod]
+  ]
+    .filter((field): field is [string, string] => !!field[1])
+    .map(([name, value]) => `<input type="hidden" name="${name}" value="${escapeHtml(value)}">`)
+    .join('\n')
+
+  const buttons = users.map(user => {
+    const roles = (user.app_metadata.roles as string[] | undefined) || []
+    return `<button type="submit" name="user_id" value="${escapeHtml(user.id)}" style="display:block;width:100%;text-align:left;padding:12px 16px;margin:0 0 8px;border-radius:8px;border:1px solid #d1d5db;background:#fff;cursor:pointer;font-size:14px">
+<span style="display:block;color:#111827">${escapeHtml(String(user.user_metadata.name || user.email))}</span>
+<span style="display:block;font-size:12px;color:#6b7280">${escapeHtml(user.email || '')}${roles.length > 0 ? ` · ${escapeHtml(roles.join(', '))}` : ''}</span>
+</button>`
+  }).join('\n')
+
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>开发模式 - 模拟登录</title>
+</head>
+<body style="margin:0;min-height:100vh;display:flex;align-items:center;justify-content:center;background:#f9fafb;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',sans-serif;color:#111827">
+<div style="max-width:480px;width:100%;margin:24px;background:#fff;border-radius:16px;box-shadow:0 10px 25px rgba(0,0,0,.08);padding:32px">
+<p style="display:inline-block;font-size:12px;color:#92400e;background:#fef3c7;border-radius:9999px;padding:2px 10px;margin:0 0 12px">开发身份模式</p>
+<h1 style="font-size:20px;margin:0 0 8px">以 ${escapeHtml(request.provider)} 登录</h1>
+<p style="font-size:14px;color:#4b5563;margin:0 0 16px">这是模拟的授权页面，选择一个开发用户继续登录。</p>
+<form method="post" action="${DEV_SUPABASE_PATH}/auth/v1/authorize" style="margin:0">
+${hidden}
+${buttons}
+<button type="submit" name="action" value="deny" style="display:block;width:100%;padding:10px;margin:16px 0 0;border-radius:8px;border:1px solid #d1d5db;background:#fff;color:#374151;cursor:pointer;font-size:14px">拒绝授权</button>
+</form>
+</div>
+</body>
+</html>`
+}
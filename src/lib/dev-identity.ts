@@ -0,0 +1,433 @@
+import { createHash, randomBytes, randomInt, randomUUID } from 'crypto'
+import type { Session, User, UserIdentity } from '@supabase/supabase-js'
+import { createConfigFileLoader } from './config-file'
+import { getConfig } from './config'
+import { decodeJwt, isJwtTimeValid, signJwt, verifyJwtSignature } from './jwt'
+import { hashToken } from './tokens'
+
+// 访问令牌有效期（秒），与 Supabase 默认值一致
+const ACCESS_TOKEN_TTL = 3600
+// 授权码与邮件验证码有效期（毫秒）
+const AUTHORIZATION_CODE_TTL = 5 * 60 * 1000
+const EMAIL_TOKEN_TTL = 10 * 60 * 1000
+// 未配置种子用户文件时使用的密码
+const DEFAULT_PASSWORD = 'dev-password'
+
+/**
+ * 种子用户
+ */
+export interface DevUserSeed {
+  email: string
+  password?: string
+  name?: string
+  roles?: string[]
+  // 可选的固定 ID，默认由邮箱生成
+  id?: string
+}
+
+/**
+ * 邮件验证码用途，与 Supabase verifyOtp 的 type 一致
+ */
+export type DevEmailTokenType = 'email' | 'magiclink' | 'recovery'
+
+interface DevSession {
+  id: string
+  userId: string
+  provider: string
+  // 写入访问令牌 amr 的认证方式
+  method: string
+  refreshToken: string
+  revoked: boolean
+}
+
+interface AuthorizationCode {
+  userId: string
+  provider: string
+  codeChallenge: string | null
+  codeChallengeMethod: string | null
+  expiresAt: number
+}
+
+interface EmailToken {
+  userId: string
+  type: DevEmailTokenType
+  otp: string
+  expiresAt: number
+}
+
+// 管理接口对种子用户的修改，只保存在内存中
+interface DevUserOverride {
+  password?: string
+  user_metadata?: Record<string, unknown>
+  app_metadata?: Record<string, unknown>
+}
+
+const loadSeedFile = createConfigFileLoader<DevUserSeed[]>({
+  name: 'Development users',
+  envVar: 'DEV_USERS_FILE',
+  defaultPath: 'config/dev-users.json',
+  parse: (data) => {
+    const users = (data as { users?: unknown }).users
+    if (!Array.isArray(users) || users.some(user => typeof user?.email !== 'string')) {
+      throw new Error('users must be an array of objects with an email')
+    }
+    return users as DevUserSeed[]
+  }
+})
+
+const sessions = new Map<string, DevSession>()
+const refreshTokens = new Map<string, string>()
+const authorizationCodes = new Map<string, AuthorizationCode>()
+const emailTokens = new Map<string, EmailToken>()
+const overrides = new Map<string, DevUserOverride>()
+// 每个用户各提供商最近的登录时间，用于生成 identities
+const signIns = new Map<string, Map<string, string>>()
+
+// 种子用户不会修改创建时间，使用服务启动时间
+const createdAt = new Date().toISOString()
+
+/**
+ * 由邮箱生成稳定的用户 ID，服务重启后保持不变
+ */
+function deriveUserId(email: string): string {
+  const hex = createHash('sha256').update(`dev-user:${email.toLowerCase()}`).digest('hex')
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-4${hex.slice(13, 16)}-8${hex.slice(17, 20)}-${hex.slice(20, 32)}`
+}
+
+/**
+ * 获取种子用户
+ * 未配置种子用户文件时提供一个管理员与一个普通用户
+ */
+async function getSeeds(): Promise<(DevUserSeed & { id: string })[]> {
+  const { value } = await loadSeedFile()
+  const seeds = value || [
+    { email: 'admin@example.test', name: '开发管理员', roles: [getConfig().adminRole] },
+    { email: 'user@example.test', name: '开发用户', roles: [] }
+  ]
+  return seeds.map(seed => ({ ...seed, email: seed.email.toLowerCase(), id: seed.id || deriveUserId(seed.email) }))
+}
+
+/**
+ * 将种子用户转换为 Supabase 用户对象
+ */
+function toUser(seed: DevUserSeed & { id: string }): User {
+  const override = overrides.get(seed.id) || {}
+  const identities: UserIdentity[] = Array.from(signIns.get(seed.id) || new Map<string, string>())
+    .map(([provider, lastSignInAt]) => ({
+      id: `${seed.id}:${provider}`,
+      identity_id: `${seed.id}:${provider}`,
+      user_id: seed.id,
+      identity_data: { email: seed.email, sub: seed.id },
+      provider,
+      created_at: createdAt,
+      last_sign_in_at: lastSignInAt,
+      updated_at: lastSignInAt
+    }))
+
+  return {
+    id: seed.id,
+    aud: 'authenticated',
+    role: 'authenticated',
+    email: seed.email,
+    email_confirmed_at: createdAt,
+    confirmed_at: createdAt,
+    phone: '',
+    created_at: createdAt,
+    updated_at: createdAt,
+    last_sign_in_at: identities[0]?.last_sign_in_at,
+    app_metadata: {
+      provider: 'email',
+      providers: ['email'],
+      roles: seed.roles || [],
+      ...override.app_metadata
+    },
+    user_metadata: {
+      name: seed.name,
+      full_name: seed.name,
+      ...override.user_metadata
+    },
+    identities,
+    is_anonymous: false
+  }
+}
+
+/**
+ * 列出全部开发用户
+ */
+export async function listDevUsers(): Promise<User[]> {
+  return (await getSeeds()).map(toUser)
+}
+
+/**
+ * 按 ID 获取开发用户
+ */
+export async function getDevUser(userId: string): Promise<User | null> {
+  const seed = (await getSeeds()).find(item => item.id === userId)
+  return seed ? toUser(seed) : null
+}
+
+/**
+ * 按邮箱获取开发用户
+ */
+async function findSeedByEmail(email: string) {
+  return (await getSeeds()).find(item => item.email === email.trim().toLowerCase()) || null
+}
+
+/**
+ * 为用户创建会话并签发访问令牌
+ * 访问令牌与 Supabase 签发的 HS256 令牌格式一致，由 SUPABASE_JWT_SECRET（开发模式默认值）签名
+ */
+async function createSession(userId: string, provider: string, method: string): Promise<Session | null> {
+  const now = new Date().toISOString()
+  const providers = signIns.get(userId) || new Map<string, string>()
+  providers.set(provider, now)
+  signIns.set(userId, providers)
+
+  const user = await getDevUser(userId)
+  if (!user) {
+    return null
+  }
+
+  const session: DevSession = {
+    id: randomUUID(),
+    userId,
+    provider,
+    method,
+    refreshToken: randomBytes(24).toString('base64url'),
+    revoked: false
+  }
+  sessions.set(session.id, session)
+  refreshTokens.set(session.refreshToken, session.id)
+
+  return issueTokens(session, user)
+}
+
+/**
+ * 签发访问令牌并组装 Supabase 会话对象
+ */
+function issueTokens(session: DevSession, user: User): Session {
+  const { supabase } = getConfig()
+  const now = Math.floor(Date.now() / 1000)
+  const accessToken = signJwt({
+    iss: `${supabase.url}/auth/v1`,
+    sub: user.id,
+    aud: 'authenticated',
+    exp: now + ACCESS_TOKEN_TTL,
+    iat: now,
+    email: user.email,
+    phone: '',
+    app_metadata: user.app_metadata,
+    user_metadata: user.user_metadata,
+    role: 'authenticated',
+    aal: 'aal1',
+    amr: [{ method: session.method, timestamp: now }],
+    session_id: session.id,
+    is_anonymous: false
+  }, supabase.jwtSecret!, { alg: 'HS256' })
+
+  return {
+    access_token: accessToken,
+    refresh_token: session.refreshToken,
+    token_type: 'bearer',
+    expires_in: ACCESS_TOKEN_TTL,
+    expires_at: now + ACCESS_TOKEN_TTL,
+    user
+  }
+}
+
+/**
+ * 使用邮箱与密码登录
+ * @returns 会话，邮箱或密码错误时返回 null
+ */
+export async function signInDevUserWithPassword(email: string, password: string): Promise<Session | null> {
+  const seed = await findSeedByEmail(email)
+  if (!seed) {
+    return null
+  }
+  const expected = overrides.get(seed.id)?.password || seed.password || DEFAULT_PASSWORD
+  if (hashToken(password) !== hashToken(expected)) {
+    return null
+  }
+  return createSession(seed.id, 'email', 'password')
+}
+
+/**
+ * 创建模拟第三方登录的授权码
+ * @param userId - 在同意页面选择的用户
+ * @param provider - 模拟的提供商
+ * @param codeChallenge - PKCE code_challenge
+ * @param codeChallengeMethod - s256 或 plain
+ */
+export function createDevAuthorizationCode(
+  userId: string,
+  provider: string,
+  codeChallenge: string | null,
+  codeChallengeMethod: string | null
+): string {
+  const code = randomUUID()
+  authorizationCodes.set(code, {
+    userId,
+    provider,
+    codeChallenge,
+    codeChallengeMethod,
+    expiresAt: Date.now() + AUTHORIZATION_CODE_TTL
+  })
+  return code
+}
+
+/**
+ * 使用授权码与 PKCE code_verifier 换取会话
+ * 授权码只能使用一次
+ */
+export async function exchangeDevAuthorizationCode(code: string, codeVerifier: string): Promise<Session | null> {
+  const entry = authorizationCodes.get(code)
+  authorizationCodes.delete(code)
+  if (!entry || entry.expiresAt <= Date.now()) {
+    return null
+  }
+
+  if (entry.codeChallenge) {
+    const computed = entry.codeChallengeMethod?.toLowerCase() === 'plain'
+      ? codeVerifier
+      : createHash('sha256').update(codeVerifier).digest('base64url')
+    if (computed !== entry.codeChallenge) {
+      return null
+    }
+  }
+
+  return createSession(entry.userId, entry.provider, 'oauth')
+}
+
+/**
+ * 使用刷新令牌换取新会话
+ * 刷新令牌轮换，旧令牌随即失效
+ */
+export async function refreshDevSession(refreshToken: string): Promise<Session | null> {
+  const sessionId = refreshTokens.get(refreshToken)
+  const session = sessionId ? sessions.get(sessionId) : null
+  refreshTokens.delete(refreshToken)
+  if (!session || session.revoked) {
+    return null
+  }
+
+  const user = await getDevUser(session.userId)
+  if (!user) {
+    return null
+  }
+
+  session.refreshToken = randomBytes(24).toString('base64url')
+  refreshTokens.set(session.refreshToken, session.id)
+  return issueTokens(session, user)
+}
+
+/**
+ * 校验访问令牌并返回对应的会话与用户
+ * 令牌签名无效、已过期或会话已登出时返回 null
+ */
+export async function getDevSessionUser(accessToken: string): Promise<{ sessionId: string; user: User } | null> {
+  const jwt = decodeJwt(accessToken)
+  const secret = getConfig().supabase.jwtSecret
+  if (!jwt || !secret || !verifyJwtSignature(jwt, secret) || !isJwtTimeValid(jwt.payload)) {
+    return null
+  }
+
+  const session = sessions.get(String(jwt.payload.session_id))
+  if (!session || session.revoked) {
+    return null
+  }
+
+  const user = await getDevUser(session.userId)
+  return user ? { sessionId: session.id, user } : null
+}
+
+/**
+ * 登出
+ * @param accessToken - 当前会话的访问令牌
+ * @param scope - local 只登出当前会话，global 登出该用户全部会话，others 登出其他会话
+ */
+export async function signOutDevSession(accessToken: string, scope: 'global' | 'local' | 'others') {
+  const current = await getDevSessionUser(accessToken)
+  if (!current) {
+    return
+  }
+
+  sessions.forEach(session => {
+    const isCurrent = session.id === current.sessionId
+    if (session.userId !== current.user.id || (scope === 'local' && !isCurrent) || (scope === 'others' && isCurrent)) {
+      return
+    }
+    session.revoked = true
+    refreshTokens.delete(session.refreshToken)
+  })
+}
+
+/**
+ * 创建邮件登录或重置密码使用的验证码
+ * 开发模式不发送邮件，调用方将链接与验证码写入日志
+ * @returns 6 位验证码与链接使用的 token_hash，邮箱未注册时返回 null
+ */
+export async function createDevEmailToken(
+  email: string,
+  type: DevEmailTokenType
+): Promise<{ otp: string; tokenHash: string } | null> {
+  const seed = await findSeedByEmail(email)
+  if (!seed) {
+    return null
+  }
+
+  const otp = String(randomInt(0, 1000000)).padStart(6, '0')
+  const tokenHash = randomBytes(24).toString('hex')
+  emailTokens.set(tokenHash, { userId: seed.id, type, otp, expiresAt: Date.now() + EMAIL_TOKEN_TTL })
+  return { otp, tokenHash }
+}
+
+/**
+ * 校验邮件链接中的 token_hash，或邮箱与 6 位验证码
+ * 校验成功后验证码失效；重置密码链接换取的会话 amr 为 recovery
+ */
+export async function verifyDevEmailToken(
+  params: { tokenHash: string } | { email: string; otp: string },
+  type: string
+): Promise<Session | null> {
+  let key: string | null = null
+  if ('tokenHash' in params) {
+    key = emailTokens.has(params.tokenHash) ? params.tokenHash : null
+  } else {
+    const seed = await findSeedByEmail(params.email)
+    emailTokens.forEach((entry, tokenHash) => {
+      if (seed && entry.userId === seed.id && entry.otp === params.otp) {
+        key = tokenHash
+      }
+    })
+  }
+
+  const entry = key ? emailTokens.get(key) : null
+  if (!key || !entry || entry.expiresAt <= Date.now()) {
+    return null
+  }
+  // magiclink 与 email 可以互换使用，重置密码验证码只能用于重置密码
+  if ((entry.type === 'recovery') !== (type === 'recovery')) {
+    return null
+  }
+
+  emailTokens.delete(key)
+  return createSession(entry.userId, 'email', entry.type === 'recovery' ? 'recovery' : 'otp')
+}
+
+/**
+ * 修改开发用户的密码或元数据
+ * 修改只保存在内存中，服务重启后恢复为种子文件中的内容
+ */
+export async function updateDevUser(userId: string, attributes: DevUserOverride): Promise<User | null> {
+  if (!await getDevUser(userId)) {
+    return null
+  }
+
+  const current = overrides.get(userId) || {}
+  overrides.set(userId, {
+    password: attributes.password || current.password,
+    user_metadata: { ...current.user_metadata, ...attributes.user_metadata },
+    app_metadata: { ...current.app_metadata, ...attributes.app_metadata }
+  })
+  return getDevUser(userId)
+}
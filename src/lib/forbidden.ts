@@ -0,0 +1,71 @@
+import type { AccessDecision } from './policy'
+import { getConfig } from './config'
+
+// 拒绝原因说明
+const REASON_MESSAGES: Record<AccessDecision['reason'], string> = {
+  no_policy: '当前未配置访问策略。',
+  default_allow: '该应用未配置访问规则。',
+  default_deny: '该应用未在访问策略中登记，默认拒绝访问。',
+  rule_matched: '您符合该应用的访问规则。',
+  rule_not_matched: '您的账户不在该应用允许访问的用户、邮箱域或角色范围内。',
+  policy_error: '访问策略加载失败，已暂时拒绝所有访问，请联系管理员。',
+  token_scope_mismatch: '该访问令牌不允许访问此应用。',
+  mfa_required: '该应用要求完成多因素认证，访问令牌与应用密码无法访问。',
+  provider_not_allowed: '该应用要求使用指定的方式登录，请切换账户后使用对应的登录方式重新登录。'
+}
+
+/**
+ * 转义 HTML 特殊字符
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+/**
+ * 生成 403 拒绝访问页面
+ * 该页面由反向代理直接返回给用户，因此使用内联样式而非站点样式表
+ * @param decision - 策略判断结果
+ * @param email - 当前登录用户邮箱
+ * @param originalUrl - 原始请求 URL
+ * @returns HTML 字符串
+ */
+export function renderForbiddenPage(decision: AccessDecision, email: string, originalUrl: string): string {
+  const baseUrl = getConfig().appUrl
+  const dashboardUrl = new URL('/dashboard', baseUrl).toString()
+
+  // 切换账户：登出后回到登录页，登录成功再跳回原始地址
+  const loginUrl = new URL('/login', baseUrl)
+  loginUrl.searchParams.set('redirect', originalUrl)
+  const switchAccountUrl = new URL('/api/auth/logout', baseUrl)
+  switchAccountUrl.searchParams.set('redirect', `${loginUrl.pathname}${loginUrl.search}`)
+
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>403 - 无权访问</title>
+</head>
+<body style="margin:0;min-height:100vh;display:flex;align-items:center;justify-content:center;background:#f9fafb;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',sans-serif;color:#111827">
+<div style="max-width:480px;width:100%;margin:24px;background:#fff;border-radius:16px;box-shadow:0 10px 25px rgba(0,0,0,.08);padding:32px">
+<h1 style="font-size:20px;margin:0 0 8px">无权访问该应用</h1>
+<p style="font-size:14px;color:#4b5563;margin:0 0 16px">${escapeHtml(REASON_MESSAGES[decision.reason])}</p>
+<dl style="font-size:13px;background:#f3f4f6;border-radius:8px;padding:12px 16px;margin:0 0 24px">
+<dt style="color:#6b7280">当前账户</dt>
+<dd style="margin:0 0 8px;word-break:break-all">${escapeHtml(email || '未知')}</dd>
+<dt style="color:#6b7280">访问地址</dt>
+<dd style="margin:0;word-break:break-all">${escapeHtml(decision.host + decision.path)}</dd>
+</dl>
+<div style="display:flex;gap:12px">
+<a href="${escapeHtml(switchAccountUrl.toString())}" style="flex:1;text-align:center;padding:10px;border-radius:8px;background:#2563eb;color:#fff;text-decoration:none;font-size:14px">切换账户</a>
+<a href="${escapeHtml(dashboardUrl)}" style="flex:1;text-align:center;padding:10px;border-radius:8px;border:1px solid #d1d5db;color:#374151;text-decoration:none;font-size:14px">返回仪表板</a>
+</div>
+</div>
+</body>
+</html>`
+}
@@ -0,0 +1,368 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession, generateLoginUrl, generateStepUpUrl, refreshSession, readAuthCookie, setAuthCookie, getAuthCookieName, getBearerToken, getBasicCredentials, getSessionLoginProvider } from './auth'
+import { isPersonalAccessToken } from './personal-access-tokens'
+import { createRateLimiter } from './rate-limit'
+import { isChunkOf } from './cookie-chunks'
+import { evaluateAccess, getMatchedHost, isBasicAuthEnabled, type AccessDecision } from './policy'
+import { renderForbiddenPage } from './forbidden'
+import { createIdentityAssertion, type AssertionUser } from './identity-assertion'
+import { getClientIp, wantsHtml, wantsJson, type ProxyAdapter } from './proxy'
+import { isFrontchannelLogoutTarget } from './single-logout'
+import { recordAuditEvent, type AuditEventInput } from './audit'
+import { getSessionAal } from './mfa'
+import { requestLogger, type Logger } from './logger'
+import { forwardAuthDuration, forwardAuthRequests, type ForwardAuthDecision } from './metrics'
+
+// Basic 认证失败限流：每个 IP 与每个用户名在 15 分钟内允许的失败次数
+const BASIC_AUTH_WINDOW = 15 * 60 * 1000
+const basicAuthIpLimiter = createRateLimiter({ limit: 20, windowMs: BASIC_AUTH_WINDOW })
+const basicAuthUserLimiter = createRateLimiter({ limit: 10, windowMs: BASIC_AUTH_WINDOW })
+
+/**
+ * 生成 HTTP Basic 认证质询响应
+ * @param host - 被访问应用的主机名，用作 realm
+ * @returns 401 响应
+ */
+function basicChallengeResponse(host: string) {
+  return new NextResponse(null, {
+    status: 401,
+    headers: {
+      'WWW-Authenticate': `Basic realm="${host.replace(/"/g, '')}", charset="UTF-8"`,
+      'Cache-Control': 'no-store'
+    }
+  })
+}
+
+/**
+ * 生成 Basic 认证失败次数过多时的响应
+ * @param retryAfter - 距离解除限制的秒数
+ * @returns 429 响应
+ */
+function tooManyAttemptsResponse(retryAfter: number) {
+  return NextResponse.json(
+    { error: 'too_many_attempts' },
+    { status: 429, headers: { 'Retry-After': String(retryAfter), 'Cache-Control': 'no-store' } }
+  )
+}
+
+/**
+ * 生成拒绝访问响应
+ * @param request - Next.js 请求对象
+ * @param decision - 策略判断结果
+ * @param email - 当前用户邮箱
+ * @param originalUrl - 原始请求 URL
+ * @param log - 带有请求 ID 的日志记录器
+ * @returns 403 响应
+ */
+function forbiddenResponse(request: NextRequest, decision: AccessDecision, email: string, originalUrl: string, log: Logger) {
+  log.info('ForwardAuth access denied', { email, host: decision.host, path: decision.path, reason: decision.reason })
+
+  if (wantsJson(request)) {
+    return NextResponse.json(
+      { error: 'forbidden', reason: decision.reason, host: decision.host, path: decision.path },
+      { status: 403, headers: { 'Cache-Control': 'no-store' } }
+    )
+  }
+
+  return new NextResponse(renderForbiddenPage(decision, email, originalUrl), {
+    status: 403,
+    headers: {
+      'Content-Type': 'text/html; charset=utf-8',
+      'Cache-Control': 'no-store'
+    }
+  })
+}
+
+/**
+ * 设置传递给后端应用的用户信息头部
+ * X-User-Assertion 为签名的身份断言，后端应用应优先校验它而不是信任明文头部
+ * @param response - ForwardAuth 响应
+ * @param user - 已认证用户
+ * @param audience - 被访问应用的主机名
+ */
+async function setUserHeaders(response: NextResponse, user: AssertionUser, audience: string) {
+  response.headers.set('X-User-Id', user.id)
+  response.headers.set('X-User-Email', user.email || '')
+
+  // 处理用户名，使用 Base64 编码以支持中文字符并避免 ByteString 错误
+  const userName = user.user_metadata?.name || ''
+  const encodedUserName = userName ? Buffer.from(userName, 'utf8').toString('base64') : ''
+  response.headers.set('X-User-Name', encodedUserName)
+  response.headers.set('X-User-Name-Encoding', 'base64') // 标识编码方式
+
+  response.headers.set('X-User-Assertion', await createIdentityAssertion(user, audience))
+}
+
+/**
+ * 生成刷新会话后转发给后端应用的 Cookie 头
+ * 用响应中新写入的认证 Cookie 替换原始请求中的旧认证 Cookie
+ * @param request - Next.js 请求对象
+ * @param response - 已写入新认证 Cookie 的响应
+ * @returns Cookie 头字符串
+ */
+function buildRefreshedCookieHeader(request: NextRequest, response: NextResponse): string {
+  const cookieName = getAuthCookieName()
+
+  const cookies = request.cookies.getAll()
+    .filter(cookie => !isChunkOf(cookie.name, cookieName))
+    .concat(response.cookies.getAll().filter(cookie => cookie.value !== ''))
+
+  return cookies
+    .map(cookie => `${cookie.name}=${encodeURIComponent(cookie.value)}`)
+    .join('; ')
+}
+
+/**
+ * 记录 ForwardAuth 的放行或拒绝
+ * @param request - Next.js 请求对象
+ * @param target - 访问目标与原始请求方法
+ * @param allowed - 是否放行
+ * @param user - 已识别的用户，未认证时为 null
+ * @param details - 判断依据
+ */
+function auditForwardAuth(
+  request: NextRequest,
+  target: { host: string; path: string; method: string },
+  allowed: boolean,
+  user: AuditEventInput['user'],
+  details: Record<string, unknown>
+) {
+  recordAuditEvent({
+    type: allowed ? 'forward_auth.allow' : 'forward_auth.deny',
+    user,
+    host: target.host,
+    path: target.path,
+    method: target.method,
+    request,
+    details
+  })
+}
+
+/**
+ * ForwardAuth 判断结果与响应
+ */
+interface ForwardAuthResult {
+  decision: ForwardAuthDecision
+  response: NextResponse
+}
+
+/**
+ * 判断认证子请求
+ * @param request - Next.js 请求对象
+ * @param proxy - 反向代理适配器
+ * @param target - 访问目标与原始请求方法
+ * @param originalUrl - 原始请求 URL
+ * @param log - 带有请求 ID 的日志记录器
+ */
+async function authorize(
+  request: NextRequest,
+  proxy: ProxyAdapter,
+  target: { host: string; path: string; method: string },
+  originalUrl: string,
+  log: Logger
+): Promise<ForwardAuthResult> {
+  // 启用了 Basic 认证的主机：校验前先检查失败次数限制，并在等待校验结果之前同步计入失败，
+  // 并发的猜测请求同样受限；凭据有效时撤销本次计数
+  const basicAuthEnabled = await isBasicAuthEnabled(target.host)
+  const basicCredentials = basicAuthEnabled ? getBasicCredentials(request) : null
+  const clientIp = getClientIp(request)
+  const basicUserKey = basicCredentials?.username.toLowerCase() || ''
+  if (basicCredentials) {
+    const ipLimit = basicAuthIpLimiter.check(clientIp)
+    const userLimit = basicAuthUserLimiter.check(basicUserKey)
+    if (!ipLimit.allowed || !userLimit.allowed) {
+      log.warn('ForwardAuth basic auth rate limited', { clientIp, username: basicCredentials.username })
+      auditForwardAuth(request, target, false, { email: basicCredentials.username }, { reason: 'rate_limited' })
+      return { decision: 'deny', response: tooManyAttemptsResponse(Math.max(ipLimit.retryAfter, userLimit.retryAfter)) }
+    }
+    basicAuthIpLimiter.hit(clientIp)
+    basicAuthUserLimiter.hit(basicUserKey)
+  }
+
+  // 验证会话
+  const sessionData = await validateSession(request, target)
+  if (basicCredentials && sessionData) {
+    basicAuthIpLimiter.release(clientIp)
+    basicAuthUserLimiter.reset(basicUserKey)
+  }
+
+  if (sessionData) {
+    if (sessionData.access && !sessionData.access.allowed) {
+      // 浏览器会话未完成多因素认证：跳转到二次验证页面而不是拒绝
+      if (sessionData.access.reason === 'mfa_required' && sessionData.method === 'cookie') {
+        auditForwardAuth(request, target, false, sessionData.user, {
+          reason: sessionData.access.reason,
+          rule: sessionData.access.rule,
+          auth: sessionData.method
+        })
+        return { decision: 'redirect', response: proxy.unauthenticated(request, await generateStepUpUrl(originalUrl, log)) }
+      }
+
+      auditForwardAuth(request, target, false, sessionData.user, {
+        reason: sessionData.access.reason,
+        rule: sessionData.access.rule,
+        auth: sessionData.method
+      })
+      return {
+        decision: 'deny',
+        response: forbiddenResponse(request, sessionData.access, sessionData.user.email || '', originalUrl, log)
+      }
+    }
+
+    // 用户已认证，返回 200 并传递用户信息
+    auditForwardAuth(request, target, true, sessionData.user, {
+      reason: sessionData.access?.reason,
+      rule: sessionData.access?.rule,
+      auth: sessionData.method
+    })
+    const response = new NextResponse(null, { status: 200 })
+
+    // 设置用户信息头部，供后端应用使用
+    await setUserHeaders(response, sessionData.user, target.host)
+
+    // 传递原始请求中的 Cookie
+    const cookieHeader = request.headers.get('cookie')
+    if (cookieHeader) {
+      response.headers.set('Cookie', cookieHeader)
+    }
+
+    return { decision: 'allow', response }
+  }
+
+  // 访问令牌过期时，使用认证 Cookie 中的刷新令牌换取新会话
+  const refreshToken = readAuthCookie(request)?.refresh_token
+  if (refreshToken) {
+    const newSession = await refreshSession(refreshToken)
+    if (newSession) {
+      recordAuditEvent({ type: 'session.refresh', user: newSession.user, host: target.host, path: target.path, request })
+      // 刷新后会话 ID 不变，登录方式沿用登录时的记录
+      const access = await evaluateAccess({
+        ...newSession.user,
+        aal: getSessionAal(newSession.access_token),
+        provider: await getSessionLoginProvider(newSession.access_token)
+      }, target)
+      if (access.reason === 'mfa_required') {
+        auditForwardAuth(request, target, false, newSession.user, { reason: access.reason, rule: access.rule, auth: 'cookie' })
+        // 二次验证需要使用刷新后的会话，旧的刷新令牌已失效
+        const response = proxy.unauthenticated(request, await generateStepUpUrl(originalUrl, log))
+        setAuthCookie(response, newSession, request)
+        return { decision: 'redirect', response }
+      }
+      if (!access.allowed) {
+        auditForwardAuth(request, target, false, newSession.user, { reason: access.reason, rule: access.rule, auth: 'cookie' })
+        return { decision: 'deny', response: forbiddenResponse(request, access, newSession.user.email || '', originalUrl, log) }
+      }
+
+      auditForwardAuth(request, target, true, newSession.user, { reason: access.reason, rule: access.rule, auth: 'cookie' })
+      const response = new NextResponse(null, { status: 200 })
+
+      // 写回新的认证 Cookie（Traefik 需要通过 addAuthCookiesToResponse 转发给浏览器）
+      setAuthCookie(response, newSession, request)
+
+      // 设置用户信息头部
+      await setUserHeaders(response, newSession.user, target.host)
+
+      // 传递带有新认证 Cookie 的 Cookie 头
+      response.headers.set('Cookie', buildRefreshedCookieHeader(request, response))
+
+      log.info('ForwardAuth session refreshed', { email: newSession.user.email })
+
+      return { decision: 'refresh', response }
+    }
+
+    recordAuditEvent({ type: 'session.refresh_failure', host: target.host, path: target.path, request })
+  }
+
+  // Basic 凭据无效：失败已在校验前计入，重新质询
+  if (basicCredentials) {
+    log.warn('ForwardAuth basic auth failed', { clientIp, username: basicCredentials.username })
+    auditForwardAuth(request, target, false, { email: basicCredentials.username }, { reason: 'invalid_credentials', auth: 'app_password' })
+    return { decision: 'deny', response: basicChallengeResponse(target.host) }
+  }
+
+  // 启用了 Basic 认证的主机：非浏览器客户端收到质询，浏览器仍跳转到登录页
+  if (basicAuthEnabled && !wantsHtml(request)) {
+    return { decision: 'deny', response: basicChallengeResponse(target.host) }
+  }
+
+  // 个人访问令牌无效时直接返回 401，机器客户端无法完成浏览器登录
+  const bearerToken = getBearerToken(request)
+  if (bearerToken && isPersonalAccessToken(bearerToken)) {
+    auditForwardAuth(request, target, false, null, { reason: 'invalid_token', auth: 'personal_access_token' })
+    return {
+      decision: 'deny',
+      response: NextResponse.json(
+        { error: 'invalid_token' },
+        {
+          status: 401,
+          headers: {
+            'WWW-Authenticate': 'Bearer error="invalid_token"',
+            'Cache-Control': 'no-store'
+          }
+        }
+      )
+    }
+  }
+
+  // 前端通道登出地址在用户登出后加载，此时已没有会话，直接放行且不传递用户信息
+  if (await isFrontchannelLogoutTarget(target)) {
+    return { decision: 'allow', response: new NextResponse(null, { status: 200 }) }
+  }
+
+  // 用户未认证，交由代理适配器生成登录响应
+  auditForwardAuth(request, target, false, null, { reason: 'unauthenticated' })
+  return { decision: 'redirect', response: proxy.unauthenticated(request, await generateLoginUrl(originalUrl, log)) }
+}
+
+/**
+ * 处理反向代理的认证子请求
+ * 每个请求按判断结果记录请求数与耗时指标
+ * @param request - Next.js 请求对象
+ * @param proxy - 反向代理适配器
+ * @returns 200 表示已认证，未认证时的响应由代理适配器决定，403 表示访问策略拒绝
+ */
+export async function handleForwardAuth(request: NextRequest, proxy: ProxyAdapter) {
+  const stopTimer = forwardAuthDuration.startTimer()
+  const log = requestLogger(request)
+
+  // 获取原始请求的 URL
+  // 无法还原时拒绝访问，不以认证服务自身的主机代替被访问的应用判断访问策略
+  const original = proxy.resolveOriginalRequest(request)
+  if (!original) {
+    log.warn('ForwardAuth request without original URL', { proxy: proxy.name })
+    forwardAuthRequests.inc({ proxy: proxy.name, host: 'other', decision: 'deny' })
+    stopTimer({ proxy: proxy.name, decision: 'deny' })
+    return NextResponse.json(
+      { error: 'invalid_request' },
+      { status: 403, headers: { 'Cache-Control': 'no-store' } }
+    )
+  }
+  const originalUrl = original.url
+
+  // 访问目标，用于访问策略判断
+  const target = {
+    host: original.host,
+    path: original.path,
+    method: original.method
+  }
+
+  let result: ForwardAuthResult
+  try {
+    log.debug('ForwardAuth request', { proxy: proxy.name, method: target.method, url: originalUrl })
+    result = await authorize(request, proxy, target, originalUrl, log)
+  } catch (error) {
+    log.error('ForwardAuth error', { proxy: proxy.name, url: originalUrl, error })
+
+    // 发生错误时按未认证处理
+    result = {
+      decision: 'redirect',
+      response: proxy.unauthenticated(request, await generateLoginUrl(originalUrl, log))
+    }
+  }
+
+  // 主机标签取匹配的规则，X-Forwarded-Host 由客户端控制，不能直接作为标签
+  const host = await getMatchedHost(target.host).catch(() => null)
+  forwardAuthRequests.inc({ proxy: proxy.name, host: host || 'other', decision: result.decision })
+  stopTimer({ proxy: proxy.name, decision: result.decision })
+  return result.response
+}
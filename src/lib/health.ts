@@ -0,0 +1,130 @@
+import { getConfig, getConfigIssues, type ConfigIssue } from './config'
+import { logger } from './logger'
+import { recordSupabaseError } from './metrics'
+import { checkDirectory } from './ldap-backend'
+
+/**
+ * 单项检查结果
+ */
+export interface HealthCheck {
+  status: 'ok' | 'error'
+  // 检查耗时（毫秒）
+  latencyMs?: number
+  error?: string
+}
+
+/**
+ * 就绪检查结果
+ */
+export interface ReadinessReport {
+  status: 'ok' | 'error'
+  checks: {
+    config: HealthCheck & { issues: ConfigIssue[] }
+    supabase_auth: HealthCheck
+    supabase_admin: HealthCheck
+    // 配置 LDAP_URL 时检查目录
+    ldap?: HealthCheck
+  }
+}
+
+// 单次 Supabase 检查的超时时间（毫秒）
+const CHECK_TIMEOUT = 3000
+// 检查结果缓存时间（毫秒），避免频繁的健康检查反复请求 Supabase
+const REPORT_TTL = 5000
+
+let cachedReport: { report: ReadinessReport; checkedAt: number } | null = null
+let pendingReport: Promise<ReadinessReport> | null = null
+
+/**
+ * 请求 Supabase Auth 接口并检查响应状态
+ * 401/403 表示密钥无效，其他非 2xx 状态或网络错误表示服务不可用
+ * @param operation - 检查名称，用于指标
+ * @param path - Auth 接口路径
+ * @param key - 使用的密钥
+ */
+async function checkSupabase(operation: string, path: string, key: string): Promise<HealthCheck> {
+  const start = Date.now()
+  try {
+    const response = await fetch(`${getConfig().supabase.url}/auth/v1${path}`, {
+      headers: { apikey: key, Authorization: `Bearer ${key}` },
+      cache: 'no-store',
+      signal: AbortSignal.timeout(CHECK_TIMEOUT)
+    })
+    const latencyMs = Date.now() - start
+
+    if (response.ok) {
+      return { status: 'ok', latencyMs }
+    }
+    recordSupabaseError(operation, null)
+    const error = response.status === 401 || response.status === 403 ? 'invalid_key' : `http_${response.status}`
+    return { status: 'error', latencyMs, error }
+  } catch (error) {
+    recordSupabaseError(operation, error)
+    logger.warn('Supabase health check failed', { operation, error })
+    const timeout = error instanceof Error && error.name === 'TimeoutError'
+    return { status: 'error', latencyMs: Date.now() - start, error: timeout ? 'timeout' : 'unreachable' }
+  }
+}
+
+/**
+ * 检查 LDAP 目录能否连接与以服务账户绑定
+ */
+async function checkLdap(): Promise<HealthCheck> {
+  const start = Date.now()
+  try {
+    await checkDirectory()
+    return { status: 'ok', latencyMs: Date.now() - start }
+  } catch (error) {
+    logger.warn('LDAP health check failed', { error })
+    const invalidKey = error instanceof Error && error.name === 'InvalidCredentialsError'
+    return { status: 'error', latencyMs: Date.now() - start, error: invalidKey ? 'invalid_credentials' : 'unreachable' }
+  }
+}
+
+/**
+ * 执行就绪检查
+ * 检查配置、Supabase Auth 的可达性与 anon key、service role key 能否调用 Admin API，以及已配置的 LDAP 目录
+ */
+async function runReadinessChecks(): Promise<ReadinessReport> {
+  const issues = getConfigIssues()
+  const configOk = !issues.some(issue => issue.severity === 'error')
+  const { supabase, ldap } = getConfig()
+
+  const [supabaseAuth, supabaseAdmin] = supabase.url
+    ? await Promise.all([
+        checkSupabase('health_auth', '/health', supabase.anonKey),
+        checkSupabase('health_admin', '/admin/users?page=1&per_page=1', supabase.serviceRoleKey)
+      ])
+    : [{ status: 'error', error: 'not_configured' } as HealthCheck, { status: 'error', error: 'not_configured' } as HealthCheck]
+
+  const checks: ReadinessReport['checks'] = {
+    config: { status: configOk ? 'ok' : 'error', issues },
+    supabase_auth: supabaseAuth,
+    supabase_admin: supabaseAdmin
+  }
+  if (ldap) {
+    checks.ldap = await checkLdap()
+  }
+  const ready = Object.values(checks).every(check => !check || check.status === 'ok')
+  return { status: ready ? 'ok' : 'error', checks }
+}
+
+/**
+ * 获取就绪检查结果
+ * 结果短暂缓存，并发的检查合并为一次
+ */
+export async function checkReadiness(): Promise<ReadinessReport> {
+  if (cachedReport && Date.now() - cachedReport.checkedAt < REPORT_TTL) {
+    return cachedReport.report
+  }
+
+  pendingReport = pendingReport || runReadinessChecks()
+    .then(report => {
+      cachedReport = { report, checkedAt: Date.now() }
+      return report
+    })
+    .finally(() => {
+      pendingReport = null
+    })
+  return pendingReport
+}
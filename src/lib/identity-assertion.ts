@@ -0,0 +1,51 @@
+import { randomUUID } from 'crypto'
+import type { UserAppMetadata, UserMetadata } from '@supabase/supabase-js'
+import { signJwt } from './jwt'
+import { getSigningKey } from './identity-keys'
+import { getUserRoles } from './policy'
+import { getConfig } from './config'
+
+// 身份断言有效期（秒），可通过 IDENTITY_ASSERTION_TTL 配置
+const ASSERTION_TTL = getConfig().identityAssertionTtl
+
+/**
+ * 写入身份断言的用户信息
+ */
+export interface AssertionUser {
+  id: string
+  email?: string
+  app_metadata: UserAppMetadata
+  user_metadata: UserMetadata
+}
+
+/**
+ * 获取身份断言的签发者
+ */
+export function getAssertionIssuer(): string {
+  return getConfig().appUrl
+}
+
+/**
+ * 为后端应用签发短期身份断言
+ * 后端应用应使用 /.well-known/jwks.json 中的公钥校验签名，并校验 aud 为自身主机名
+ * @param user - 已认证用户
+ * @param audience - 受众，即被访问应用的主机名
+ * @returns 签名后的 JWT
+ */
+export async function createIdentityAssertion(user: AssertionUser, audience: string): Promise<string> {
+  const key = await getSigningKey()
+  const now = Math.floor(Date.now() / 1000)
+
+  return signJwt({
+    iss: getAssertionIssuer(),
+    sub: user.id,
+    aud: audience,
+    iat: now,
+    nbf: now,
+    exp: now + ASSERTION_TTL,
+    jti: randomUUID(),
+    email: user.email || '',
+    name: user.user_metadata?.name || '',
+    roles: getUserRoles(user)
+  }, key.privateKey, { alg: key.alg, kid: key.kid })
+}
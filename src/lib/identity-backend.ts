@@ -0,0 +1,104 @@
+import type { Session, User } from '@supabase/supabase-js'
+import { decodeJwt, type JwtPayload } from './jwt'
+import { supabaseBackend } from './supabase-backend'
+import { ldapBackend } from './ldap-backend'
+import { getConfig } from './config'
+
+/**
+ * 密码登录结果
+ * 后端拒绝登录时 session 为 null，error 为错误码（如 invalid_credentials）
+ * 后端不可用等错误以异常抛出，不计入登录失败次数
+ */
+export interface PasswordSignInResult {
+  session: Session | null
+  error?: string
+}
+
+/**
+ * 身份后端
+ * 负责校验用户凭据、签发与校验会话令牌以及查找用户
+ * 会话以 Supabase 会话的格式写入认证 Cookie，ForwardAuth 与访问策略无需区分后端
+ */
+export interface IdentityBackend {
+  // 后端标识，同时作为会话的登录方式（provider）
+  readonly id: string
+  // 会话是否记录在 Supabase 会话表中，支持会话列表、远程吊销与登录方式记录
+  readonly tracksSessions: boolean
+  /**
+   * 判断访问令牌是否由该后端签发（不校验签名）
+   */
+  issued(payload: JwtPayload): boolean
+  /**
+   * 使用邮箱或用户名与密码登录
+   */
+  authenticate(identifier: string, password: string): Promise<PasswordSignInResult>
+  /**
+   * 校验访问令牌
+   * @returns 校验通过的令牌声明，无效、过期或已登出时返回 null
+   */
+  getSession(accessToken: string): Promise<JwtPayload | null>
+  /**
+   * 使用刷新令牌换取新会话，刷新令牌无效时返回 null
+   */
+  refresh(refreshToken: string): Promise<Session | null>
+  /**
+   * 登出
+   * @param scope - local 只登出当前会话，global 登出该用户全部会话
+   */
+  signOut(accessToken: string, scope: 'local' | 'global'): Promise<void>
+  /**
+   * 按 ID 查找用户，不存在时返回 null
+   */
+  getUser(userId: string): Promise<User | null>
+}
+
+/**
+ * 获取已启用的身份后端
+ * Supabase 始终启用（开发身份模式下指向本服务的模拟接口），配置 LDAP_URL 后启用 LDAP
+ */
+export function getIdentityBackends(): IdentityBackend[] {
+  return getConfig().ldap ? [supabaseBackend, ldapBackend] : [supabaseBackend]
+}
+
+/**
+ * 获取签发该访问令牌的身份后端
+ * 无法识别时交给 Supabase，由其校验后拒绝
+ * @param accessToken - 访问令牌
+ */
+export function getBackendForToken(accessToken: string): IdentityBackend {
+  const payload = decodeJwt(accessToken)?.payload
+  return (payload && getIdentityBackends().find(backend => backend.issued(payload))) || supabaseBackend
+}
+
+/**
+ * 获取用于密码登录的身份后端
+ * 不含 @ 的用户名与 LDAP_EMAIL_DOMAINS 中的邮箱使用 LDAP，其余使用 Supabase
+ * @param identifier - 登录时输入的邮箱或用户名
+ */
+export function getBackendForIdentifier(identifier: string): IdentityBackend {
+  const ldap = getConfig().ldap
+  if (!ldap) {
+    return supabaseBackend
+  }
+  const at = identifier.lastIndexOf('@')
+  if (at === -1 || ldap.emailDomains.includes(identifier.slice(at + 1).toLowerCase())) {
+    return ldapBackend
+  }
+  return supabaseBackend
+}
+
+/**
+ * 按 ID 查找用户
+ * 依次在已启用的身份后端中查找
+ * @param userId - 用户 ID
+ * @returns 用户或 null
+ */
+export async function findUserById(userId: string): Promise<User | null> {
+  for (const backend of getIdentityBackends()) {
+    const user = await backend.getUser(userId)
+    if (user) {
+      return user
+    }
+  }
+  return null
+}
@@ -0,0 +1,98 @@
+import { createPrivateKey, createPublicKey, generateKeyPairSync, type JsonWebKey, type KeyObject } from 'crypto'
+import { createConfigFileLoader } from './config-file'
+import { logger } from './logger'
+
+/**
+ * 签名密钥文件中的单个密钥
+ * privateKey 为 PEM 格式私钥
+ */
+interface IdentityKeyConfig {
+  kid: string
+  alg: 'ES256' | 'RS256'
+  privateKey: string
+}
+
+/**
+ * 已加载的签名密钥
+ */
+export interface IdentityKey {
+  kid: string
+  alg: 'ES256' | 'RS256'
+  privateKey: KeyObject
+  publicKey: KeyObject
+}
+
+/**
+ * 对外发布的公钥
+ */
+export interface PublicJwk extends JsonWebKey {
+  kid: string
+  alg: string
+  use: 'sig'
+}
+
+/**
+ * 加载签名密钥文件，文件修改后自动重新加载
+ * 列表中的第一个密钥用于签名，其余密钥仅用于发布，便于密钥轮换
+ */
+const loadKeyFile = createConfigFileLoader<IdentityKey[]>({
+  name: 'Identity signing keys',
+  envVar: 'IDENTITY_KEYS_FILE',
+  defaultPath: 'config/identity-keys.json',
+  parse: data => {
+    const { keys = [] } = data as { keys?: IdentityKeyConfig[] }
+    return keys.map(key => {
+      if (!key.kid || (key.alg !== 'ES256' && key.alg !== 'RS256')) {
+        throw new Error(`Invalid identity key: ${key.kid || '(missing kid)'}`)
+      }
+      const privateKey = createPrivateKey(key.privateKey)
+      return { kid: key.kid, alg: key.alg, privateKey, publicKey: createPublicKey(privateKey) }
+    })
+  }
+})
+
+let ephemeralKey: IdentityKey | null = null
+
+/**
+ * 未配置密钥文件时生成的临时密钥
+ * 服务重启后失效，仅适用于开发环境
+ */
+function getEphemeralKey(): IdentityKey {
+  if (!ephemeralKey) {
+    logger.warn('No identity signing keys configured, using an ephemeral key')
+    const { privateKey, publicKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' })
+    ephemeralKey = { kid: `ephemeral-${Date.now()}`, alg: 'ES256', privateKey, publicKey }
+  }
+  return ephemeralKey
+}
+
+/**
+ * 获取全部有效的签名密钥
+ * @returns 密钥列表，第一个为当前签名密钥
+ */
+export async function getIdentityKeys(): Promise<IdentityKey[]> {
+  const { value } = await loadKeyFile()
+  return value && value.length > 0 ? value : [getEphemeralKey()]
+}
+
+/**
+ * 获取当前签名密钥
+ */
+export async function getSigningKey(): Promise<IdentityKey> {
+  return (await getIdentityKeys())[0]
+}
+
+/**
+ * 获取以 JWKS 格式发布的公钥列表
+ */
+export async function getPublicJwks(): Promise<{ keys: PublicJwk[] }> {
+  const keys = await getIdentityKeys()
+  return {
+    keys: keys.map(key => ({
+      ...key.publicKey.export({ format: 'jwk' }),
+      kid: key.kid,
+      alg: key.alg,
+      use: 'sig'
+    }))
+  }
+}
@@ -0,0 +1,164 @@
+import { createHmac, timingSafeEqual, sign, verify, type KeyObject } from 'crypto'
+
+/**
+ * JWT 头部
+ */
+export interface JwtHeader {
+  alg: string
+  typ?: string
+  kid?: string
+}
+
+/**
+ * JWT 载荷
+ */
+export interface JwtPayload {
+  iss?: string
+  sub?: string
+  aud?: string | string[]
+  exp?: number
+  nbf?: number
+  iat?: number
+  [key: string]: unknown
+}
+
+/**
+ * 解码后的 JWT
+ */
+export interface DecodedJwt {
+  header: JwtHeader
+  payload: JwtPayload
+  signingInput: string
+  signature: Buffer
+}
+
+/**
+ * Base64URL 编码
+ */
+export function base64UrlEncode(input: Buffer | string): string {
+  return Buffer.from(input).toString('base64url')
+}
+
+/**
+ * Base64URL 解码
+ */
+export function base64UrlDecode(input: string): Buffer {
+  return Buffer.from(input, 'base64url')
+}
+
+/**
+ * 解码 JWT（不校验签名）
+ * @param token - JWT 字符串
+ * @returns 解码结果，格式错误时返回 null
+ */
+export function decodeJwt(token: string): DecodedJwt | null {
+  const parts = token.split('.')
+  if (parts.length !== 3) {
+    return null
+  }
+
+  try {
+    const header = JSON.parse(base64UrlDecode(parts[0]).toString('utf8')) as JwtHeader
+    const payload = JSON.parse(base64UrlDecode(parts[1]).toString('utf8')) as JwtPayload
+    if (!header || typeof header.alg !== 'string' || !payload || typeof payload !== 'object') {
+      return null
+    }
+
+    return {
+      header,
+      payload,
+      signingInput: `${parts[0]}.${parts[1]}`,
+      signature: base64UrlDecode(parts[2])
+    }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * 校验 JWT 签名
+ * 支持 HS256（共享密钥）以及 RS256 / ES256（公钥）
+ * @param jwt - 解码后的 JWT
+ * @param key - HS256 使用的密钥字符串，或 RS256/ES256 使用的公钥
+ * @returns 签名是否有效
+ */
+export function verifyJwtSignature(jwt: DecodedJwt, key: string | KeyObject): boolean {
+  const data = Buffer.from(jwt.signingInput)
+
+  switch (jwt.header.alg) {
+    case 'HS256': {
+      if (typeof key !== 'string') {
+        return false
+      }
+      const expected = createHmac('sha256', key).update(data).digest()
+      return expected.length === jwt.signature.length && timingSafeEqual(expected, jwt.signature)
+    }
+    case 'RS256':
+      if (typeof key === 'string') {
+        return false
+      }
+      return verify('sha256', data, key, jwt.signature)
+    case 'ES256':
+      if (typeof key === 'string') {
+        return false
+      }
+      return verify('sha256', data, { key, dsaEncoding: 'ieee-p1363' }, jwt.signature)
+    default:
+      return false
+  }
+}
+
+/**
+ * 校验 JWT 的时间相关声明
+ * @param payload - JWT 载荷
+ * @param now - 当前时间（秒）
+ * @returns 是否在有效期内
+ */
+export function isJwtTimeValid(payload: JwtPayload, now = Math.floor(Date.now() / 1000)): boolean {
+  if (typeof payload.exp !== 'number' || payload.exp <= now) {
+    return false
+  }
+  if (typeof payload.nbf === 'number' && payload.nbf > now) {
+    return false
+  }
+  return true
+}
+
+/**
+ * 签发 JWT
+ * @param payload - JWT 载荷
+ * @param key - HS256 使用的密钥字符串，或 RS256/ES256 私钥
+ * @param header - JWT 头部（需包含 alg，建议包含 kid）
+ * @returns JWT 字符串
+ */
+export function signJwt(payload: JwtPayload, key: string | KeyObject, header: JwtHeader): string {
+  const encodedHeader = base64UrlEncode(JSON.stringify({ typ: 'JWT', ...header }))
+  const encodedPayload = base64UrlEncode(JSON.stringify(payload))
+  const data = Buffer.from(`${encodedHeader}.${encodedPayload}`)
+
+  let signature: Buffer
+  switch (header.alg) {
+    case 'HS256':
+      if (typeof key !== 'string') {
+        throw new Error('HS256 requires a shared secret')
+      }
+      signature = createHmac('sha256', key).update(data).digest()
+      break
+    case 'RS256':
+      if (typeof key === 'string') {
+        throw new Error('RS256 requires a private key')
+      }
+      signature = sign('sha256', data, key)
+      break
+    case 'ES256':
+      if (typeof key === 'string') {
+        throw new Error('ES256 requires a private key')
+      }
+      signature = sign('sha256', data, { key, dsaEncoding: 'ieee-p1363' })
+      break
+    default:
+      throw new Error(`Unsupported JWT algorithm: ${header.alg}`)
+  }
+
+  return `${encodedHeader}.${encodedPayload}.${base64UrlEncode(signature)}`
+}
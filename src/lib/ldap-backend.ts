@@ -0,0 +1,509 @@
+import { randomUUID } from 'crypto'
+import { Client, InvalidCredentialsError, type Entry } from 'ldapts'
+import type { Session, User } from '@supabase/supabase-js'
+import type { IdentityBackend } from './identity-backend'
+import { createConfigFileLoader } from './config-file'
+import { decodeJwt, isJwtTimeValid, signJwt, verifyJwtSignature, type JwtPayload } from './jwt'
+import { logger } from './logger'
+import { ldapErrors } from './metrics'
+import { getConfig, type AppConfig } from './config'
+
+type LdapConfig = NonNullable<AppConfig['ldap']>
+
+// 访问令牌有效期（秒），刷新时重新读取目录中的组与账户状态
+// 登出记录只保存在本实例内存中，其他实例上已登出的访问令牌在到期前仍然有效，因此比 Supabase 默认的 1 小时短
+const ACCESS_TOKEN_TTL = 300
+
+// 读取的用户属性，兼容 OpenLDAP（inetOrgPerson）与 Active Directory
+const USER_ATTRIBUTES = [
+  'entryUUID',
+  'objectGUID',
+  'mail',
+  'userPrincipalName',
+  'uid',
+  'sAMAccountName',
+  'cn',
+  'displayName',
+  'memberOf',
+  'userAccountControl'
+]
+
+// Active Directory userAccountControl 中的 ACCOUNTDISABLE 位
+const AD_ACCOUNT_DISABLED = 0x2
+
+/**
+ * 目录中的用户与其所属组
+ */
+interface DirectoryUser {
+  entry: Entry
+  // 所属组的 DN
+  groups: string[]
+}
+
+// 本实例登出的会话，键为会话 ID，值为会话到期时间（毫秒）
+// LDAP 会话不写入 Supabase 会话表，登出记录不在实例间共享，重启后也会丢失
+const revokedSessions = new Map<string, number>()
+// 全部会话被登出的用户，键为用户 ID，值为登出时间（秒），此前签发的令牌失效
+const revokedUsers = new Map<string, number>()
+
+const loadGroupRoles = createConfigFileLoader<Record<string, string[]>>({
+  name: 'LDAP group roles',
+  envVar: 'LDAP_GROUP_ROLES_FILE',
+  defaultPath: 'config/ldap-group-roles.json',
+  parse: (data) => {
+    const groups = (data as { groups?: unknown }).groups
+    if (!groups || typeof groups !== 'object' || Array.isArray(groups)) {
+      throw new Error('groups must be an object mapping group DNs or names to role arrays')
+    }
+    const mapping: Record<string, string[]> = {}
+    for (const [group, roles] of Object.entries(groups)) {
+      if (!Array.isArray(roles) || roles.some(role => typeof role !== 'string')) {
+        throw new Error(`roles of group ${group} must be an array of strings`)
+      }
+      mapping[group.toLowerCase()] = roles
+    }
+    return mapping
+  }
+})
+
+/**
+ * LDAP 会话令牌的签发者
+ */
+function getLdapIssuer(): string {
+  return `${getConfig().appUrl}/ldap`
+}
+
+/**
+ * 转义 LDAP 过滤器中的值（RFC 4515）
+ */
+function escapeFilter(value: string): string {
+  return value.replace(/[\\*()\0]/g, char => `\\${char.charCodeAt(0).toString(16).padStart(2, '0')}`)
+}
+
+/**
+ * 按名称读取属性值，属性名不区分大小写
+ */
+function getAttribute(entry: Entry, name: string): (string | Buffer)[] {
+  const key = Object.keys(entry).find(item => item.toLowerCase() === name.toLowerCase())
+  if (!key || key === 'dn') {
+    return []
+  }
+  const value = entry[key]
+  return Array.isArray(value) ? value : [value]
+}
+
+/**
+ * 读取属性的第一个字符串值
+ */
+function getString(entry: Entry, ...names: string[]): string | undefined {
+  for (const name of names) {
+    const value = getAttribute(entry, name)[0]
+    if (value !== undefined && value !== '') {
+      return value.toString()
+    }
+  }
+  return undefined
+}
+
+/**
+ * 将 Active Directory 的 objectGUID 转换为 UUID 字符串
+ * 前三段以小端序存储
+ */
+function guidToUuid(guid: Buffer): string {
+  const hex = Buffer.concat([
+    Buffer.from(guid.subarray(0, 4)).reverse(),
+    Buffer.from(guid.subarray(4, 6)).reverse(),
+    Buffer.from(guid.subarray(6, 8)).reverse(),
+    guid.subarray(8, 16)
+  ]).toString('hex')
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`
+}
+
+/**
+ * 生成按用户 ID 查找的过滤器
+ * OpenLDAP 使用 entryUUID，Active Directory 使用二进制的 objectGUID
+ */
+function idFilter(userId: string): string {
+  const hex = userId.replace(/-/g, '')
+  const guid = Buffer.concat([
+    Buffer.from(hex.slice(0, 8), 'hex').reverse(),
+    Buffer.from(hex.slice(8, 12), 'hex').reverse(),
+    Buffer.from(hex.slice(12, 16), 'hex').reverse(),
+    Buffer.from(hex.slice(16), 'hex')
+  ])
+  const escapedGuid = Array.from(guid).map(byte => `\\${byte.toString(16).padStart(2, '0')}`).join('')
+  return `(|(entryUUID=${escapeFilter(userId)})(objectGUID=${escapedGuid}))`
+}
+
+/**
+ * 获取用户的稳定 ID
+ */
+function getUserId(entry: Entry): string | null {
+  const guid = getAttribute(entry, 'objectGUID')[0]
+  if (Buffer.isBuffer(guid) && guid.length === 16) {
+    return guidToUuid(guid)
+  }
+  return getString(entry, 'entryUUID')?.toLowerCase() || null
+}
+
+/**
+ * 判断目录中的账户是否已禁用（Active Directory）
+ */
+function isDisabled(entry: Entry): boolean {
+  const flags = Number(getString(entry, 'userAccountControl') || 0)
+  return (flags & AD_ACCOUNT_DISABLED) !== 0
+}
+
+/**
+ * 连接目录并执行操作，完成后断开连接
+ */
+async function withClient<T>(ldap: LdapConfig, operation: string, fn: (client: Client) => Promise<T>): Promise<T> {
+  const client = new Client({
+    url: ldap.url,
+    timeout: ldap.timeout,
+    connectTimeout: ldap.timeout,
+    tlsOptions: { rejectUnauthorized: ldap.tlsVerify }
+  })
+
+  try {
+    if (ldap.startTls) {
+      await client.startTLS({ rejectUnauthorized: ldap.tlsVerify })
+    }
+    return await fn(client)
+  } catch (error) {
+    if (!(error instanceof InvalidCredentialsError)) {
+      ldapErrors.inc({ operation })
+    }
+    throw error
+  } finally {
+    await client.unbind().catch(() => undefined)
+  }
+}
+
+/**
+ * 以服务账户绑定，未配置服务账户时保持匿名
+ */
+async function bindServiceAccount(client: Client, ldap: LdapConfig) {
+  if (ldap.bindDn) {
+    await client.bind(ldap.bindDn, ldap.bindPassword || '')
+  }
+}
+
+/**
+ * 查找唯一匹配过滤器的用户，并读取其所属组
+ * 匹配到多个用户时视为不存在，避免以错误的账户登录
+ */
+async function findDirectoryUser(client: Client, ldap: LdapConfig, filter: string): Promise<DirectoryUser | null> {
+  const { searchEntries } = await client.search(ldap.baseDn, {
+    scope: 'sub',
+    filter,
+    attributes: USER_ATTRIBUTES,
+    explicitBufferAttributes: ['objectGUID'],
+    sizeLimit: 2
+  })
+
+  if (searchEntries.length !== 1) {
+    if (searchEntries.length > 1) {
+      logger.warn('LDAP user filter matched multiple entries', { filter })
+    }
+    return null
+  }
+
+  const entry = searchEntries[0]
+  return { entry, groups: await findGroups(client, ldap, entry) }
+}
+
+/**
+ * 读取用户所属组
+ * 合并用户的 memberOf 属性（Active Directory、启用 memberof overlay 的 OpenLDAP）与组查找结果
+ */
+async function findGroups(client: Client, ldap: LdapConfig, entry: Entry): Promise<string[]> {
+  const groups = new Set(getAttribute(entry, 'memberOf').map(value => value.toString()))
+
+  const { searchEntries } = await client.search(ldap.groupBaseDn, {
+    scope: 'sub',
+    filter: ldap.groupFilter.replace(/\{\{dn\}\}/g, escapeFilter(entry.dn)),
+    attributes: ['cn']
+  })
+  searchEntries.forEach(group => groups.add(group.dn))
+
+  return Array.from(groups)
+}
+
+/**
+ * 获取组的 CN
+ */
+function getGroupName(dn: string): string {
+  const match = /^cn=((?:\\.|[^,])+)/i.exec(dn)
+  return match ? match[1].replace(/\\(.)/g, '$1') : dn
+}
+
+/**
+ * 将目录组映射为角色
+ * 映射文件的键可以是组的完整 DN 或 CN，不区分大小写
+ */
+async function mapGroupsToRoles(groups: string[]): Promise<string[]> {
+  const { value: mapping } = await loadGroupRoles()
+  if (!mapping) {
+    return []
+  }
+
+  const roles = new Set<string>()
+  for (const group of groups) {
+    const roleList = mapping[group.toLowerCase()] || mapping[getGroupName(group).toLowerCase()] || []
+    roleList.forEach(role => roles.add(role))
+  }
+  return Array.from(roles)
+}
+
+/**
+ * 将目录用户转换为 Supabase 用户对象
+ */
+async function toUser(directoryUser: DirectoryUser, userId: string, lastSignInAt?: string): Promise<User> {
+  const { entry, groups } = directoryUser
+  const now = new Date().toISOString()
+  const email = getString(entry, 'mail', 'userPrincipalName')?.toLowerCase()
+
+  return {
+    id: userId,
+    aud: 'authenticated',
+    role: 'authenticated',
+    email,
+    // 目录中的邮箱由管理员维护，视为已验证
+    email_confirmed_at: email ? now : undefined,
+    phone: '',
+    created_at: now,
+    updated_at: now,
+    last_sign_in_at: lastSignInAt,
+    app_metadata: {
+      provider: ldapBackend.id,
+      providers: [ldapBackend.id],
+      roles: await mapGroupsToRoles(groups),
+      groups: groups.map(getGroupName)
+    },
+    user_metadata: {
+      name: getString(entry, 'displayName', 'cn'),
+      username: getString(entry, 'uid', 'sAMAccountName'),
+      dn: entry.dn
+    },
+    identities: [],
+    is_anonymous: false
+  }
+}
+
+/**
+ * 签发会话
+ * 访问令牌的声明与 Supabase 一致，刷新令牌同样为签名令牌，有效期从首次登录起计算
+ * @param user - 会话用户
+ * @param sessionId - 会话 ID
+ * @param authTime - 首次登录时间（秒）
+ */
+function issueSession(user: User, sessionId: string, authTime: number): Session {
+  const ldap = getConfig().ldap!
+  const issuer = getLdapIssuer()
+  const now = Math.floor(Date.now() / 1000)
+  const sessionExpiresAt = authTime + ldap.sessionTtl
+  const expiresAt = Math.min(now + ACCESS_TOKEN_TTL, sessionExpiresAt)
+
+  const accessToken = signJwt({
+    iss: issuer,
+    sub: user.id,
+    aud: 'authenticated',
+    exp: expiresAt,
+    iat: now,
+    email: user.email,
+    app_metadata: user.app_metadata,
+    user_metadata: user.user_metadata,
+    role: 'authenticated',
+    aal: 'aal1',
+    amr: [{ method: 'password', timestamp: authTime }],
+    session_id: sessionId
+  }, ldap.sessionSecret, { alg: 'HS256' })
+
+  const refreshToken = signJwt({
+    iss: issuer,
+    sub: user.id,
+    typ: 'refresh',
+    exp: sessionExpiresAt,
+    iat: now,
+    auth_time: authTime,
+    session_id: sessionId
+  }, ldap.sessionSecret, { alg: 'HS256' })
+
+  return {
+    access_token: accessToken,
+    refresh_token: refreshToken,
+    token_type: 'bearer',
+    expires_in: expiresAt - now,
+    expires_at: expiresAt,
+    user
+  }
+}
+
+/**
+ * 校验本后端签发的令牌
+ * @param token - 访问令牌或刷新令牌
+ * @param refresh - 是否为刷新令牌
+ */
+function verifyToken(token: string, refresh: boolean): JwtPayload | null {
+  const ldap = getConfig().ldap
+  const jwt = decodeJwt(token)
+  if (!ldap || !jwt || jwt.header.alg !== 'HS256' || !verifyJwtSignature(jwt, ldap.sessionSecret)) {
+    return null
+  }
+
+  const { payload } = jwt
+  if (payload.iss !== getLdapIssuer() || !isJwtTimeValid(payload) || typeof payload.sub !== 'string') {
+    return null
+  }
+  if ((payload.typ === 'refresh') !== refresh) {
+    return null
+  }
+  return isRevoked(payload) ? null : payload
+}
+
+/**
+ * 判断令牌所属会话是否已登出
+ */
+function isRevoked(payload: JwtPayload): boolean {
+  const sessionId = String(payload.session_id)
+  if (revokedSessions.has(sessionId)) {
+    return true
+  }
+  const revokedAt = revokedUsers.get(String(payload.sub))
+  const authTime = Number(payload.auth_time ?? (payload.amr as { timestamp?: number }[] | undefined)?.[0]?.timestamp)
+  return revokedAt !== undefined && authTime <= revokedAt
+}
+
+/**
+ * 清理已到期的登出记录
+ */
+function pruneRevocations() {
+  const now = Date.now()
+  revokedSessions.forEach((expiresAt, sessionId) => {
+    if (expiresAt <= now) {
+      revokedSessions.delete(sessionId)
+    }
+  })
+  const sessionTtl = getConfig().ldap?.sessionTtl || 0
+  revokedUsers.forEach((revokedAt, userId) => {
+    if ((revokedAt + sessionTtl) * 1000 <= now) {
+      revokedUsers.delete(userId)
+    }
+  })
+}
+
+/**
+ * 检查目录是否可用
+ * 连接目录并以服务账户绑定，供就绪检查使用
+ */
+export async function checkDirectory(): Promise<void> {
+  const ldap = getConfig().ldap
+  if (ldap) {
+    await withClient(ldap, 'health', client => bindServiceAccount(client, ldap))
+  }
+}
+
+/**
+ * LDAP/Active Directory 身份后端
+ * 以服务账户查找用户后使用用户的密码绑定校验，目录组按映射文件转换为角色
+ * 会话由本服务以 LDAP_SESSION_SECRET 签名，登出记录只保存在当前实例
+ */
+export const ldapBackend: IdentityBackend = {
+  id: 'ldap',
+  tracksSessions: false,
+
+  issued: payload => !!getConfig().ldap && payload.iss === getLdapIssuer(),
+
+  async authenticate(identifier, password) {
+    const ldap = getConfig().ldap
+    // 空密码会被目录当作匿名绑定而成功，必须在绑定前拒绝
+    if (!ldap || !identifier || !password) {
+      return { session: null, error: 'invalid_credentials' }
+    }
+
+    const filter = ldap.userFilter.replace(/\{\{identifier\}\}/g, escapeFilter(identifier))
+    return withClient(ldap, 'authenticate', async client => {
+      await bindServiceAccount(client, ldap)
+      const found = await findDirectoryUser(client, ldap, filter)
+      const userId = found && getUserId(found.entry)
+      if (!found || !userId) {
+        return { session: null, error: 'invalid_credentials' }
+      }
+
+      try {
+        await client.bind(found.entry.dn, password)
+      } catch (error) {
+        if (error instanceof InvalidCredentialsError) {
+          return { session: null, error: 'invalid_credentials' }
+        }
+        throw error
+      }
+
+      if (isDisabled(found.entry)) {
+        return { session: null, error: 'user_banned' }
+      }
+
+      const now = Math.floor(Date.now() / 1000)
+      const user = await toUser(found, userId, new Date(now * 1000).toISOString())
+      return { session: issueSession(user, randomUUID(), now) }
+    })
+  },
+
+  async getSession(accessToken) {
+    return verifyToken(accessToken, false)
+  },
+
+  async refresh(refreshToken) {
+    const payload = verifyToken(refreshToken, true)
+    const ldap = getConfig().ldap
+    if (!payload || !ldap) {
+      return null
+    }
+
+    // 刷新时重新读取目录，删除、禁用的账户与组的变化在访问令牌到期后生效
+    const found = await withClient(ldap, 'refresh', async client => {
+      await bindServiceAccount(client, ldap)
+      return findDirectoryUser(client, ldap, idFilter(String(payload.sub)))
+    })
+    if (!found || isDisabled(found.entry)) {
+      return null
+    }
+
+    const user = await toUser(found, String(payload.sub))
+    return issueSession(user, String(payload.session_id), Number(payload.auth_time))
+  },
+
+  async signOut(accessToken, scope) {
+    const payload = verifyToken(accessToken, false)
+    if (!payload) {
+      return
+    }
+
+    pruneRevocations()
+    if (scope === 'global') {
+      revokedUsers.set(String(payload.sub), Math.floor(Date.now() / 1000))
+    } else {
+      const authTime = Number((payload.amr as { timestamp?: number }[] | undefined)?.[0]?.timestamp)
+      revokedSessions.set(String(payload.session_id), (authTime + getConfig().ldap!.sessionTtl) * 1000)
+    }
+  },
+
+  async getUser(userId) {
+    const ldap = getConfig().ldap
+    if (!ldap || !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(userId)) {
+      return null
+    }
+
+    try {
+      const found = await withClient(ldap, 'get_user', async client => {
+        await bindServiceAccount(client, ldap)
+        return findDirectoryUser(client, ldap, idFilter(userId.toLowerCase()))
+      })
+      return found && !isDisabled(found.entry) ? toUser(found, userId.toLowerCase()) : null
+    } catch (error) {
+      logger.error('LDAP user lookup error', { userId, error })
+      return null
+    }
+  }
+}
@@ -0,0 +1,124 @@
+import { randomUUID } from 'crypto'
+import { getConfig } from './config'
+
+/**
+ * 日志级别
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+/**
+ * 日志附加字段
+ * Error 对象会被展开为 name、message、stack 等字段
+ */
+export type LogFields = Record<string, unknown>
+
+/**
+ * 结构化日志记录器
+ */
+export interface Logger {
+  debug(message: string, fields?: LogFields): void
+  info(message: string, fields?: LogFields): void
+  warn(message: string, fields?: LogFields): void
+  error(message: string, fields?: LogFields): void
+  // 创建带有固定字段的子记录器，例如请求 ID
+  child(fields: LogFields): Logger
+}
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 }
+
+// 可以沿用的上游请求 ID：长度与字符受限，避免日志注入
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/
+
+const requestIds = new WeakMap<Request, string>()
+
+/**
+ * 将错误对象转换为可以序列化的字段
+ */
+function serializeError(error: Error): LogFields {
+  const serialized: LogFields = { name: error.name, message: error.message }
+  const { code, status } = error as Error & { code?: unknown; status?: unknown }
+  if (code !== undefined) {
+    serialized.code = code
+  }
+  if (status !== undefined) {
+    serialized.status = status
+  }
+  serialized.stack = error.stack
+  return serialized
+}
+
+/**
+ * 输出一条 JSON 日志
+ * warn 与 error 写入标准错误，其余写入标准输出
+ */
+function write(level: LogLevel, message: string, fields: LogFields) {
+  if (LEVEL_ORDER[level] < LEVEL_ORDER[getConfig().logLevel]) {
+    return
+  }
+
+  const entry: LogFields = { time: new Date().toISOString(), level, msg: message }
+  for (const [key, value] of Object.entries(fields)) {
+    if (value !== undefined) {
+      entry[key] = value instanceof Error ? serializeError(value) : value
+    }
+  }
+
+  let line: string
+  try {
+    line = JSON.stringify(entry)
+  } catch {
+    // 字段中存在循环引用等无法序列化的值时只保留消息
+    line = JSON.stringify({ time: entry.time, level, msg: message, requestId: entry.requestId })
+  }
+
+  if (level === 'warn' || level === 'error') {
+    console.error(line)
+  } else {
+    console.log(line)
+  }
+}
+
+/**
+ * 创建日志记录器
+ * @param bindings - 每条日志都带有的字段
+ */
+function createLogger(bindings: LogFields): Logger {
+  const log = (level: LogLevel) => (message: string, fields: LogFields = {}) =>
+    write(level, message, { ...bindings, ...fields })
+
+  return {
+    debug: log('debug'),
+    info: log('info'),
+    warn: log('warn'),
+    error: log('error'),
+    child: (fields: LogFields) => createLogger({ ...bindings, ...fields })
+  }
+}
+
+/**
+ * 全局日志记录器，用于没有请求上下文的模块
+ */
+export const logger = createLogger({})
+
+/**
+ * 获取请求 ID
+ * 沿用反向代理传入的 X-Request-Id，没有时生成新的 ID；同一请求多次调用返回相同的值
+ * @param request - 请求对象
+ */
+export function getRequestId(request: Request): string {
+  let requestId = requestIds.get(request)
+  if (!requestId) {
+    const header = request.headers.get('x-request-id')
+    requestId = header && REQUEST_ID_PATTERN.test(header) ? header : randomUUID()
+    requestIds.set(request, requestId)
+  }
+  return requestId
+}
+
+/**
+ * 获取带有请求 ID 的日志记录器
+ * @param request - 请求对象
+ */
+export function requestLogger(request: Request): Logger {
+  return logger.child({ requestId: getRequestId(request) })
+}
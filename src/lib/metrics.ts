@@ -0,0 +1,224 @@
+import { isAuthApiError } from '@supabase/supabase-js'
+import { logger } from './logger'
+
+/**
+ * 指标标签
+ */
+export type MetricLabels = Record<string, string>
+
+/**
+ * 计数器
+ */
+export interface Counter {
+  inc(labels?: MetricLabels, value?: number): void
+}
+
+/**
+ * 直方图
+ */
+export interface Histogram {
+  observe(labels: MetricLabels, value: number): void
+  // 开始计时，返回的函数在结束时调用并记录经过的秒数
+  startTimer(): (labels: MetricLabels) => void
+}
+
+interface Metric {
+  name: string
+  help: string
+  type: 'counter' | 'histogram'
+  render(): string[]
+}
+
+interface HistogramSeries {
+  labels: MetricLabels
+  buckets: number[]
+  sum: number
+  count: number
+}
+
+// 默认直方图分桶（秒）
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]
+// 每个指标最多保留的标签组合数，防止主机名等标签被任意请求撑大
+const MAX_SERIES = 1000
+
+const metrics: Metric[] = []
+
+/**
+ * 转义标签值
+ */
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')
+}
+
+/**
+ * 生成标签组合的键与文本表示
+ */
+function formatLabels(labels: MetricLabels): string {
+  const entries = Object.keys(labels).sort().map(key => `${key}="${escapeLabelValue(labels[key])}"`)
+  return entries.length > 0 ? `{${entries.join(',')}}` : ''
+}
+
+/**
+ * 检查标签组合数是否超过上限
+ * 超过上限时丢弃新的组合并只提示一次
+ */
+function createSeriesGuard(name: string) {
+  let warned = false
+  return (size: number) => {
+    if (size < MAX_SERIES) {
+      return true
+    }
+    if (!warned) {
+      warned = true
+      logger.warn('Metric series limit reached, new label sets are dropped', { metric: name, limit: MAX_SERIES })
+    }
+    return false
+  }
+}
+
+/**
+ * 创建计数器
+ * 指标只保存在当前实例中，多实例部署时由 Prometheus 分别抓取
+ * @param name - 指标名称，计数器以 _total 结尾
+ * @param help - 说明
+ */
+export function createCounter(name: string, help: string): Counter {
+  const series = new Map<string, { labels: MetricLabels; value: number }>()
+  const canAdd = createSeriesGuard(name)
+
+  metrics.push({
+    name,
+    help,
+    type: 'counter',
+    render: () => Array.from(series.values()).map(({ labels, value }) => `${name}${formatLabels(labels)} ${value}`)
+  })
+
+  return {
+    inc(labels = {}, value = 1) {
+      const key = formatLabels(labels)
+      const current = series.get(key)
+      if (current) {
+        current.value += value
+      } else if (canAdd(series.size)) {
+        series.set(key, { labels, value })
+      }
+    }
+  }
+}
+
+/**
+ * 创建直方图
+ * @param name - 指标名称
+ * @param help - 说明
+ * @param buckets - 分桶上限，升序
+ */
+export function createHistogram(name: string, help: string, buckets: number[] = DEFAULT_BUCKETS): Histogram {
+  const series = new Map<string, HistogramSeries>()
+  const canAdd = createSeriesGuard(name)
+
+  metrics.push({
+    name,
+    help,
+    type: 'histogram',
+    render: () => Array.from(series.values()).flatMap(({ labels, buckets: counts, sum, count }) => [
+      ...buckets.map((bound, index) => `${name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[index]}`),
+      `${name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`,
+      `${name}_sum${formatLabels(labels)} ${sum}`,
+      `${name}_count${formatLabels(labels)} ${count}`
+    ])
+  })
+
+  const observe = (labels: MetricLabels, value: number) => {
+    const key = formatLabels(labels)
+    let current = series.get(key)
+    if (!current) {
+      if (!canAdd(series.size)) {
+        return
+      }
+      current = { labels, buckets: buckets.map(() => 0), sum: 0, count: 0 }
+      series.set(key, current)
+    }
+    buckets.forEach((bound, index) => {
+      if (value <= bound) {
+        current.buckets[index]++
+      }
+    })
+    current.sum += value
+    current.count++
+  }
+
+  return {
+    observe,
+    startTimer() {
+      const start = process.hrtime.bigint()
+      return (labels: MetricLabels) => observe(labels, Number(process.hrtime.bigint() - start) / 1e9)
+    }
+  }
+}
+
+/**
+ * 以 Prometheus 文本格式输出全部指标
+ */
+export function renderMetrics(): string {
+  return metrics
+    .flatMap(metric => [
+      `# HELP ${metric.name} ${metric.help}`,
+      `# TYPE ${metric.name} ${metric.type}`,
+      ...metric.render()
+    ])
+    .join('\n') + '\n'
+}
+
+/**
+ * ForwardAuth 判断结果
+ * allow：放行；refresh：刷新会话后放行；redirect：需要登录或二次验证；deny：拒绝访问
+ */
+export type ForwardAuthDecision = 'allow' | 'refresh' | 'redirect' | 'deny'
+
+export const forwardAuthRequests = createCounter(
+  'auth_forward_auth_requests_total',
+  'ForwardAuth requests by proxy, host and decision'
+)
+
+export const forwardAuthDuration = createHistogram(
+  'auth_forward_auth_duration_seconds',
+  'ForwardAuth request latency by proxy and decision'
+)
+
+export const supabaseErrors = createCounter(
+  'auth_supabase_errors_total',
+  'Failed Supabase API calls by operation'
+)
+
+export const ldapErrors = createCounter(
+  'auth_ldap_errors_total',
+  'Failed LDAP directory operations by operation'
+)
+
+export const redirectRejections = createCounter(
+  'auth_redirect_rejections_total',
+  'Rejected redirect targets by source and reason'
+)
+
+export const loginAttempts = createCounter(
+  'auth_login_attempts_total',
+  'Sign-in attempts by method and outcome'
+)
+
+export const callbackRequests = createCounter(
+  'auth_callback_requests_total',
+  'Sign-in callback requests by outcome'
+)
+
+/**
+ * 记录一次失败的 Supabase 调用
+ * 认证接口返回的 4xx 错误（如刷新令牌失效、密码错误）属于正常的业务结果，不计入
+ * @param operation - 调用名称，如 get_user、refresh_session
+ * @param error - Supabase 返回或抛出的错误
+ */
+export function recordSupabaseError(operation: string, error: unknown) {
+  if (isAuthApiError(error) && error.status < 500) {
+    return
+  }
+  supabaseErrors.inc({ operation })
+}
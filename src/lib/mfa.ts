@@ -0,0 +1,295 @@
+import { randomInt } from 'crypto'
+import { createClient, type Session, type User } from '@supabase/supabase-js'
+import { createSupabaseAdminClient } from './supabase-server'
+import { decodeJwt } from './jwt'
+import { hashToken } from './tokens'
+import type { AuthCookieSession } from './auth'
+import { getConfig } from './config'
+
+// 每次生成的恢复码数量
+const RECOVERY_CODE_COUNT = 10
+// 恢复码字符集，去掉了容易混淆的字符
+const RECOVERY_CODE_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789'
+// 恢复码分组数与每组长度，形如 abcde-fghjk
+const RECOVERY_CODE_GROUPS = 2
+const RECOVERY_CODE_GROUP_LENGTH = 5
+
+const TABLE = 'mfa_recovery_codes'
+
+/**
+ * TOTP 验证器
+ */
+export interface MfaFactor {
+  id: string
+  friendly_name: string | null
+  status: 'verified' | 'unverified'
+  created_at: string
+}
+
+/**
+ * 新绑定的 TOTP 验证器
+ * qrCode 为 SVG 图片的 data URI，secret 供无法扫码时手动输入
+ */
+export interface TotpEnrollment {
+  id: string
+  qrCode: string
+  secret: string
+  uri: string
+}
+
+/**
+ * 从访问令牌中读取认证保证等级（不校验签名，仅用于已校验或刚签发的令牌）
+ * @param accessToken - Supabase 访问令牌
+ * @returns aal1 / aal2，无法读取时返回 undefined
+ */
+export function getSessionAal(accessToken: string): string | undefined {
+  const aal = decodeJwt(accessToken)?.payload.aal
+  return typeof aal === 'string' ? aal : undefined
+}
+
+/**
+ * 判断用户是否已绑定并验证过 TOTP 验证器
+ * 登录返回的用户信息中包含 factors，可用于决定登录后是否进入二次验证
+ */
+export function hasVerifiedFactor(user: User): boolean {
+  return (user.factors || []).some(factor => factor.factor_type === 'totp' && factor.status === 'verified')
+}
+
+/**
+ * 创建以用户身份调用 Supabase 的客户端
+ * 绑定与验证 TOTP 需要用户自己的会话，不能使用 service role
+ */
+async function createUserClient(session: AuthCookieSession) {
+  const supabase = createClient(
+    getConfig().supabase.url,
+    getConfig().supabase.anonKey,
+    {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    }
+  )
+
+  const { error } = await supabase.auth.setSession({
+    access_token: session.access_token,
+    refresh_token: session.refresh_token
+  })
+
+  if (error) {
+    throw error
+  }
+
+  return supabase
+}
+
+/**
+ * 列出用户的 TOTP 验证器
+ * @param userId - 用户 ID
+ * @returns 验证器列表
+ */
+export async function listFactors(userId: string): Promise<MfaFactor[]> {
+  const supabase = createSupabaseAdminClient()
+  const { data, error } = await supabase.auth.admin.mfa.listFactors({ userId })
+
+  if (error) {
+    throw error
+  }
+
+  return data.factors
+    .filter(factor => factor.factor_type === 'totp')
+    .map(factor => ({
+      id: factor.id,
+      friendly_name: factor.friendly_name || null,
+      status: factor.status,
+      created_at: factor.created_at
+    }))
+}
+
+/**
+ * 开始绑定 TOTP 验证器
+ * 先清除之前未完成绑定的验证器，新验证器在首次验证成功后才生效
+ * @param session - 用户的认证 Cookie 会话
+ * @param userId - 用户 ID
+ * @param friendlyName - 验证器名称
+ * @returns 二维码与密钥
+ */
+export async function enrollTotp(session: AuthCookieSession, userId: string, friendlyName: string): Promise<TotpEnrollment> {
+  const factors = await listFactors(userId)
+  for (const factor of factors.filter(factor => factor.status === 'unverified')) {
+    await deleteFactor(userId, factor.id)
+  }
+
+  const supabase = await createUserClient(session)
+  const { data, error } = await supabase.auth.mfa.enroll({
+    factorType: 'totp',
+    issuer: getConfig().mfaIssuer || undefined,
+    friendlyName
+  })
+
+  if (error) {
+    throw error
+  }
+
+  return {
+    id: data.id,
+    qrCode: data.totp.qr_code,
+    secret: data.totp.secret,
+    uri: data.totp.uri
+  }
+}
+
+/**
+ * 验证 TOTP 验证码
+ * 用于完成绑定与登录后的二次验证，成功后会话提升为 aal2
+ * @param session - 用户的认证 Cookie 会话
+ * @param factorId - 验证器 ID
+ * @param code - 6 位验证码
+ * @returns aal2 会话
+ */
+export async function verifyTotp(session: AuthCookieSession, factorId: string, code: string): Promise<Session> {
+  const supabase = await createUserClient(session)
+  const { error } = await supabase.auth.mfa.challengeAndVerify({ factorId, code })
+
+  if (error) {
+    throw error
+  }
+
+  // verify 的返回值不含 expires_at，从客户端读取保存后的完整会话
+  const { data, error: sessionError } = await supabase.auth.getSession()
+  if (sessionError || !data.session) {
+    throw sessionError || new Error('No session after MFA verification')
+  }
+
+  return data.session
+}
+
+/**
+ * 解除绑定 TOTP 验证器
+ * @param userId - 用户 ID
+ * @param factorId - 验证器 ID，必须属于该用户
+ */
+export async function deleteFactor(userId: string, factorId: string) {
+  const supabase = createSupabaseAdminClient()
+  const { error } = await supabase.auth.admin.mfa.deleteFactor({ id: factorId, userId })
+
+  if (error) {
+    throw error
+  }
+}
+
+/**
+ * 统一恢复码格式：忽略大小写、空格与连字符
+ */
+function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[\s-]/g, '')
+}
+
+/**
+ * 生成随机恢复码，形如 abcde-fghjk
+ */
+function generateRecoveryCode(): string {
+  return Array.from({ length: RECOVERY_CODE_GROUPS }, () =>
+    Array.from({ length: RECOVERY_CODE_GROUP_LENGTH }, () =>
+      RECOVERY_CODE_ALPHABET[randomInt(RECOVERY_CODE_ALPHABET.length)]
+    ).join('')
+  ).join('-')
+}
+
+/**
+ * 重新生成恢复码
+ * 旧的恢复码全部作废；明文只在生成时返回一次，数据库中只保存哈希
+ * @param userId - 用户 ID
+ * @returns 恢复码明文
+ */
+export async function generateRecoveryCodes(userId: string): Promise<string[]> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode)
+
+  const supabase = createSupabaseAdminClient()
+  const { error: deleteError } = await supabase
+    .from(TABLE)
+    .delete()
+    .eq('user_id', userId)
+
+  if (deleteError) {
+    throw deleteError
+  }
+
+  const { error } = await supabase
+    .from(TABLE)
+    .insert(codes.map(code => ({ user_id: userId, code_hash: hashToken(normalizeRecoveryCode(code)) })))
+
+  if (error) {
+    throw error
+  }
+
+  return codes
+}
+
+/**
+ * 统计用户剩余可用的恢复码数量
+ * @param userId - 用户 ID
+ * @returns 未使用的恢复码数量
+ */
+export async function countRecoveryCodes(userId: string): Promise<number> {
+  const supabase = createSupabaseAdminClient()
+  const { count, error } = await supabase
+    .from(TABLE)
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .is('used_at', null)
+
+  if (error) {
+    throw error
+  }
+
+  return count || 0
+}
+
+/**
+ * 使用恢复码
+ * Supabase 无法凭恢复码签发 aal2 会话，因此恢复码用于解除全部 TOTP 验证器，
+ * 用户随后以当前会话重新绑定验证器；每个恢复码只能使用一次
+ * @param userId - 用户 ID
+ * @param code - 恢复码
+ * @returns 恢复码有效时返回解除绑定的验证器数量，无效时返回 null
+ */
+export async function redeemRecoveryCode(userId: string, code: string): Promise<number | null> {
+  const supabase = createSupabaseAdminClient()
+  const { data, error } = await supabase
+    .from(TABLE)
+    .update({ used_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .eq('code_hash', hashToken(normalizeRecoveryCode(code)))
+    .is('used_at', null)
+    .select('id')
+
+  if (error) {
+    throw error
+  }
+
+  if (!data || data.length === 0) {
+    return null
+  }
+
+  const factors = await listFactors(userId)
+  for (const factor of factors) {
+    await deleteFactor(userId, factor.id)
+  }
+
+  return factors.length
+}
+
+/**
+ * 判断修改多因素认证设置前是否需要先完成二次验证
+ * 已绑定验证器的用户必须使用 aal2 会话，避免仅凭密码即可解除或替换验证器
+ * @param userId - 用户 ID
+ * @param aal - 当前会话的认证保证等级
+ */
+export async function isStepUpRequired(userId: string, aal: string | undefined): Promise<boolean> {
+  if (aal === 'aal2') {
+    return false
+  }
+  const factors = await listFactors(userId)
+  return factors.some(factor => factor.status === 'verified')
+}
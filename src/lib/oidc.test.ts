@@ -0,0 +1,102 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import {
+  authenticateClient,
+  consumeAuthorizationCode,
+  isRegisteredRedirectUri,
+  issueAuthorizationCode,
+  verifyCodeChallenge,
+  type OidcClient
+} from './oidc'
+
+// RFC 7636 附录 B 中的示例
+const VERIFIER = 'dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk'
+const CHALLENGE = 'E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM'
+
+const confidentialClient: OidcClient = {
+  clientId: 'wiki',
+  clientSecret: 'wiki-secret',
+  name: 'Wiki',
+  redirectUris: ['https://wiki.example.com/oauth/callback']
+}
+const publicClient: OidcClient = {
+  clientId: 'spa',
+  name: 'SPA',
+  redirectUris: ['https://spa.example.com/callback']
+}
+
+describe('verifyCodeChallenge', () => {
+  it('accepts the S256 verifier of the challenge', () => {
+    expect(verifyCodeChallenge(CHALLENGE, VERIFIER)).toBe(true)
+  })
+
+  it('rejects another verifier', () => {
+    expect(verifyCodeChallenge(CHALLENGE, VERIFIER.replace(/.$/, 'j'))).toBe(false)
+  })
+
+  it('rejects the challenge itself as a plain verifier', () => {
+    expect(verifyCodeChallenge(CHALLENGE, CHALLENGE)).toBe(false)
+  })
+
+  it.each([
+    ['empty', ''],
+    ['too short', 'a'.repeat(42)],
+    ['too long', 'a'.repeat(129)],
+    ['with invalid characters', `${'a'.repeat(42)}+`]
+  ])('rejects a verifier that is %s', (_, verifier) => {
+    expect(verifyCodeChallenge(CHALLENGE, verifier)).toBe(false)
+  })
+})
+
+describe('authenticateClient', () => {
+  it('requires the secret of confidential clients', () => {
+    expect(authenticateClient(confidentialClient, 'wiki-secret')).toBe(true)
+    expect(authenticateClient(confidentialClient, 'wrong')).toBe(false)
+    expect(authenticateClient(confidentialClient, null)).toBe(false)
+  })
+
+  it('rejects a secret for public clients', () => {
+    expect(authenticateClient(publicClient, null)).toBe(true)
+    expect(authenticateClient(publicClient, 'anything')).toBe(false)
+  })
+})
+
+describe('isRegisteredRedirectUri', () => {
+  it.each([
+    ['https://wiki.example.com/oauth/callback', true],
+    ['https://wiki.example.com/oauth/callback/', false],
+    ['https://wiki.example.com/oauth/callback?next=/', false],
+    ['https://wiki.example.com/oauth/callback#fragment', false],
+    ['https://wiki.example.com.evil.com/oauth/callback', false],
+    ['not a url', false]
+  ])('%s -> %s', (redirectUri, expected) => {
+    expect(isRegisteredRedirectUri(confidentialClient, redirectUri)).toBe(expected)
+  })
+})
+
+describe('authorization codes', () => {
+  const request = {
+    clientId: 'spa',
+    redirectUri: 'https://spa.example.com/callback',
+    scope: ['openid'],
+    codeChallenge: CHALLENGE,
+    user: { id: 'user-1', emailVerified: true, app_metadata: {} },
+    authTime: 0
+  }
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('can be consumed only once', () => {
+    const code = issueAuthorizationCode(request)
+    expect(consumeAuthorizationCode(code)).toMatchObject({ clientId: 'spa', codeChallenge: CHALLENGE })
+    expect(consumeAuthorizationCode(code)).toBeNull()
+  })
+
+  it('expire after one minute', () => {
+    vi.useFakeTimers()
+    const code = issueAuthorizationCode(request)
+    vi.advanceTimersByTime(60 * 1000)
+    expect(consumeAuthorizationCode(code)).toBeNull()
+  })
+})
@@ -0,0 +1,256 @@
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from 'crypto'
+import { createConfigFileLoader } from './config-file'
+import { getIdentityKeys, getSigningKey } from './identity-keys'
+import { decodeJwt, isJwtTimeValid, signJwt, verifyJwtSignature, type JwtPayload } from './jwt'
+import { getUserRoles } from './policy'
+import { getConfig } from './config'
+
+// 授权码有效期（毫秒）
+const AUTHORIZATION_CODE_TTL = 60 * 1000
+// 访问令牌与 ID 令牌有效期（秒）
+const TOKEN_TTL = getConfig().oidcTokenTtl
+
+// 支持的 scope
+export const SUPPORTED_SCOPES = ['openid', 'email', 'profile']
+
+/**
+ * 已注册的 OIDC 客户端
+ * 未配置 clientSecret 的为公开客户端，必须使用 PKCE
+ */
+export interface OidcClient {
+  clientId: string
+  clientSecret?: string
+  name: string
+  redirectUris: string[]
+}
+
+/**
+ * 签发授权码时记录的用户信息
+ */
+export interface OidcUser {
+  id: string
+  email?: string
+  emailVerified: boolean
+  name?: string
+  app_metadata: Record<string, unknown>
+}
+
+/**
+ * 授权码绑定的授权请求
+ */
+interface AuthorizationCode {
+  clientId: string
+  redirectUri: string
+  scope: string[]
+  nonce?: string
+  codeChallenge?: string
+  user: OidcUser
+  authTime: number
+  expiresAt: number
+}
+
+// 授权码只保存在当前实例的内存中，多实例部署时需要会话保持
+const authorizationCodes = new Map<string, AuthorizationCode>()
+
+/**
+ * 加载 OIDC 客户端注册文件，文件修改后自动重新加载
+ */
+const loadClients = createConfigFileLoader<OidcClient[]>({
+  name: 'OIDC clients',
+  envVar: 'OIDC_CLIENTS_FILE',
+  defaultPath: 'config/oidc-clients.json',
+  parse: data => {
+    const { clients = [] } = data as { clients?: OidcClient[] }
+    clients.forEach(client => {
+      if (!client.clientId || !Array.isArray(client.redirectUris) || client.redirectUris.length === 0) {
+        throw new Error(`Invalid OIDC client: ${client.clientId || '(missing clientId)'}`)
+      }
+    })
+    return clients
+  }
+})
+
+/**
+ * 获取 OIDC 签发者地址
+ */
+export function getIssuer(): string {
+  return getConfig().appUrl
+}
+
+/**
+ * 根据 client_id 查找已注册的客户端
+ */
+export async function getOidcClient(clientId: string): Promise<OidcClient | null> {
+  const { value } = await loadClients()
+  return value?.find(client => client.clientId === clientId) || null
+}
+
+/**
+ * 校验回调地址是否为客户端注册的地址
+ * 按 OIDC 规范要求完全匹配，且只允许 http(s) 地址
+ * @param client - OIDC 客户端
+ * @param redirectUri - 授权请求中的回调地址
+ * @returns 是否有效
+ */
+export function isRegisteredRedirectUri(client: OidcClient, redirectUri: string): boolean {
+  try {
+    const url = new URL(redirectUri)
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+      return false
+    }
+    if (url.hash) {
+      return false
+    }
+  } catch {
+    return false
+  }
+
+  return client.redirectUris.includes(redirectUri)
+}
+
+/**
+ * 以固定时间比较两个字符串
+ */
+function safeEqual(a: string, b: string): boolean {
+  const hashA = createHash('sha256').update(a).digest()
+  const hashB = createHash('sha256').update(b).digest()
+  return timingSafeEqual(hashA, hashB)
+}
+
+/**
+ * 校验客户端密钥
+ * 公开客户端没有密钥，只能依靠 PKCE
+ */
+export function authenticateClient(client: OidcClient, clientSecret: string | null): boolean {
+  if (!client.clientSecret) {
+    return !clientSecret
+  }
+  return !!clientSecret && safeEqual(client.clientSecret, clientSecret)
+}
+
+/**
+ * 签发授权码
+ * @param request - 授权请求信息
+ * @returns 一次性授权码
+ */
+export function issueAuthorizationCode(request: Omit<AuthorizationCode, 'expiresAt'>): string {
+  const now = Date.now()
+  authorizationCodes.forEach((value, key) => {
+    if (value.expiresAt <= now) {
+      authorizationCodes.delete(key)
+    }
+  })
+
+  const code = randomBytes(32).toString('base64url')
+  authorizationCodes.set(code, { ...request, expiresAt: now + AUTHORIZATION_CODE_TTL })
+  return code
+}
+
+/**
+ * 兑换授权码（一次性）
+ * @param code - 授权码
+ * @returns 授权请求信息，无效或过期时返回 null
+ */
+export function consumeAuthorizationCode(code: string): AuthorizationCode | null {
+  const entry = authorizationCodes.get(code)
+  authorizationCodes.delete(code)
+  if (!entry || entry.expiresAt <= Date.now()) {
+    return null
+  }
+  return entry
+}
+
+/**
+ * 校验 PKCE code_verifier（仅支持 S256）
+ */
+export function verifyCodeChallenge(codeChallenge: string, codeVerifier: string): boolean {
+  if (!/^[A-Za-z0-9\-._~]{43,128}$/.test(codeVerifier)) {
+    return false
+  }
+  const expected = createHash('sha256').update(codeVerifier).digest('base64url')
+  return safeEqual(expected, codeChallenge)
+}
+
+/**
+ * 根据 scope 生成用户声明
+ */
+function buildUserClaims(user: OidcUser, scope: string[]): JwtPayload {
+  const claims: JwtPayload = {}
+  if (scope.includes('email')) {
+    claims.email = user.email || ''
+    claims.email_verified = user.emailVerified
+  }
+  if (scope.includes('profile')) {
+    claims.name = user.name || ''
+    claims.preferred_username = user.email || ''
+    claims.roles = getUserRoles(user)
+  }
+  return claims
+}
+
+/**
+ * 为兑换成功的授权码签发访问令牌与 ID 令牌
+ * @param grant - 授权码对应的授权请求
+ * @returns 令牌响应
+ */
+export async function issueTokens(grant: AuthorizationCode) {
+  const key = await getSigningKey()
+  const issuer = getIssuer()
+  const now = Math.floor(Date.now() / 1000)
+  const userClaims = buildUserClaims(grant.user, grant.scope)
+
+  const accessToken = signJwt({
+    iss: issuer,
+    sub: grant.user.id,
+    aud: issuer,
+    iat: now,
+    exp: now + TOKEN_TTL,
+    jti: randomUUID(),
+    client_id: grant.clientId,
+    scope: grant.scope.join(' '),
+    ...userClaims
+  }, key.privateKey, { alg: key.alg, kid: key.kid, typ: 'at+jwt' })
+
+  const idToken = signJwt({
+    iss: issuer,
+    sub: grant.user.id,
+    aud: grant.clientId,
+    iat: now,
+    exp: now + TOKEN_TTL,
+    auth_time: grant.authTime,
+    ...(grant.nonce ? { nonce: grant.nonce } : {}),
+    ...userClaims
+  }, key.privateKey, { alg: key.alg, kid: key.kid })
+
+  return {
+    access_token: accessToken,
+    token_type: 'Bearer',
+    expires_in: TOKEN_TTL,
+    id_token: idToken,
+    scope: grant.scope.join(' ')
+  }
+}
+
+/**
+ * 校验本服务签发的访问令牌
+ * @param token - 访问令牌
+ * @returns 令牌声明，无效或过期时返回 null
+ */
+export async function verifyOidcAccessToken(token: string): Promise<JwtPayload | null> {
+  const jwt = decodeJwt(token)
+  if (!jwt || jwt.header.typ !== 'at+jwt' || !isJwtTimeValid(jwt.payload)) {
+    return null
+  }
+
+  const issuer = getIssuer()
+  if (jwt.payload.iss !== issuer || jwt.payload.aud !== issuer) {
+    return null
+  }
+
+  const key = (await getIdentityKeys()).find(item => item.kid === jwt.header.kid)
+  if (!key || key.alg !== jwt.header.alg) {
+    return null
+  }
+
+  return verifyJwtSignature(jwt, key.publicKey) ? jwt.payload : null
+}
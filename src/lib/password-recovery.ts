@@ -0,0 +1,114 @@
+import { randomBytes } from 'crypto'
+import { NextRequest, NextResponse } from 'next/server'
+import type { Session, User } from '@supabase/supabase-js'
+import { createSupabaseAdminClient } from './supabase-server'
+import { decodeJwt } from './jwt'
+import { getConfig } from './config'
+
+// 重置密码链接换取的会话只保存在服务端，这个 Cookie 保存一次性的随机值
+const RECOVERY_COOKIE = 'auth-recovery'
+// 打开重置链接后设置新密码的时限（秒）
+const RECOVERY_MAX_AGE = 15 * 60
+
+interface PendingRecovery {
+  accessToken: string
+  expiresAt: number
+}
+
+// 随机值 -> 重置会话，只能由重置链接回调写入，设置新密码后删除
+const pendingRecoveries = new Map<string, PendingRecovery>()
+
+/**
+ * 清理已过期的重置会话
+ */
+function pruneRecoveries() {
+  const now = Date.now()
+  pendingRecoveries.forEach((entry, nonce) => {
+    if (entry.expiresAt <= now) {
+      pendingRecoveries.delete(nonce)
+    }
+  })
+}
+
+/**
+ * 判断会话是否由重置密码链接建立
+ * PKCE 授权码换取的会话无法从回调参数区分用途，以访问令牌 amr 中的 recovery 认证方式为准
+ * @param session - Supabase 会话
+ */
+export function isRecoverySession(session: Session): boolean {
+  return isRecoveryToken(session.access_token)
+}
+
+/**
+ * 判断访问令牌是否由重置密码链接签发
+ * @param accessToken - 访问令牌
+ */
+function isRecoveryToken(accessToken: string): boolean {
+  const amr = decodeJwt(accessToken)?.payload.amr
+  return Array.isArray(amr) && amr.some(entry => entry?.method === 'recovery')
+}
+
+/**
+ * 进入设置新密码页面
+ * 重置链接换取的会话不写入认证 Cookie：用户设置新密码后全部会话被吊销，需要用新密码重新登录，
+ * 已绑定验证器的用户因此仍然需要完成二次验证
+ * 会话保存在服务端，Cookie 中只有一次性随机值，普通会话的访问令牌无法冒充重置会话
+ * @param session - 重置链接换取的会话
+ * @returns 跳转到设置新密码页面的响应
+ */
+export function startPasswordRecovery(session: Session): NextResponse {
+  pruneRecoveries()
+  const nonce = randomBytes(32).toString('base64url')
+  pendingRecoveries.set(nonce, { accessToken: session.access_token, expiresAt: Date.now() + RECOVERY_MAX_AGE * 1000 })
+
+  const baseUrl = getConfig().appUrl
+  const response = NextResponse.redirect(new URL('/reset-password', baseUrl))
+  response.cookies.set(RECOVERY_COOKIE, nonce, {
+    httpOnly: true,
+    secure: getConfig().cookie.secure,
+    sameSite: 'lax',
+    maxAge: RECOVERY_MAX_AGE,
+    path: '/'
+  })
+  return response
+}
+
+/**
+ * 读取正在重置密码的用户
+ * 只接受重置链接回调登记的会话，且访问令牌的 amr 必须包含 recovery
+ * @param request - Next.js 请求对象
+ * @returns 用户与重置会话的访问令牌，Cookie 不存在或会话已失效时返回 null
+ */
+export async function getRecoveryUser(request: NextRequest): Promise<{ user: User; accessToken: string } | null> {
+  const nonce = request.cookies.get(RECOVERY_COOKIE)?.value
+  const pending = nonce ? pendingRecoveries.get(nonce) : undefined
+  if (!pending || pending.expiresAt <= Date.now()) {
+    return null
+  }
+
+  const { accessToken } = pending
+  if (!isRecoveryToken(accessToken)) {
+    return null
+  }
+
+  const supabase = createSupabaseAdminClient()
+  const { data, error } = await supabase.auth.getUser(accessToken)
+  if (error || !data.user) {
+    return null
+  }
+  return { user: data.user, accessToken }
+}
+
+/**
+ * 结束密码重置
+ * 删除服务端的重置会话并清除 Cookie，同一个重置链接只能设置一次密码
+ * @param request - Next.js 请求对象
+ * @param response - Next.js 响应对象
+ */
+export function clearRecoveryCookie(request: NextRequest, response: NextResponse) {
+  const nonce = request.cookies.get(RECOVERY_COOKIE)?.value
+  if (nonce) {
+    pendingRecoveries.delete(nonce)
+  }
+  response.cookies.set(RECOVERY_COOKIE, '', { maxAge: 0, path: '/' })
+}
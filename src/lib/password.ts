@@ -0,0 +1,53 @@
+/**
+ * 密码强度规则
+ * 不依赖服务端模块，登录页与仪表板也用它实时提示
+ */
+
+// 密码最小长度
+export const PASSWORD_MIN_LENGTH = 10
+// Supabase 使用 bcrypt 保存密码，超过 72 字节的部分会被忽略
+export const PASSWORD_MAX_BYTES = 72
+
+/**
+ * 密码规则
+ */
+export type PasswordRule = 'length' | 'max_length' | 'character_classes' | 'not_email'
+
+// 规则与提示文字，按显示顺序排列
+export const PASSWORD_RULES: { rule: PasswordRule; label: string }[] = [
+  { rule: 'length', label: `至少 ${PASSWORD_MIN_LENGTH} 个字符` },
+  { rule: 'max_length', label: `不超过 ${PASSWORD_MAX_BYTES} 个字节` },
+  { rule: 'character_classes', label: '包含小写字母、大写字母、数字、符号中的至少 3 种' },
+  { rule: 'not_email', label: '不包含邮箱用户名' }
+]
+
+/**
+ * 检查密码强度
+ * @param password - 密码
+ * @param email - 用户邮箱，密码不能包含其 @ 之前的部分
+ * @returns 未满足的规则，为空表示通过
+ */
+export function checkPasswordStrength(password: string, email?: string | null): PasswordRule[] {
+  const failed: PasswordRule[] = []
+
+  if (password.length < PASSWORD_MIN_LENGTH) {
+    failed.push('length')
+  }
+  if (new TextEncoder().encode(password).length > PASSWORD_MAX_BYTES) {
+    failed.push('max_length')
+  }
+
+  const classes = [/[a-z]/, /[A-Z]/, /[0-9]/, /[^a-zA-Z0-9]/]
+    .filter(pattern => pattern.test(password))
+    .length
+  if (classes < 3) {
+    failed.push('character_classes')
+  }
+
+  const localPart = email?.split('@')[0].toLowerCase() || ''
+  if (localPart.length >= 3 && password.toLowerCase().includes(localPart)) {
+    failed.push('not_email')
+  }
+
+  return failed
+}
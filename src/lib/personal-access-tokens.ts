@@ -0,0 +1,187 @@
+import type { User } from '@supabase/supabase-js'
+import { createSupabaseAdminClient } from './supabase-server'
+import { isUserDisabled } from './admin'
+import { findUserById } from './identity-backend'
+import { generateToken, hashToken } from './tokens'
+import { logger } from './logger'
+
+// 个人访问令牌前缀
+export const PAT_PREFIX = 'pat_'
+// last_used_at 更新间隔（毫秒），避免每个请求都写数据库
+const LAST_USED_UPDATE_INTERVAL = 60 * 1000
+
+const TABLE = 'personal_access_tokens'
+
+/**
+ * 个人访问令牌记录（不含令牌本身）
+ */
+export interface PersonalAccessToken {
+  id: string
+  name: string
+  token_prefix: string
+  hosts: string[]
+  created_at: string
+  last_used_at: string | null
+  expires_at: string | null
+  revoked_at: string | null
+}
+
+interface PersonalAccessTokenRow extends PersonalAccessToken {
+  user_id: string
+}
+
+/**
+ * 创建令牌的参数
+ */
+export interface CreatePersonalAccessTokenInput {
+  name: string
+  hosts: string[]
+  expiresInDays: number | null
+}
+
+/**
+ * 校验通过的令牌
+ */
+export interface VerifiedPersonalAccessToken {
+  token: PersonalAccessToken
+  user: User
+}
+
+// 令牌列表返回的字段
+const PUBLIC_COLUMNS = 'id, name, token_prefix, hosts, created_at, last_used_at, expires_at, revoked_at'
+
+/**
+ * 判断字符串是否为个人访问令牌
+ */
+export function isPersonalAccessToken(token: string): boolean {
+  return token.startsWith(PAT_PREFIX)
+}
+
+/**
+ * 列出用户的个人访问令牌
+ * @param userId - 用户 ID
+ * @returns 令牌列表，按创建时间倒序
+ */
+export async function listPersonalAccessTokens(userId: string): Promise<PersonalAccessToken[]> {
+  const supabase = createSupabaseAdminClient()
+  const { data, error } = await supabase
+    .from(TABLE)
+    .select(PUBLIC_COLUMNS)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    throw error
+  }
+
+  return (data || []) as PersonalAccessToken[]
+}
+
+/**
+ * 创建个人访问令牌
+ * 令牌明文只在创建时返回一次，数据库中只保存哈希
+ * @param userId - 用户 ID
+ * @param input - 令牌名称、可访问主机与有效期
+ * @returns 令牌明文与令牌记录
+ */
+export async function createPersonalAccessToken(userId: string, input: CreatePersonalAccessTokenInput) {
+  const token = generateToken(PAT_PREFIX)
+  const expiresAt = input.expiresInDays
+    ? new Date(Date.now() + input.expiresInDays * 24 * 60 * 60 * 1000).toISOString()
+    : null
+
+  const supabase = createSupabaseAdminClient()
+  const { data, error } = await supabase
+    .from(TABLE)
+    .insert({
+      user_id: userId,
+      name: input.name,
+      token_hash: hashToken(token),
+      token_prefix: token.slice(0, PAT_PREFIX.length + 6),
+      hosts: input.hosts,
+      expires_at: expiresAt
+    })
+    .select(PUBLIC_COLUMNS)
+    .single()
+
+  if (error) {
+    throw error
+  }
+
+  return { token, record: data as PersonalAccessToken }
+}
+
+/**
+ * 吊销个人访问令牌
+ * @param userId - 用户 ID，只能吊销自己的令牌
+ * @param tokenId - 令牌 ID
+ * @returns 被吊销令牌的哈希，令牌不存在时返回 null
+ */
+export async function revokePersonalAccessToken(userId: string, tokenId: string): Promise<string | null> {
+  const supabase = createSupabaseAdminClient()
+  const { data, error } = await supabase
+    .from(TABLE)
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', tokenId)
+    .eq('user_id', userId)
+    .is('revoked_at', null)
+    .select('token_hash')
+    .maybeSingle()
+
+  if (error) {
+    throw error
+  }
+
+  return data ? (data as { token_hash: string }).token_hash : null
+}
+
+/**
+ * 校验个人访问令牌
+ * 令牌有效时异步更新 last_used_at
+ * @param token - 令牌明文
+ * @returns 令牌记录与所属用户，无效、过期或已吊销时返回 null
+ */
+export async function verifyPersonalAccessToken(token: string): Promise<VerifiedPersonalAccessToken | null> {
+  const supabase = createSupabaseAdminClient()
+  const { data, error } = await supabase
+    .from(TABLE)
+    .select(`${PUBLIC_COLUMNS}, user_id`)
+    .eq('token_hash', hashToken(token))
+    .maybeSingle()
+
+  if (error) {
+    throw error
+  }
+
+  const row = data as PersonalAccessTokenRow | null
+  if (!row || row.revoked_at) {
+    return null
+  }
+  if (row.expires_at && new Date(row.expires_at).getTime() <= Date.now()) {
+    return null
+  }
+
+  const user = await findUserById(row.user_id)
+  if (!user) {
+    return null
+  }
+
+  // 已禁用的账户不能再使用凭据访问应用
+  if (isUserDisabled(user)) {
+    return null
+  }
+
+  if (!row.last_used_at || Date.now() - new Date(row.last_used_at).getTime() > LAST_USED_UPDATE_INTERVAL) {
+    supabase
+      .from(TABLE)
+      .update({ last_used_at: new Date().toISOString() })
+      .eq('id', row.id)
+      .then(({ error }) => {
+        if (error) {
+          logger.error('Personal access token last_used_at update error', { error })
+        }
+      })
+  }
+
+  return { token: row, user }
+}
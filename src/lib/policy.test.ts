@@ -0,0 +1,64 @@
+import { mkdtempSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+import { beforeAll, describe, expect, it } from 'vitest'
+import { evaluateAccess, normalizePath, type AccessPolicy, type PolicySubject } from './policy'
+
+describe('normalizePath', () => {
+  it.each([
+    ['/admin', '/admin'],
+    ['//admin', '/admin'],
+    ['/%61dmin', '/admin'],
+    ['/public/../admin', '/admin'],
+    ['/public/%2e%2e/admin', '/admin'],
+    ['/./admin', '/admin'],
+    ['/public\\..\\admin', '/admin'],
+    ['/admin?token=1#top', '/admin'],
+    ['/admin/', '/admin/'],
+    ['/../../admin', '/admin'],
+    ['/%E4%B8%AD%E6%96%87', '/中文'],
+    ['/%ff/admin', '/%ff/admin'],
+    ['', '/']
+  ])('%s -> %s', (input, expected) => {
+    expect(normalizePath(input)).toBe(expected)
+  })
+})
+
+describe('evaluateAccess path rules', () => {
+  const policy: AccessPolicy = {
+    defaultAction: 'deny',
+    hosts: [
+      {
+        host: 'app.example.com',
+        allow: {},
+        paths: [{ path: '/admin', allow: { roles: ['admin'] } }]
+      }
+    ]
+  }
+  const user: PolicySubject = { id: 'user-1', email: 'user@example.com', app_metadata: {} }
+
+  beforeAll(() => {
+    const dir = mkdtempSync(path.join(tmpdir(), 'policy-test-'))
+    writeFileSync(path.join(dir, 'access-policy.json'), JSON.stringify(policy))
+    process.env.ACCESS_POLICY_FILE = path.join(dir, 'access-policy.json')
+    process.env.APPLICATIONS_FILE = path.join(dir, 'applications.json')
+    process.env.LOG_LEVEL = 'error'
+  })
+
+  it('allows paths outside the override', async () => {
+    const decision = await evaluateAccess(user, { host: 'app.example.com', path: '/public/page' })
+    expect(decision.allowed).toBe(true)
+  })
+
+  it.each([
+    '/admin',
+    '//admin',
+    '/%61dmin',
+    '/public/../admin',
+    '/public/%2e%2e/admin/users',
+    '/./admin?x=1'
+  ])('applies the /admin override to %s', async requestPath => {
+    const decision = await evaluateAccess(user, { host: 'app.example.com', path: requestPath })
+    expect(decision).toMatchObject({ allowed: false, reason: 'rule_not_matched', rule: 'app.example.com/admin' })
+  })
+})
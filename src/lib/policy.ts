@@ -0,0 +1,300 @@
+import { createConfigFileLoader } from './config-file'
+import { getApplicationHostRules, loadApplications } from './applications'
+
+/**
+ * 访问主体规则
+ * 同一规则内的各项条件为"或"关系，任意一项匹配即允许访问
+ */
+export interface SubjectRule {
+  emails?: string[]
+  emailDomains?: string[]
+  userIds?: string[]
+  roles?: string[]
+}
+
+/**
+ * 路径级覆盖规则
+ * path 按路径段前缀匹配，最长匹配优先
+ */
+export interface PathRule {
+  path: string
+  allow?: SubjectRule
+}
+
+/**
+ * 主机级规则
+ * host 支持通配符 (*.domain.com)
+ * basicAuth 为 true 时允许使用应用密码进行 HTTP Basic 认证
+ * mfa 为 true 时要求 aal2 会话（已完成多因素认证），aal1 会话需要先完成二次验证
+ * providers 不为空时只接受通过这些登录方式（Supabase 提供商名称，邮箱密码为 email，LDAP 目录账户为 ldap）建立的会话
+ */
+export interface HostRule {
+  host: string
+  allow?: SubjectRule
+  paths?: PathRule[]
+  basicAuth?: boolean
+  mfa?: boolean
+  providers?: string[]
+}
+
+/**
+ * 访问策略文件结构
+ */
+export interface AccessPolicy {
+  defaultAction?: 'allow' | 'deny'
+  hosts?: HostRule[]
+}
+
+/**
+ * 被检查的访问目标
+ */
+export interface AccessTarget {
+  host: string
+  path: string
+}
+
+/**
+ * 参与策略判断的用户信息
+ * aal 为会话的认证保证等级，来自访问令牌声明；provider 为会话的登录方式
+ */
+export interface PolicySubject {
+  id: string
+  email?: string
+  aal?: string
+  provider?: string | null
+  app_metadata?: Record<string, unknown>
+}
+
+/**
+ * 策略判断结果
+ */
+export interface AccessDecision {
+  allowed: boolean
+  reason:
+    | 'no_policy'
+    | 'default_allow'
+    | 'default_deny'
+    | 'rule_matched'
+    | 'rule_not_matched'
+    | 'policy_error'
+    | 'token_scope_mismatch'
+    | 'mfa_required'
+    | 'provider_not_allowed'
+  host: string
+  path: string
+  rule?: string
+}
+
+/**
+ * 加载访问策略，文件修改后自动重新加载
+ * 文件不存在时 value 为 null（不做额外限制）；首次加载失败时 error 为 true
+ */
+export const loadAccessPolicy = createConfigFileLoader<AccessPolicy>({
+  name: 'Access policy',
+  envVar: 'ACCESS_POLICY_FILE',
+  defaultPath: 'config/access-policy.json'
+})
+
+/**
+ * 判断主机名是否匹配规则中的主机模式
+ */
+export function matchHost(pattern: string, host: string): boolean {
+  const hostname = host.toLowerCase().split(':')[0]
+  const normalized = pattern.toLowerCase()
+
+  if (normalized.startsWith('*.')) {
+    const baseDomain = normalized.slice(2)
+    return hostname.endsWith(`.${baseDomain}`)
+  }
+
+  return hostname === normalized
+}
+
+/**
+ * 规范化请求路径，使 //admin、/%61dmin、/public/../admin 等写法与上游应用实际路由到的路径一致
+ * 去掉查询参数与片段，解码百分号编码，把反斜杠视为 /，合并重复的 /，并解析 . 与 .. 路径段
+ * @param path - X-Forwarded-Uri 等头部中的原始路径
+ * @returns 以 / 开头的规范化路径
+ */
+export function normalizePath(path: string): string {
+  const raw = path.split(/[?#]/)[0]
+  let decoded: string
+  try {
+    decoded = decodeURIComponent(raw)
+  } catch {
+    // 含有无效 UTF-8 序列时逐个解码 ASCII 字符
+    decoded = raw.replace(/%([0-7][0-9a-f])/gi, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)))
+  }
+  decoded = decoded.replace(/\\/g, '/')
+
+  const segments: string[] = []
+  for (const segment of decoded.split('/')) {
+    if (segment === '' || segment === '.') {
+      continue
+    }
+    if (segment === '..') {
+      segments.pop()
+      continue
+    }
+    segments.push(segment)
+  }
+
+  // 保留末尾的 /，与上游看到的路径一致
+  const trailingSlash = segments.length > 0 && /\/(\.{1,2})?$/.test(decoded)
+  return `/${segments.join('/')}${trailingSlash ? '/' : ''}`
+}
+
+/**
+ * 判断请求路径是否匹配规则路径（按路径段前缀匹配）
+ * 请求路径需要先经过 normalizePath 规范化
+ */
+function matchPath(rulePath: string, requestPath: string): boolean {
+  const prefix = rulePath.endsWith('/') ? rulePath.slice(0, -1) : rulePath
+  if (prefix === '') {
+    return true
+  }
+  return requestPath === prefix || requestPath.startsWith(`${prefix}/`)
+}
+
+/**
+ * 从 app_metadata 中读取用户角色
+ * 支持 roles 数组和单个 role 字符串
+ */
+export function getUserRoles(subject: PolicySubject): string[] {
+  const metadata = subject.app_metadata || {}
+  const roles: string[] = []
+
+  if (Array.isArray(metadata.roles)) {
+    roles.push(...metadata.roles.filter((role): role is string => typeof role === 'string'))
+  }
+  if (typeof metadata.role === 'string') {
+    roles.push(metadata.role)
+  }
+
+  return roles
+}
+
+/**
+ * 判断用户是否满足主体规则
+ * 未配置任何条件时视为允许所有已登录用户
+ */
+function matchSubject(rule: SubjectRule | undefined, subject: PolicySubject): boolean {
+  if (!rule) {
+    return true
+  }
+
+  const { emails = [], emailDomains = [], userIds = [], roles = [] } = rule
+  if (emails.length + emailDomains.length + userIds.length + roles.length === 0) {
+    return true
+  }
+
+  const email = subject.email?.toLowerCase() || ''
+  const emailDomain = email.includes('@') ? email.split('@').pop()! : ''
+  const userRoles = getUserRoles(subject)
+
+  return emails.some(item => item.toLowerCase() === email) ||
+         emailDomains.some(item => item.toLowerCase() === emailDomain) ||
+         userIds.includes(subject.id) ||
+         roles.some(role => userRoles.includes(role))
+}
+
+/**
+ * 查找与主机匹配的规则
+ * 精确主机优先于通配符主机；同类规则中靠前的优先
+ */
+export function findHostRule(rules: HostRule[], host: string): HostRule | undefined {
+  return rules.find(rule => !rule.host.startsWith('*.') && matchHost(rule.host, host)) ||
+         rules.find(rule => rule.host.startsWith('*.') && matchHost(rule.host, host))
+}
+
+/**
+ * 加载访问策略与应用注册表中的全部主机规则
+ * 访问策略文件中的规则排在应用注册表之前，同一主机以访问策略为准
+ */
+async function loadHostRules() {
+  const [policyState, applicationsState] = await Promise.all([loadAccessPolicy(), loadApplications()])
+  const policy = policyState.value
+  const applications = applicationsState.value
+
+  return {
+    policy,
+    configured: !!policy || !!applications,
+    error: policyState.error || applicationsState.error,
+    rules: [...(policy?.hosts || []), ...getApplicationHostRules(applications || [])]
+  }
+}
+
+/**
+ * 获取与主机匹配的规则中的主机模式
+ * 用作指标标签，避免客户端填写的任意主机名产生无限多的时间序列
+ * @param host - 主机名
+ * @returns 规则中的主机（如 *.example.com），没有匹配的规则时返回 null
+ */
+export async function getMatchedHost(host: string): Promise<string | null> {
+  const { rules } = await loadHostRules()
+  return findHostRule(rules, host)?.host.toLowerCase() ?? null
+}
+
+/**
+ * 判断主机是否启用了 HTTP Basic 认证
+ * @param host - 主机名
+ * @returns 是否允许使用应用密码进行 Basic 认证
+ */
+export async function isBasicAuthEnabled(host: string): Promise<boolean> {
+  const { rules } = await loadHostRules()
+  return !!findHostRule(rules, host)?.basicAuth
+}
+
+/**
+ * 根据访问策略与应用注册表判断用户能否访问目标
+ * @param subject - 已认证用户
+ * @param target - 访问目标（主机与路径）
+ * @returns 策略判断结果
+ */
+export async function evaluateAccess(subject: PolicySubject, target: AccessTarget): Promise<AccessDecision> {
+  const { host, path: requestPath } = target
+  const { policy, configured, error, rules } = await loadHostRules()
+
+  if (error) {
+    return { allowed: false, reason: 'policy_error', host, path: requestPath }
+  }
+
+  if (!configured) {
+    return { allowed: true, reason: 'no_policy', host, path: requestPath }
+  }
+
+  const hostRule = findHostRule(rules, host)
+  if (!hostRule) {
+    const allowed = policy?.defaultAction !== 'deny'
+    return { allowed, reason: allowed ? 'default_allow' : 'default_deny', host, path: requestPath }
+  }
+
+  // 路径覆盖规则：最长匹配优先，按规范化后的路径匹配，避免编码或 .. 绕过更严格的规则
+  const normalizedPath = normalizePath(requestPath)
+  const pathRule = (hostRule.paths || [])
+    .filter(rule => matchPath(rule.path, normalizedPath))
+    .sort((a, b) => b.path.length - a.path.length)[0]
+
+  const rule = pathRule ? pathRule.allow : hostRule.allow
+  const ruleName = pathRule ? `${hostRule.host}${pathRule.path}` : hostRule.host
+  const allowed = matchSubject(rule, subject)
+
+  // 应用要求特定的登录方式，访问令牌与应用密码没有登录方式，同样拒绝
+  const providers = hostRule.providers || []
+  if (allowed && providers.length > 0 && !providers.includes(subject.provider || '')) {
+    return { allowed: false, reason: 'provider_not_allowed', host, path: requestPath, rule: ruleName }
+  }
+
+  // 用户满足规则但会话未完成多因素认证：可以通过二次验证提升，而不是直接拒绝
+  if (allowed && hostRule.mfa && subject.aal !== 'aal2') {
+    return { allowed: false, reason: 'mfa_required', host, path: requestPath, rule: ruleName }
+  }
+
+  return {
+    allowed,
+    reason: allowed ? 'rule_matched' : 'rule_not_matched',
+    host,
+    path: requestPath,
+    rule: ruleName
+  }
+}
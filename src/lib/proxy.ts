@@ -0,0 +1,174 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getConfig } from './config'
+
+/**
+ * 由反向代理转发过来的原始请求信息
+ */
+export interface OriginalRequest {
+  url: string
+  host: string
+  path: string
+  method: string
+}
+
+/**
+ * 反向代理适配器
+ * 不同代理传递原始请求信息的方式以及对未认证响应的要求各不相同
+ */
+export interface ProxyAdapter {
+  name: 'traefik' | 'nginx' | 'caddy'
+  // 从代理转发的请求头中还原原始请求
+  resolveOriginalRequest(request: NextRequest): OriginalRequest | null
+  // 生成未认证时返回给代理的响应
+  unauthenticated(request: NextRequest, loginUrl: string): NextResponse
+}
+
+/**
+ * 根据 X-Forwarded-* 头部还原原始请求
+ * Traefik 与 Caddy 均通过这组头部传递原始请求信息
+ */
+function resolveFromForwardedHeaders(request: NextRequest): OriginalRequest | null {
+  const forwardedHost = request.headers.get('x-forwarded-host')
+  if (!forwardedHost) {
+    return null
+  }
+
+  const forwardedProto = request.headers.get('x-forwarded-proto') || 'https'
+  const forwardedUri = request.headers.get('x-forwarded-uri') || '/'
+
+  return {
+    url: `${forwardedProto}://${forwardedHost}${forwardedUri}`,
+    host: forwardedHost,
+    path: forwardedUri.split('?')[0],
+    method: request.headers.get('x-forwarded-method') || 'GET'
+  }
+}
+
+/**
+ * 获取原始请求的客户端 IP
+ * 反向代理在 X-Forwarded-For 末尾追加它看到的来源地址，左侧的条目由客户端随意填写，
+ * 因此从右往左跳过 TRUSTED_PROXY_HOPS - 1 层可信代理后的条目才是客户端 IP；
+ * CLIENT_IP_HEADER=x-real-ip 时只使用反向代理覆盖设置的 X-Real-IP
+ */
+export function getClientIp(request: NextRequest): string {
+  const { header, trustedProxyHops } = getConfig().clientIp
+  if (header === 'x-real-ip') {
+    return request.headers.get('x-real-ip')?.trim() || 'unknown'
+  }
+
+  const entries = (request.headers.get('x-forwarded-for') || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+  if (entries.length === 0) {
+    return 'unknown'
+  }
+  // 条目少于可信代理层数时全部由可信代理追加，最左侧即最早的来源
+  return entries[Math.max(entries.length - trustedProxyHops, 0)]
+}
+
+/**
+ * 判断请求是否来自浏览器页面导航
+ */
+export function wantsHtml(request: NextRequest): boolean {
+  return (request.headers.get('accept') || '').includes('text/html')
+}
+
+/**
+ * 判断请求方是否期望 JSON 响应（XHR / fetch 调用）
+ * ForwardAuth 收到的请求头即原始请求的请求头
+ */
+export function wantsJson(request: NextRequest): boolean {
+  if (request.headers.get('x-requested-with')?.toLowerCase() === 'xmlhttprequest') {
+    return true
+  }
+
+  const accept = request.headers.get('accept') || ''
+  return accept.includes('application/json') && !accept.includes('text/html')
+}
+
+/**
+ * 生成 JSON 格式的未认证响应
+ */
+function unauthenticatedJson(loginUrl: string, headers: Record<string, string> = {}): NextResponse {
+  return NextResponse.json(
+    { error: 'unauthenticated', login_url: loginUrl },
+    { status: 401, headers: { 'Cache-Control': 'no-store', ...headers } }
+  )
+}
+
+/**
+ * Traefik forwardAuth 适配器
+ * 原始请求信息来自 X-Forwarded-Proto / X-Forwarded-Host / X-Forwarded-Uri，
+ * 非 2xx 响应会原样返回给浏览器，因此未认证时直接 302 到登录页
+ */
+export const traefikProxy: ProxyAdapter = {
+  name: 'traefik',
+  resolveOriginalRequest: resolveFromForwardedHeaders,
+  unauthenticated(request, loginUrl) {
+    if (wantsJson(request)) {
+      return unauthenticatedJson(loginUrl)
+    }
+    return new NextResponse(null, {
+      status: 302,
+      headers: {
+        'Location': loginUrl
+      }
+    })
+  }
+}
+
+/**
+ * Caddy forward_auth 适配器
+ * Caddy 以 GET 请求调用认证服务，并通过 X-Forwarded-Method / X-Forwarded-Uri 传递原始方法与路径，
+ * 主机与协议来自 reverse_proxy 默认设置的 X-Forwarded-Host / X-Forwarded-Proto
+ */
+export const caddyProxy: ProxyAdapter = {
+  name: 'caddy',
+  resolveOriginalRequest: resolveFromForwardedHeaders,
+  unauthenticated: traefikProxy.unauthenticated
+}
+
+/**
+ * nginx auth_request 适配器
+ * auth_request 只接受 2xx / 401 / 403 响应，未认证时返回 401，
+ * 并通过 X-Auth-Login-Url 头部告知登录地址，由 error_page 指向的 location 完成跳转
+ * 原始请求信息来自 X-Original-URL / X-Original-Method；auth_request 子请求默认原样转发客户端的请求头，
+ * 缺少 X-Original-URL 时不回退到客户端可以伪造的 X-Forwarded-Host
+ */
+export const nginxProxy: ProxyAdapter = {
+  name: 'nginx',
+  resolveOriginalRequest(request) {
+    const originalUrl = request.headers.get('x-original-url')
+    if (!originalUrl) {
+      return null
+    }
+
+    try {
+      const url = new URL(originalUrl)
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        return null
+      }
+      return {
+        url: url.toString(),
+        host: url.host,
+        path: url.pathname,
+        method: request.headers.get('x-original-method') || 'GET'
+      }
+    } catch {
+      return null
+    }
+  },
+  unauthenticated(request, loginUrl) {
+    if (wantsJson(request)) {
+      return unauthenticatedJson(loginUrl, { 'X-Auth-Login-Url': loginUrl })
+    }
+    return new NextResponse(null, {
+      status: 401,
+      headers: {
+        'X-Auth-Login-Url': loginUrl,
+        'Cache-Control': 'no-store'
+      }
+    })
+  }
+}
@@ -0,0 +1,163 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createLockout, createRateLimiter } from './rate-limit'
+
+beforeEach(() => {
+  vi.useFakeTimers()
+  vi.setSystemTime(new Date('2026-01-01T00:00:00Z'))
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('createRateLimiter', () => {
+  const options = { limit: 3, windowMs: 60 * 1000 }
+
+  it('blocks after the limit is reached within the window', () => {
+    const limiter = createRateLimiter(options)
+    expect(limiter.hit('ip').allowed).toBe(true)
+    expect(limiter.hit('ip').allowed).toBe(true)
+    expect(limiter.hit('ip')).toEqual({ allowed: false, retryAfter: 60 })
+    expect(limiter.check('ip')).toEqual({ allowed: false, retryAfter: 60 })
+    expect(limiter.check('other').allowed).toBe(true)
+  })
+
+  it('does not count check calls', () => {
+    const limiter = createRateLimiter(options)
+    for (let i = 0; i < 10; i++) {
+      limiter.check('ip')
+    }
+    expect(limiter.hit('ip').allowed).toBe(true)
+  })
+
+  it('allows again once the window has passed', () => {
+    const limiter = createRateLimiter(options)
+    for (let i = 0; i < 3; i++) {
+      limiter.hit('ip')
+    }
+    vi.advanceTimersByTime(30 * 1000)
+    expect(limiter.check('ip')).toEqual({ allowed: false, retryAfter: 30 })
+    vi.advanceTimersByTime(30 * 1000)
+    expect(limiter.check('ip').allowed).toBe(true)
+  })
+
+  it('undoes a single hit on release', () => {
+    const limiter = createRateLimiter(options)
+    for (let i = 0; i < 3; i++) {
+      limiter.hit('ip')
+    }
+    limiter.release('ip')
+    expect(limiter.check('ip').allowed).toBe(true)
+    expect(limiter.hit('ip').allowed).toBe(false)
+  })
+
+  it('ignores release without a hit', () => {
+    const limiter = createRateLimiter(options)
+    limiter.release('ip')
+    limiter.hit('ip')
+    limiter.hit('ip')
+    expect(limiter.hit('ip').allowed).toBe(false)
+  })
+
+  it('clears the count on reset', () => {
+    const limiter = createRateLimiter(options)
+    for (let i = 0; i < 3; i++) {
+      limiter.hit('ip')
+    }
+    limiter.reset('ip')
+    expect(limiter.check('ip').allowed).toBe(true)
+  })
+})
+
+describe('createLockout', () => {
+  const options = {
+    threshold: 3,
+    windowMs: 15 * 60 * 1000,
+    baseLockMs: 60 * 1000,
+    maxLockMs: 4 * 60 * 1000,
+    decayMs: 60 * 60 * 1000
+  }
+
+  const failUntilLocked = (lockout: ReturnType<typeof createLockout>, key: string) => {
+    let result = lockout.fail(key)
+    while (result.allowed) {
+      result = lockout.fail(key)
+    }
+    return result
+  }
+
+  it('locks once the threshold is reached', () => {
+    const lockout = createLockout(options)
+    expect(lockout.fail('user').allowed).toBe(true)
+    expect(lockout.fail('user').allowed).toBe(true)
+    expect(lockout.fail('user')).toEqual({ allowed: false, retryAfter: 60 })
+    expect(lockout.check('user')).toEqual({ allowed: false, retryAfter: 60 })
+  })
+
+  it('does not extend the lock for failures while locked', () => {
+    const lockout = createLockout(options)
+    failUntilLocked(lockout, 'user')
+    vi.advanceTimersByTime(30 * 1000)
+    expect(lockout.fail('user')).toEqual({ allowed: false, retryAfter: 30 })
+    vi.advanceTimersByTime(30 * 1000)
+    expect(lockout.check('user').allowed).toBe(true)
+  })
+
+  it('doubles the lock duration up to the maximum', () => {
+    const lockout = createLockout(options)
+    const durations: number[] = []
+    for (let i = 0; i < 4; i++) {
+      const result = failUntilLocked(lockout, 'user')
+      durations.push(result.retryAfter)
+      vi.advanceTimersByTime(result.retryAfter * 1000)
+    }
+    expect(durations).toEqual([60, 120, 240, 240])
+  })
+
+  it('restores the base lock duration after the decay period', () => {
+    const lockout = createLockout(options)
+    vi.advanceTimersByTime(failUntilLocked(lockout, 'user').retryAfter * 1000)
+    vi.advanceTimersByTime(options.decayMs + 1)
+    expect(failUntilLocked(lockout, 'user').retryAfter).toBe(60)
+  })
+
+  it('forgets failures outside the window', () => {
+    const lockout = createLockout(options)
+    lockout.fail('user')
+    lockout.fail('user')
+    vi.advanceTimersByTime(options.windowMs + 1)
+    expect(lockout.fail('user').allowed).toBe(true)
+  })
+
+  it('undoes a counted failure on release', () => {
+    const lockout = createLockout(options)
+    lockout.fail('user')
+    lockout.fail('user')
+    lockout.release('user')
+    expect(lockout.fail('user').allowed).toBe(true)
+    expect(lockout.fail('user').allowed).toBe(false)
+  })
+
+  it('undoes the lock triggered by the released failure', () => {
+    const lockout = createLockout(options)
+    failUntilLocked(lockout, 'user')
+    lockout.release('user')
+    expect(lockout.check('user').allowed).toBe(true)
+    expect(lockout.fail('user')).toEqual({ allowed: false, retryAfter: 60 })
+  })
+
+  it('lets concurrent attempts counted before verification reach the lock', () => {
+    const lockout = createLockout(options)
+    const attempts = Array.from({ length: 5 }, () => lockout.check('user').allowed && lockout.fail('user'))
+    expect(attempts.filter(Boolean)).toHaveLength(options.threshold)
+    expect(lockout.check('user').allowed).toBe(false)
+  })
+
+  it('clears failures and the lock on reset', () => {
+    const lockout = createLockout(options)
+    failUntilLocked(lockout, 'user')
+    lockout.reset('user')
+    expect(lockout.check('user').allowed).toBe(true)
+    expect(lockout.fail('user').allowed).toBe(true)
+  })
+})
@@ -0,0 +1,244 @@
+/**
+ * 内存限流器配置
+ */
+export interface RateLimiterOptions {
+  // 时间窗口内允许的次数
+  limit: number
+  // 时间窗口（毫秒）
+  windowMs: number
+}
+
+/**
+ * 限流检查结果
+ */
+export interface RateLimitResult {
+  allowed: boolean
+  // 距离解除限制的秒数
+  retryAfter: number
+}
+
+/**
+ * 内存限流器
+ */
+export interface RateLimiter {
+  // 检查是否已超过限制（不计数）
+  check(key: string): RateLimitResult
+  // 记录一次并返回记录后的状态
+  hit(key: string): RateLimitResult
+  // 撤销一次 hit，例如预先计数的认证尝试成功后
+  release(key: string): void
+  // 清除计数，例如认证成功后
+  reset(key: string): void
+}
+
+interface Window {
+  count: number
+  resetAt: number
+}
+
+// 清理过期窗口的间隔（毫秒）
+const CLEANUP_INTERVAL = 60 * 1000
+
+/**
+ * 创建固定窗口内存限流器
+ * 计数只保存在当前实例中，多实例部署时每个实例分别计数
+ * @param options - 限流配置
+ * @returns 限流器
+ */
+export function createRateLimiter(options: RateLimiterOptions): RateLimiter {
+  const windows = new Map<string, Window>()
+  let lastCleanup = Date.now()
+
+  /**
+   * 清理已过期的窗口，避免内存无限增长
+   */
+  const cleanup = (now: number) => {
+    if (now - lastCleanup < CLEANUP_INTERVAL) {
+      return
+    }
+    lastCleanup = now
+    windows.forEach((window, key) => {
+      if (window.resetAt <= now) {
+        windows.delete(key)
+      }
+    })
+  }
+
+  /**
+   * 获取当前有效的窗口
+   */
+  const getWindow = (key: string, now: number): Window | null => {
+    const window = windows.get(key)
+    if (!window || window.resetAt <= now) {
+      return null
+    }
+    return window
+  }
+
+  const toResult = (window: Window | null, now: number): RateLimitResult => {
+    if (!window || window.count < options.limit) {
+      return { allowed: true, retryAfter: 0 }
+    }
+    return { allowed: false, retryAfter: Math.ceil((window.resetAt - now) / 1000) }
+  }
+
+  return {
+    check(key) {
+      const now = Date.now()
+      return toResult(getWindow(key, now), now)
+    },
+    hit(key) {
+      const now = Date.now()
+      cleanup(now)
+      let window = getWindow(key, now)
+      if (!window) {
+        window = { count: 0, resetAt: now + options.windowMs }
+        windows.set(key, window)
+      }
+      window.count++
+      return toResult(window, now)
+    },
+    release(key) {
+      const window = getWindow(key, Date.now())
+      if (window && window.count > 0) {
+        window.count--
+      }
+    },
+    reset(key) {
+      windows.delete(key)
+    }
+  }
+}
+
+/**
+ * 渐进式锁定配置
+ */
+export interface LockoutOptions {
+  // 时间窗口内允许的失败次数，达到后锁定
+  threshold: number
+  // 失败计数的时间窗口（毫秒）
+  windowMs: number
+  // 首次锁定时长（毫秒），之后每次锁定翻倍
+  baseLockMs: number
+  // 锁定时长上限（毫秒）
+  maxLockMs: number
+  // 距上次失败超过该时长（毫秒）后，锁定时长恢复为首次锁定时长
+  decayMs: number
+}
+
+/**
+ * 渐进式锁定器
+ */
+export interface Lockout {
+  // 检查当前是否处于锁定中（不计数）
+  check(key: string): RateLimitResult
+  // 记录一次失败并返回记录后的状态
+  fail(key: string): RateLimitResult
+  // 撤销一次 fail，由这次失败触发的锁定一并撤销；用于认证前预先计入失败、随后认证成功的情况
+  release(key: string): void
+  // 清除失败记录，例如认证成功后
+  reset(key: string): void
+}
+
+interface LockoutState {
+  failures: number
+  windowStart: number
+  level: number
+  lockedUntil: number
+  lastFailure: number
+}
+
+/**
+ * 创建渐进式内存锁定器
+ * 时间窗口内失败次数达到阈值后锁定，连续多次锁定时锁定时长逐次翻倍
+ * 调用方应在校验凭据之前同步调用 fail 预先计数，成功后再 reset 或 release：
+ * 先 check、等待校验结果后才 fail 的写法在并发请求下会被绕过
+ * 与 createRateLimiter 一样只在当前实例中计数
+ * @param options - 锁定配置
+ * @returns 锁定器
+ */
+export function createLockout(options: LockoutOptions): Lockout {
+  const states = new Map<string, LockoutState>()
+  let lastCleanup = Date.now()
+
+  /**
+   * 清理锁定已结束且已过衰减时间的记录
+   */
+  const cleanup = (now: number) => {
+    if (now - lastCleanup < CLEANUP_INTERVAL) {
+      return
+    }
+    lastCleanup = now
+    states.forEach((state, key) => {
+      if (state.lockedUntil <= now && now - state.lastFailure > options.decayMs) {
+        states.delete(key)
+      }
+    })
+  }
+
+  const toResult = (state: LockoutState | undefined, now: number): RateLimitResult => {
+    if (!state || state.lockedUntil <= now) {
+      return { allowed: true, retryAfter: 0 }
+    }
+    return { allowed: false, retryAfter: Math.ceil((state.lockedUntil - now) / 1000) }
+  }
+
+  return {
+    check(key) {
+      return toResult(states.get(key), Date.now())
+    },
+    fail(key) {
+      const now = Date.now()
+      cleanup(now)
+      let state = states.get(key)
+      if (!state) {
+        state = { failures: 0, windowStart: now, level: 0, lockedUntil: 0, lastFailure: now }
+        states.set(key, state)
+      }
+
+      // 锁定期间的请求不会到达认证环节，不再计数
+      if (state.lockedUntil > now) {
+        return toResult(state, now)
+      }
+
+      if (now - state.lastFailure > options.decayMs) {
+        state.level = 0
+      }
+      if (now - state.windowStart > options.windowMs) {
+        state.failures = 0
+        state.windowStart = now
+      }
+
+      state.failures++
+      state.lastFailure = now
+
+      if (state.failures >= options.threshold) {
+        state.level++
+        state.lockedUntil = now + Math.min(options.baseLockMs * 2 ** (state.level - 1), options.maxLockMs)
+        state.failures = 0
+        state.windowStart = now
+      }
+
+      return toResult(state, now)
+    },
+    release(key) {
+      const state = states.get(key)
+      if (!state) {
+        return
+      }
+      if (state.failures > 0) {
+        state.failures--
+        return
+      }
+      // 锁定时失败计数被清零，且锁定期间不再计数，因此计数为零时最近一次计入的失败就是触发锁定的那一次
+      if (state.lockedUntil > Date.now()) {
+        state.level = Math.max(state.level - 1, 0)
+        state.lockedUntil = 0
+        state.failures = options.threshold - 1
+      }
+    },
+    reset(key) {
+      states.delete(key)
+    }
+  }
+}
@@ -0,0 +1,140 @@
+import { getApplications } from './applications'
+import { matchHost } from './policy'
+import { logger, type Logger } from './logger'
+import { redirectRejections } from './metrics'
+import { getConfig } from './config'
+import { getAllowedDomainRules, matchPort, type HostRule } from './allowed-domains'
+
+/**
+ * 重定向地址被拒绝的原因
+ * malformed：无法解析、包含控制字符或反斜杠、非 / 开头的相对路径、协议相对地址（//host）
+ * scheme：不是 http(s)
+ * userinfo：包含用户名或密码（https://trusted.com@evil.com）
+ * host：主机不受信任
+ * port：端口不在允许范围内
+ */
+export type RedirectRejection = 'malformed' | 'scheme' | 'userinfo' | 'host' | 'port'
+
+/**
+ * 重定向地址检查结果
+ * 允许时 url 为规范化后的地址，站内路径保持为相对路径
+ */
+export type RedirectCheck =
+  | { allowed: true; url: string }
+  | { allowed: false; reason: RedirectRejection }
+
+// 日志中保留的重定向地址最大长度
+const MAX_LOGGED_LENGTH = 512
+
+// 控制字符、空白与反斜杠：浏览器会把反斜杠当作 /，/\evil.com 等价于 //evil.com
+const UNSAFE_CHARACTERS = /[\u0000-\u0020\u007f\\]/
+
+/**
+ * 判断绝对地址的主机与端口是否受信任
+ * @returns 不受信任的原因，受信任时返回 null
+ */
+async function checkHost(url: URL): Promise<RedirectRejection | null> {
+  // 本服务与应用注册表中的入口地址按完整的 origin 比较
+  const applications = await getApplications()
+  const origins = [getConfig().appUrl, ...applications.map(app => app.url).filter((value): value is string => !!value)]
+  if (origins.some(origin => {
+    try {
+      return new URL(origin).origin === url.origin
+    } catch {
+      return false
+    }
+  })) {
+    return null
+  }
+
+  // 去掉完全限定域名末尾的点，避免 example.com. 绕过比较
+  const hostname = url.hostname.replace(/\.$/, '')
+
+  // 应用注册表中的主机模式与访问策略的匹配方式一致，不含端口，只允许协议默认端口
+  const rules: HostRule[] = [
+    ...applications.flatMap(app => app.hosts || []).map(pattern => ({
+      matches: (host: string) => matchHost(pattern, host),
+      port: null
+    })),
+    ...getAllowedDomainRules()
+  ]
+
+  const matched = rules.filter(rule => rule.matches(hostname))
+  if (matched.length === 0) {
+    return 'host'
+  }
+  return matched.some(rule => matchPort(rule.port, url)) ? null : 'port'
+}
+
+/**
+ * 检查重定向地址是否安全
+ * 允许 / 开头的站内路径，以及协议为 http(s)、不含用户信息、主机与端口受信任的绝对地址
+ * 受信任的主机：本服务、应用注册表中的入口地址与主机模式、ALLOWED_DOMAINS
+ * @param value - 重定向地址
+ * @returns 检查结果
+ */
+export async function checkRedirect(value: string): Promise<RedirectCheck> {
+  if (!value || UNSAFE_CHARACTERS.test(value)) {
+    return { allowed: false, reason: 'malformed' }
+  }
+
+  // 站内路径：只接受单个 / 开头的路径，//host 是协议相对地址
+  if (value.startsWith('/')) {
+    if (value.startsWith('//')) {
+      return { allowed: false, reason: 'malformed' }
+    }
+    const base = new URL(getConfig().appUrl)
+    const resolved = new URL(value, base)
+    if (resolved.origin !== base.origin) {
+      return { allowed: false, reason: 'malformed' }
+    }
+    return { allowed: true, url: `${resolved.pathname}${resolved.search}${resolved.hash}` }
+  }
+
+  let url: URL
+  try {
+    url = new URL(value)
+  } catch {
+    // 不含协议的相对路径（如 dashboard、../admin）含义取决于当前页面，一律拒绝
+    return { allowed: false, reason: 'malformed' }
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return { allowed: false, reason: 'scheme' }
+  }
+  if (url.username || url.password) {
+    return { allowed: false, reason: 'userinfo' }
+  }
+
+  const rejection = await checkHost(url)
+  return rejection ? { allowed: false, reason: rejection } : { allowed: true, url: url.toString() }
+}
+
+/**
+ * 解析重定向地址
+ * 地址不安全时记录日志与指标并返回默认地址
+ * @param value - 请求中的重定向地址
+ * @param fallback - 未提供或被拒绝时使用的地址
+ * @param source - 重定向来源，如 login、logout、forward_auth
+ * @param log - 日志记录器，传入请求日志记录器以关联请求 ID
+ * @returns 安全的重定向地址或默认地址
+ */
+export async function resolveRedirect<T extends string | null>(
+  value: string | null | undefined,
+  fallback: T,
+  source: string,
+  log: Logger = logger
+): Promise<string | T> {
+  if (!value) {
+    return fallback
+  }
+
+  const result = await checkRedirect(value)
+  if (result.allowed) {
+    return result.url
+  }
+
+  redirectRejections.inc({ source, reason: result.reason })
+  log.warn('Redirect rejected', { source, reason: result.reason, redirect: value.slice(0, MAX_LOGGED_LENGTH) })
+  return fallback
+}
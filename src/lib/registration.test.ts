@@ -0,0 +1,33 @@
+import { describe, expect, it, vi } from 'vitest'
+
+vi.hoisted(() => {
+  process.env.REGISTRATION_MODE = 'restricted'
+  process.env.REGISTRATION_EMAIL_DOMAINS = 'example.com,Example.org'
+  process.env.LOG_LEVEL = 'error'
+})
+
+import { checkRegistration, getRegistrationPolicy } from './registration'
+
+describe('checkRegistration in restricted mode', () => {
+  it('reads the policy from the environment', () => {
+    expect(getRegistrationPolicy()).toEqual({ mode: 'restricted', emailDomains: ['example.com', 'example.org'] })
+  })
+
+  it.each([
+    'user@example.com',
+    'User@EXAMPLE.com',
+    'user@example.org'
+  ])('allows %s by email domain', async email => {
+    expect(await checkRegistration(email)).toEqual({ allowed: true, method: 'email_domain' })
+  })
+
+  it.each([
+    'user@sub.example.com',
+    'user@example.com.evil.com',
+    'user@evilexample.com',
+    'example.com',
+    ''
+  ])('rejects %j without an invitation', async email => {
+    expect(await checkRegistration(email)).toEqual({ allowed: false, reason: 'email_domain_not_allowed' })
+  })
+})
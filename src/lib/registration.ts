@@ -0,0 +1,277 @@
+import { createSupabaseAdminClient } from './supabase-server'
+import { generateToken, hashToken } from './tokens'
+import { logger } from './logger'
+import { getConfig, type ConfigIssue } from './config'
+
+const TABLE = 'registration_invitations'
+
+// 邀请码前缀
+const INVITATION_PREFIX = 'inv_'
+// 启动时读取 Supabase Auth 设置的超时时间（毫秒）
+const SETTINGS_TIMEOUT = 5000
+
+/**
+ * 注册模式
+ * open：任何人都可以注册；closed：禁止自助注册，只能由管理员邀请；
+ * restricted：只允许指定邮箱域或持有邀请码的用户注册
+ */
+export type RegistrationMode = 'open' | 'closed' | 'restricted'
+
+/**
+ * 注册策略
+ */
+export interface RegistrationPolicy {
+  mode: RegistrationMode
+  emailDomains: string[]
+}
+
+/**
+ * 注册检查结果
+ * method 记录账户的注册依据，写入 app_metadata.registration
+ */
+export type RegistrationDecision =
+  | { allowed: true; method: 'open' | 'email_domain' | 'invitation'; invitationId?: string }
+  | { allowed: false; reason: 'registration_closed' | 'email_domain_not_allowed' | 'invalid_invitation' }
+
+/**
+ * 注册邀请（不含邀请码本身）
+ */
+export interface RegistrationInvitation {
+  id: string
+  email: string | null
+  created_by_email: string | null
+  created_at: string
+  expires_at: string
+  used_at: string | null
+  revoked_at: string | null
+}
+
+// 列表返回的字段
+const PUBLIC_COLUMNS = 'id, email, created_by_email, created_at, expires_at, used_at, revoked_at'
+
+/**
+ * 读取注册策略
+ * REGISTRATION_MODE 未配置时保持原有的开放注册
+ */
+export function getRegistrationPolicy(): RegistrationPolicy {
+  const { mode, emailDomains } = getConfig().registration
+  return { mode, emailDomains }
+}
+
+/**
+ * 判断邮箱是否属于允许注册的邮箱域
+ */
+function isEmailDomainAllowed(policy: RegistrationPolicy, email: string): boolean {
+  const domain = email.toLowerCase().split('@')[1] || ''
+  return policy.emailDomains.includes(domain)
+}
+
+/**
+ * 查找可用的邀请
+ * 邀请未过期、未使用、未撤销，且绑定邮箱时与注册邮箱一致
+ */
+async function findInvitation(code: string, email: string): Promise<RegistrationInvitation | null> {
+  const supabase = createSupabaseAdminClient()
+  const { data, error } = await supabase
+    .from(TABLE)
+    .select(PUBLIC_COLUMNS)
+    .eq('code_hash', hashToken(code))
+    .maybeSingle()
+
+  if (error) {
+    throw error
+  }
+
+  const invitation = data as RegistrationInvitation | null
+  if (
+    !invitation ||
+    invitation.used_at ||
+    invitation.revoked_at ||
+    new Date(invitation.expires_at).getTime() <= Date.now() ||
+    (invitation.email && invitation.email.toLowerCase() !== email.toLowerCase())
+  ) {
+    return null
+  }
+  return invitation
+}
+
+/**
+ * 检查邮箱能否注册
+ * @param email - 注册邮箱
+ * @param invitationCode - 邀请码，仅在 restricted 模式下使用
+ * @returns 检查结果
+ */
+export async function checkRegistration(email: string, invitationCode?: string | null): Promise<RegistrationDecision> {
+  const policy = getRegistrationPolicy()
+
+  if (policy.mode === 'open') {
+    return { allowed: true, method: 'open' }
+  }
+  if (policy.mode === 'closed') {
+    return { allowed: false, reason: 'registration_closed' }
+  }
+
+  if (isEmailDomainAllowed(policy, email)) {
+    return { allowed: true, method: 'email_domain' }
+  }
+  if (!invitationCode) {
+    return { allowed: false, reason: 'email_domain_not_allowed' }
+  }
+
+  const invitation = await findInvitation(invitationCode, email)
+  return invitation
+    ? { allowed: true, method: 'invitation', invitationId: invitation.id }
+    : { allowed: false, reason: 'invalid_invitation' }
+}
+
+/**
+ * 使用邀请
+ * 只有未使用、未撤销且未过期的邀请能够更新，并发注册时只有一个成功
+ * @param invitationId - 邀请 ID
+ * @param userId - 注册得到的用户 ID
+ * @returns 是否成功
+ */
+export async function consumeInvitation(invitationId: string, userId: string): Promise<boolean> {
+  const supabase = createSupabaseAdminClient()
+  const { data, error } = await supabase
+    .from(TABLE)
+    .update({ used_at: new Date().toISOString(), used_by: userId })
+    .eq('id', invitationId)
+    .is('used_at', null)
+    .is('revoked_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .select('id')
+
+  if (error) {
+    throw error
+  }
+
+  return (data || []).length > 0
+}
+
+/**
+ * 检查 Supabase 是否关闭了公开注册
+ * 非 open 模式下账户只能经 POST /api/auth/signup（Admin API）或管理员邀请创建；
+ * Supabase 的公开注册接口（/auth/v1/signup、创建用户的 OTP 登录与第三方登录）不经过注册策略，必须关闭
+ * 开发身份模式的模拟接口不支持注册，不需要检查
+ * @returns 公开注册未关闭时返回配置问题；Supabase 不可达时记录日志并返回 null，由就绪检查报告
+ */
+export async function checkSupabaseSignupDisabled(): Promise<ConfigIssue | null> {
+  const { registration, devMode, supabase } = getConfig()
+  if (registration.mode === 'open' || devMode || !supabase.url) {
+    return null
+  }
+
+  try {
+    const response = await fetch(`${supabase.url}/auth/v1/settings`, {
+      headers: { apikey: supabase.anonKey },
+      cache: 'no-store',
+      signal: AbortSignal.timeout(SETTINGS_TIMEOUT)
+    })
+    if (!response.ok) {
+      throw new Error(`Unexpected status ${response.status}`)
+    }
+    const settings = await response.json() as { disable_signup?: boolean }
+    if (settings.disable_signup) {
+      return null
+    }
+  } catch (error) {
+    logger.warn('Supabase auth settings check failed', { error })
+    return null
+  }
+
+  return {
+    variable: 'REGISTRATION_MODE',
+    severity: 'error',
+    message: `is ${registration.mode} but Supabase allows public signups, disable "Allow new users to sign up" (enable_signup = false)`
+  }
+}
+
+/**
+ * 创建注册邀请
+ * @param createdBy - 创建邀请的管理员
+ * @param email - 绑定的邮箱，为空时任何邮箱都可以使用
+ * @param expiresInDays - 有效天数
+ * @returns 邀请与邀请码，邀请码只在创建时返回一次
+ */
+export async function createInvitation(
+  createdBy: { id: string; email?: string | null },
+  email: string | null,
+  expiresInDays: number
+): Promise<{ invitation: RegistrationInvitation; code: string }> {
+  const code = generateToken(INVITATION_PREFIX, 18)
+  const expiresAt = new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000)
+
+  const supabase = createSupabaseAdminClient()
+  const { data, error } = await supabase
+    .from(TABLE)
+    .insert({
+      code_hash: hashToken(code),
+      email,
+      created_by: createdBy.id,
+      created_by_email: createdBy.email || null,
+      expires_at: expiresAt.toISOString()
+    })
+    .select(PUBLIC_COLUMNS)
+    .single()
+
+  if (error) {
+    throw error
+  }
+
+  return { invitation: data as RegistrationInvitation, code }
+}
+
+/**
+ * 列出最近的注册邀请
+ * @param limit - 数量上限
+ */
+export async function listInvitations(limit = 100): Promise<RegistrationInvitation[]> {
+  const supabase = createSupabaseAdminClient()
+  const { data, error } = await supabase
+    .from(TABLE)
+    .select(PUBLIC_COLUMNS)
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    throw error
+  }
+
+  return (data || []) as RegistrationInvitation[]
+}
+
+/**
+ * 撤销注册邀请
+ * @param invitationId - 邀请 ID
+ * @returns 被撤销的邀请，已使用或已撤销时返回 null
+ */
+export async function revokeInvitation(invitationId: string): Promise<RegistrationInvitation | null> {
+  const supabase = createSupabaseAdminClient()
+  const { data, error } = await supabase
+    .from(TABLE)
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', invitationId)
+    .is('used_at', null)
+    .is('revoked_at', null)
+    .select(PUBLIC_COLUMNS)
+    .maybeSingle()
+
+  if (error) {
+    throw error
+  }
+
+  return data as RegistrationInvitation | null
+}
+
+/**
+ * 生成邀请注册链接
+ * @param code - 邀请码
+ */
+export function getInvitationUrl(code: string): string {
+  const baseUrl = getConfig().appUrl
+  const url = new URL('/login', baseUrl)
+  url.searchParams.set('mode', 'signup')
+  url.searchParams.set('invite', code)
+  return url.toString()
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type { Session } from '@supabase/supabase-js'
+import { setAuthCookie, generateStepUpUrl } from './auth'
+import { getSessionId, recordSessionActivity, recordSessionProvider } from './user-sessions'
+import { getBackendForToken } from './identity-backend'
+import { hasVerifiedFactor } from './mfa'
+import { recordAuditEvent } from './audit'
+import { requestLogger } from './logger'
+import { resolveRedirect } from './redirect'
+import { loginAttempts } from './metrics'
+import { getConfig } from './config'
+
+/**
+ * 登录完成后的处理选项
+ * json 为 true 时返回 { redirect }，否则以 303 跳转
+ * method 记录具体的登录方式，如 password、magic_link、otp
+ */
+export interface SignInOptions {
+  provider: string
+  method?: string
+  redirect: string | null
+  json: boolean
+}
+
+/**
+ * 完成登录：写入认证 Cookie、记录会话信息与审计事件，并跳转到目标页面
+ * 已绑定验证器的用户先跳转到二次验证页面
+ * @param request - Next.js 请求对象
+ * @param session - 登录得到的 Supabase 会话
+ * @param options - 登录方式与重定向地址
+ * @returns 登录响应
+ */
+export async function completeSignIn(request: NextRequest, session: Session, options: SignInOptions) {
+  const baseUrl = getConfig().appUrl
+  const log = requestLogger(request)
+
+  // 确定重定向 URL
+  const finalRedirectUrl = await resolveRedirect(options.redirect, '/dashboard', 'sign_in', log)
+
+  // 已绑定验证器的用户先完成二次验证，再跳转到目标页面
+  const stepUp = hasVerifiedFactor(session.user)
+  const nextUrl = stepUp
+    ? await generateStepUpUrl(new URL(finalRedirectUrl, baseUrl).toString(), log)
+    : finalRedirectUrl
+
+  const response = options.json
+    ? NextResponse.json({ redirect: nextUrl }, { headers: { 'Cache-Control': 'no-store' } })
+    : NextResponse.redirect(new URL(nextUrl, baseUrl), 303)
+
+  setAuthCookie(response, session, request)
+
+  // 记录登录设备信息与登录方式，供会话列表与访问策略使用
+  const sessionId = getSessionId(session.access_token)
+  if (sessionId && getBackendForToken(session.access_token).tracksSessions) {
+    await recordSessionActivity(sessionId, session.user.id, request)
+    await recordSessionProvider(sessionId, session.user.id, options.provider)
+  }
+
+  recordAuditEvent({
+    type: 'login.success',
+    user: session.user,
+    request,
+    details: { provider: options.provider, method: options.method, sessionId }
+  })
+
+  loginAttempts.inc({ method: options.method || options.provider, outcome: stepUp ? 'mfa_required' : 'success' })
+  log.info('Sign-in successful', {
+    email: session.user.email,
+    provider: options.provider,
+    method: options.method,
+    redirect: nextUrl
+  })
+
+  return response
+}
@@ -0,0 +1,128 @@
+import { randomUUID } from 'crypto'
+import { getApplications, type Application } from './applications'
+import { getAssertionIssuer } from './identity-assertion'
+import { getSigningKey } from './identity-keys'
+import { signJwt } from './jwt'
+import type { AccessTarget } from './policy'
+import { logger } from './logger'
+import { getConfig } from './config'
+
+// 后端通道登出请求超时时间（毫秒）
+const BACKCHANNEL_TIMEOUT = getConfig().backchannelLogoutTimeout
+// logout_token 有效期（秒）
+const LOGOUT_TOKEN_TTL = 120
+
+// OpenID Connect Back-Channel Logout 规范定义的事件类型
+const BACKCHANNEL_LOGOUT_EVENT = 'http://schemas.openid.net/event/backchannel-logout'
+
+/**
+ * 登出的用户会话
+ */
+export interface LogoutSubject {
+  userId: string
+  sessionId: string | null
+}
+
+/**
+ * 单个应用的后端通道登出结果
+ */
+export interface BackchannelLogoutResult {
+  appId: string
+  ok: boolean
+}
+
+/**
+ * 为应用签发 logout_token
+ * 格式遵循 OpenID Connect Back-Channel Logout，应用使用 /.well-known/jwks.json 中的公钥校验签名，
+ * 并校验 aud 为自身的应用 ID
+ */
+async function createLogoutToken(subject: LogoutSubject, app: Application): Promise<string> {
+  const key = await getSigningKey()
+  const now = Math.floor(Date.now() / 1000)
+
+  return signJwt({
+    iss: getAssertionIssuer(),
+    sub: subject.userId,
+    aud: app.id,
+    iat: now,
+    exp: now + LOGOUT_TOKEN_TTL,
+    jti: randomUUID(),
+    events: { [BACKCHANNEL_LOGOUT_EVENT]: {} },
+    ...(subject.sessionId ? { sid: subject.sessionId } : {})
+  }, key.privateKey, { alg: key.alg, kid: key.kid, typ: 'logout+jwt' })
+}
+
+/**
+ * 向单个应用发送后端通道登出请求
+ * 应用返回 2xx 视为已确认
+ */
+async function notifyApplication(subject: LogoutSubject, app: Application & { backchannelLogoutUri: string }) {
+  try {
+    const response = await fetch(app.backchannelLogoutUri, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded'
+      },
+      body: new URLSearchParams({ logout_token: await createLogoutToken(subject, app) }),
+      cache: 'no-store',
+      redirect: 'manual',
+      signal: AbortSignal.timeout(BACKCHANNEL_TIMEOUT)
+    })
+
+    if (!response.ok) {
+      logger.error('Backchannel logout rejected', { app: app.id, status: response.status })
+    }
+    return response.ok
+  } catch (error) {
+    logger.error('Backchannel logout error', { app: app.id, error })
+    return false
+  }
+}
+
+/**
+ * 通知全部配置了后端通道登出地址的应用
+ * 各应用并行发送，单个应用失败或超时不影响其他应用
+ * @param subject - 登出的用户会话
+ * @returns 各应用的登出结果
+ */
+export async function sendBackchannelLogout(subject: LogoutSubject): Promise<BackchannelLogoutResult[]> {
+  const applications = (await getApplications())
+    .filter((app): app is Application & { backchannelLogoutUri: string } => !!app.backchannelLogoutUri)
+
+  return Promise.all(applications.map(async app => ({
+    appId: app.id,
+    ok: await notifyApplication(subject, app)
+  })))
+}
+
+/**
+ * 生成前端通道登出地址
+ * 按 OpenID Connect Front-Channel Logout 规范附加 iss 参数
+ * @param app - 已注册的应用
+ * @returns 在 iframe 中加载的地址，未配置前端通道登出时返回 null
+ */
+export function getFrontchannelLogoutUrl(app: Application): string | null {
+  if (!app.frontchannelLogoutUri) {
+    return null
+  }
+  const url = new URL(app.frontchannelLogoutUri)
+  url.searchParams.set('iss', getAssertionIssuer())
+  return url.toString()
+}
+
+/**
+ * 判断访问目标是否为已注册的前端通道登出地址
+ * 按主机与路径匹配，忽略查询参数
+ * @param target - 访问目标
+ * @returns 是否为前端通道登出地址
+ */
+export async function isFrontchannelLogoutTarget(target: AccessTarget): Promise<boolean> {
+  const applications = await getApplications()
+  return applications.some(app => {
+    if (!app.frontchannelLogoutUri) {
+      return false
+    }
+    const url = new URL(app.frontchannelLogoutUri)
+    return url.host === target.host && url.pathname === target.path
+  })
+}
@@ -0,0 +1,65 @@
+import { isAuthApiError } from '@supabase/supabase-js'
+import type { IdentityBackend } from './identity-backend'
+import { createSupabaseAdminClient } from './supabase-server'
+import { getSupabaseIssuer, verifySupabaseAccessToken } from './supabase-jwt'
+import { logger } from './logger'
+import { recordSupabaseError } from './metrics'
+
+/**
+ * Supabase 身份后端
+ * 会话由 Supabase Auth 签发，刷新与登出均调用 Supabase
+ */
+export const supabaseBackend: IdentityBackend = {
+  id: 'email',
+  tracksSessions: true,
+
+  issued: payload => !payload.iss || payload.iss === getSupabaseIssuer(),
+
+  async authenticate(identifier, password) {
+    const supabase = createSupabaseAdminClient()
+    const { data, error } = await supabase.auth.signInWithPassword({ email: identifier, password })
+
+    if (error) {
+      recordSupabaseError('sign_in_with_password', error)
+      // 只有 Supabase 明确拒绝的登录返回错误码，服务不可用等错误抛出
+      if (!isAuthApiError(error)) {
+        throw error
+      }
+      return { session: null, error: error.code || 'invalid_credentials' }
+    }
+    return data.session ? { session: data.session } : { session: null, error: 'no_session' }
+  },
+
+  getSession: accessToken => verifySupabaseAccessToken(accessToken),
+
+  async refresh(refreshToken) {
+    const supabase = createSupabaseAdminClient()
+    const { data, error } = await supabase.auth.refreshSession({ refresh_token: refreshToken })
+
+    if (error || !data.session) {
+      if (error) {
+        recordSupabaseError('refresh_session', error)
+      }
+      return null
+    }
+    return data.session
+  },
+
+  async signOut(accessToken, scope) {
+    const { error } = await createSupabaseAdminClient().auth.admin.signOut(accessToken, scope)
+    if (error) {
+      recordSupabaseError('sign_out', error)
+      logger.error('Supabase sign-out error', { error })
+    }
+  },
+
+  async getUser(userId) {
+    const { data, error } = await createSupabaseAdminClient().auth.admin.getUserById(userId)
+    // 用户不存在或 ID 不是 UUID 时返回 4xx，该用户可能属于其他后端
+    if (error) {
+      recordSupabaseError('get_user_by_id', error)
+      return null
+    }
+    return data.user
+  }
+}
@@ -0,0 +1,92 @@
+import { generateKeyPairSync } from 'crypto'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+
+vi.hoisted(() => {
+  process.env.NEXT_PUBLIC_SUPABASE_URL = 'https://project.supabase.co'
+  process.env.SUPABASE_JWT_SECRET = 'test-jwt-secret-with-at-least-32-characters'
+  process.env.LOG_LEVEL = 'error'
+})
+
+import { signJwt, type JwtPayload } from './jwt'
+import { verifySupabaseAccessToken } from './supabase-jwt'
+
+const SECRET = 'test-jwt-secret-with-at-least-32-characters'
+const ISSUER = 'https://project.supabase.co/auth/v1'
+
+function claims(overrides: JwtPayload = {}): JwtPayload {
+  const now = Math.floor(Date.now() / 1000)
+  return {
+    iss: ISSUER,
+    sub: '00000000-0000-0000-0000-000000000001',
+    aud: 'authenticated',
+    role: 'authenticated',
+    iat: now,
+    exp: now + 3600,
+    ...overrides
+  }
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('verifySupabaseAccessToken', () => {
+  it('accepts an HS256 token signed with the project secret', async () => {
+    const payload = claims()
+    expect(await verifySupabaseAccessToken(signJwt(payload, SECRET, { alg: 'HS256' }))).toEqual(payload)
+  })
+
+  it('rejects a token signed with another secret', async () => {
+    expect(await verifySupabaseAccessToken(signJwt(claims(), 'another-secret', { alg: 'HS256' }))).toBeNull()
+  })
+
+  it('rejects a tampered payload', async () => {
+    const [header, , signature] = signJwt(claims(), SECRET, { alg: 'HS256' }).split('.')
+    const payload = Buffer.from(JSON.stringify(claims({ sub: 'someone-else' }))).toString('base64url')
+    expect(await verifySupabaseAccessToken(`${header}.${payload}.${signature}`)).toBeNull()
+  })
+
+  it('rejects unsigned tokens', async () => {
+    const header = Buffer.from(JSON.stringify({ alg: 'none', typ: 'JWT' })).toString('base64url')
+    const payload = Buffer.from(JSON.stringify(claims())).toString('base64url')
+    expect(await verifySupabaseAccessToken(`${header}.${payload}.`)).toBeNull()
+  })
+
+  it.each([
+    ['expired', { exp: Math.floor(Date.now() / 1000) - 1 }],
+    ['not yet valid', { nbf: Math.floor(Date.now() / 1000) + 60 }],
+    ['without exp', { exp: undefined }],
+    ['without sub', { sub: undefined }],
+    ['from another issuer', { iss: 'https://other.supabase.co/auth/v1' }],
+    ['without iss', { iss: undefined }],
+    ['for the anon role', { iss: 'supabase', aud: undefined, role: 'anon' }],
+    ['for another audience', { aud: 'service_role' }],
+    ['without aud', { aud: undefined }]
+  ])('rejects a token %s', async (_, overrides) => {
+    expect(await verifySupabaseAccessToken(signJwt(claims(overrides), SECRET, { alg: 'HS256' }))).toBeNull()
+  })
+
+  it('accepts an audience list that includes authenticated', async () => {
+    const payload = claims({ aud: ['authenticated', 'other'] })
+    expect(await verifySupabaseAccessToken(signJwt(payload, SECRET, { alg: 'HS256' }))).toEqual(payload)
+  })
+
+  it('rejects malformed tokens', async () => {
+    expect(await verifySupabaseAccessToken('not-a-jwt')).toBeNull()
+    expect(await verifySupabaseAccessToken('a.b.c')).toBeNull()
+  })
+
+  it('verifies asymmetric tokens with the project JWKS', async () => {
+    const { privateKey, publicKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' })
+    const jwks = { keys: [{ ...publicKey.export({ format: 'jwk' }), kid: 'key-1', alg: 'ES256' }] }
+    const fetchJwks = vi.fn(async () => new Response(JSON.stringify(jwks)))
+    vi.stubGlobal('fetch', fetchJwks)
+
+    const payload = claims()
+    expect(await verifySupabaseAccessToken(signJwt(payload, privateKey, { alg: 'ES256', kid: 'key-1' }))).toEqual(payload)
+    expect(fetchJwks).toHaveBeenCalledWith(`${ISSUER}/.well-known/jwks.json`, expect.anything())
+
+    const { privateKey: otherKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' })
+    expect(await verifySupabaseAccessToken(signJwt(payload, otherKey, { alg: 'ES256', kid: 'key-1' }))).toBeNull()
+  })
+})
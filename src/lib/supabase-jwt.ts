@@ -0,0 +1,152 @@
+import { createPublicKey, type JsonWebKey, type KeyObject } from 'crypto'
+import { createClient } from '@supabase/supabase-js'
+import { decodeJwt, verifyJwtSignature, isJwtTimeValid, type JwtPayload } from './jwt'
+import { logger } from './logger'
+import { recordSupabaseError } from './metrics'
+import { getConfig } from './config'
+
+// JWKS 缓存有效期（毫秒）
+const JWKS_CACHE_TTL = 10 * 60 * 1000
+// 遇到未知 kid 时重新获取 JWKS 的最小间隔（毫秒）
+const JWKS_REFETCH_INTERVAL = 30 * 1000
+// 已登录用户访问令牌的 aud，与 anon、service_role 等 API 密钥区分
+const AUTHENTICATED_AUDIENCE = 'authenticated'
+
+interface JwksCache {
+  keys: Map<string, KeyObject>
+  fetchedAt: number
+}
+
+let jwksCache: JwksCache | null = null
+let jwksPending: Promise<JwksCache | null> | null = null
+let warnedMissingSecret = false
+
+/**
+ * 获取 Supabase Auth 的签发者地址
+ */
+export function getSupabaseIssuer(): string {
+  return `${getConfig().supabase.url.replace(/\/$/, '')}/auth/v1`
+}
+
+/**
+ * 从 Supabase 获取 JWKS 并转换为公钥
+ */
+async function fetchJwks(): Promise<JwksCache | null> {
+  try {
+    const response = await fetch(`${getSupabaseIssuer()}/.well-known/jwks.json`, { cache: 'no-store' })
+    if (!response.ok) {
+      logger.error('JWKS fetch failed', { status: response.status })
+      recordSupabaseError('jwks', null)
+      return jwksCache
+    }
+
+    const { keys = [] } = await response.json() as { keys?: (JsonWebKey & { kid?: string })[] }
+    const keyMap = new Map<string, KeyObject>()
+    for (const jwk of keys) {
+      if (!jwk.kid) {
+        continue
+      }
+      try {
+        keyMap.set(jwk.kid, createPublicKey({ key: jwk, format: 'jwk' }))
+      } catch (error) {
+        logger.error('JWKS key import error', { kid: jwk.kid, error })
+      }
+    }
+
+    jwksCache = { keys: keyMap, fetchedAt: Date.now() }
+    return jwksCache
+  } catch (error) {
+    logger.error('JWKS fetch error', { error })
+    recordSupabaseError('jwks', error)
+    return jwksCache
+  }
+}
+
+/**
+ * 根据 kid 获取公钥
+ * 缓存过期或遇到未知 kid 时重新获取 JWKS
+ */
+async function getJwksKey(kid: string): Promise<KeyObject | null> {
+  const now = Date.now()
+  const cached = jwksCache
+  const expired = !cached || now - cached.fetchedAt > JWKS_CACHE_TTL
+  const unknownKid = cached && !cached.keys.has(kid) && now - cached.fetchedAt > JWKS_REFETCH_INTERVAL
+
+  if (expired || unknownKid) {
+    // 合并并发的获取请求
+    jwksPending = jwksPending || fetchJwks().finally(() => {
+      jwksPending = null
+    })
+    await jwksPending
+  }
+
+  return jwksCache?.keys.get(kid) || null
+}
+
+/**
+ * 未配置 JWT 密钥时通过 Supabase 校验 HS256 令牌
+ */
+async function verifyRemotely(token: string, payload: JwtPayload): Promise<boolean> {
+  if (!warnedMissingSecret) {
+    warnedMissingSecret = true
+    logger.warn('SUPABASE_JWT_SECRET is not set, falling back to remote token verification')
+  }
+
+  const supabase = createClient(
+    getConfig().supabase.url,
+    getConfig().supabase.anonKey,
+    {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    }
+  )
+  const { data, error } = await supabase.auth.getUser(token)
+  if (error) {
+    recordSupabaseError('get_user', error)
+  }
+  return !error && data.user?.id === payload.sub
+}
+
+/**
+ * 判断令牌的 aud 是否包含已登录用户
+ */
+function isAuthenticatedAudience(aud: JwtPayload['aud']): boolean {
+  return Array.isArray(aud) ? aud.includes(AUTHENTICATED_AUDIENCE) : aud === AUTHENTICATED_AUDIENCE
+}
+
+/**
+ * 在本地校验 Supabase 访问令牌
+ * HS256 令牌使用 SUPABASE_JWT_SECRET 校验，RS256/ES256 令牌使用缓存的 JWKS 校验
+ * iss 必须是本项目的 Auth 地址，aud 必须为 authenticated，同一密钥签发的其他令牌不能作为访问令牌使用
+ * @param token - 访问令牌
+ * @returns 校验通过的令牌声明，无效或过期时返回 null
+ */
+export async function verifySupabaseAccessToken(token: string): Promise<JwtPayload | null> {
+  const jwt = decodeJwt(token)
+  if (!jwt) {
+    return null
+  }
+
+  const { header, payload } = jwt
+  if (!isJwtTimeValid(payload) || typeof payload.sub !== 'string') {
+    return null
+  }
+  if (payload.iss !== getSupabaseIssuer() || !isAuthenticatedAudience(payload.aud)) {
+    return null
+  }
+
+  let valid = false
+  if (header.alg === 'HS256') {
+    const secret = getConfig().supabase.jwtSecret
+    valid = secret
+      ? verifyJwtSignature(jwt, secret)
+      : await verifyRemotely(token, payload)
+  } else if (header.kid) {
+    const key = await getJwksKey(header.kid)
+    valid = key ? verifyJwtSignature(jwt, key) : false
+  }
+
+  return valid ? payload : null
+}
@@ -1,6 +1,7 @@
 import { createClient } from '@supabase/supabase-js'
 import { createServerClient } from '@supabase/ssr'
 import { cookies } from 'next/headers'
+import { getConfig } from './config'
 
 /**
  * 创建服务端 Supabase 客户端
@@ -10,8 +11,8 @@ export const createSupabaseServerClient = async () => {
   const cookieStore = await cookies()
   
   return createServerClient(
-    process.env.NEXT_PUBLIC_SUPABASE_URL!,
-    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    getConfig().supabase.url,
+    getConfig().supabase.anonKey,
     {
       cookies: {
         getAll() {
@@ -38,8 +39,8 @@ export const createSupabaseServerClient = async () => {
  */
 export const createSupabaseAdminClient = () => {
   return createClient(
-    process.env.NEXT_PUBLIC_SUPABASE_URL!,
-    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    getConfig().supabase.url,
+    getConfig().supabase.serviceRoleKey,
     {
       auth: {
         autoRefreshToken: false,
@@ -0,0 +1,19 @@
+import { createHash, randomBytes } from 'crypto'
+
+/**
+ * 生成带前缀的随机令牌
+ * @param prefix - 令牌前缀，便于识别令牌类型
+ * @param bytes - 随机字节数
+ * @returns 令牌字符串
+ */
+export function generateToken(prefix: string, bytes = 32): string {
+  return `${prefix}${randomBytes(bytes).toString('base64url')}`
+}
+
+/**
+ * 计算令牌的 SHA-256 哈希
+ * 令牌本身为高熵随机值，存储与缓存时只使用哈希
+ */
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
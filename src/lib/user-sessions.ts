@@ -0,0 +1,265 @@
+import type { NextRequest } from 'next/server'
+import { createSupabaseAdminClient } from './supabase-server'
+import { decodeJwt } from './jwt'
+import { getClientIp } from './proxy'
+import { logger } from './logger'
+import { recordSupabaseError } from './metrics'
+import { getConfig } from './config'
+
+// 会话活动记录的最小更新间隔（毫秒）
+const ACTIVITY_UPDATE_INTERVAL = 60 * 1000
+// 会话吊销状态的缓存时间（毫秒），多实例部署时其他实例最长在此时间后感知吊销
+const REVOCATION_CHECK_TTL = getConfig().sessionRevocationCheckTtl * 1000
+
+const TABLE = 'session_activity'
+
+/**
+ * 会话列表中的单个会话
+ */
+export interface UserSession {
+  id: string
+  created_at: string
+  refreshed_at: string | null
+  aal: string | null
+  user_agent: string | null
+  ip: string | null
+  last_seen_at: string | null
+}
+
+/**
+ * 会话的吊销状态与登录方式
+ */
+interface SessionState {
+  revoked: boolean
+  provider: string | null
+}
+
+// 本实例吊销的会话，立即生效
+const locallyRevoked = new Set<string>()
+// 会话状态缓存
+const sessionStateCache = new Map<string, SessionState & { checkedAt: number }>()
+// 会话最近一次写入活动记录的时间
+const lastActivityWrites = new Map<string, number>()
+
+/**
+ * 从访问令牌中读取会话 ID（不校验签名，仅用于拒绝判断或记录）
+ * @param accessToken - Supabase 访问令牌
+ * @returns 会话 ID 或 null
+ */
+export function getSessionId(accessToken: string): string | null {
+  const sessionId = decodeJwt(accessToken)?.payload.session_id
+  return typeof sessionId === 'string' ? sessionId : null
+}
+
+/**
+ * 记录会话的设备信息与最后访问时间
+ * 同一会话在更新间隔内只写入一次，写入失败不影响请求
+ * @param sessionId - 会话 ID
+ * @param userId - 用户 ID
+ * @param request - 当前请求，经反向代理转发时包含原始请求的 User-Agent 与客户端 IP
+ */
+export async function recordSessionActivity(sessionId: string, userId: string, request: NextRequest) {
+  const now = Date.now()
+  const lastWrite = lastActivityWrites.get(sessionId)
+  if (lastWrite && now - lastWrite < ACTIVITY_UPDATE_INTERVAL) {
+    return
+  }
+  lastActivityWrites.set(sessionId, now)
+
+  // 防止长期运行时无限增长
+  if (lastActivityWrites.size > 10000) {
+    lastActivityWrites.forEach((time, key) => {
+      if (now - time >= ACTIVITY_UPDATE_INTERVAL) {
+        lastActivityWrites.delete(key)
+      }
+    })
+  }
+
+  try {
+    const supabase = createSupabaseAdminClient()
+    const { error } = await supabase
+      .from(TABLE)
+      .upsert({
+        session_id: sessionId,
+        user_id: userId,
+        user_agent: request.headers.get('user-agent'),
+        ip: getClientIp(request),
+        last_seen_at: new Date(now).toISOString()
+      }, { onConflict: 'session_id' })
+
+    if (error) {
+      logger.error('Session activity update error', { error })
+      recordSupabaseError('session_activity', error)
+    }
+  } catch (error) {
+    logger.error('Session activity update error', { error })
+    recordSupabaseError('session_activity', error)
+  }
+}
+
+/**
+ * 记录会话的登录方式
+ * 在登录成功时调用，供要求特定登录方式的访问规则使用
+ * @param sessionId - 会话 ID
+ * @param userId - 用户 ID
+ * @param provider - Supabase 提供商名称，邮箱密码登录为 email
+ */
+export async function recordSessionProvider(sessionId: string, userId: string, provider: string) {
+  try {
+    const supabase = createSupabaseAdminClient()
+    const { error } = await supabase
+      .from(TABLE)
+      .upsert({ session_id: sessionId, user_id: userId, provider }, { onConflict: 'session_id' })
+
+    if (error) {
+      logger.error('Session provider update error', { error })
+      recordSupabaseError('session_provider', error)
+      return
+    }
+    sessionStateCache.delete(sessionId)
+  } catch (error) {
+    logger.error('Session provider update error', { error })
+    recordSupabaseError('session_provider', error)
+  }
+}
+
+/**
+ * 读取会话的吊销状态与登录方式
+ * 结果短暂缓存；查询失败时沿用缓存，没有缓存时视为未吊销
+ */
+async function getSessionState(sessionId: string): Promise<SessionState> {
+  const cached = sessionStateCache.get(sessionId)
+  if (cached && Date.now() - cached.checkedAt < REVOCATION_CHECK_TTL) {
+    return cached
+  }
+
+  try {
+    const supabase = createSupabaseAdminClient()
+    const { data, error } = await supabase
+      .from(TABLE)
+      .select('revoked_at, provider')
+      .eq('session_id', sessionId)
+      .maybeSingle()
+
+    if (error) {
+      logger.error('Session state check error', { error })
+      recordSupabaseError('session_state', error)
+      return cached || { revoked: false, provider: null }
+    }
+
+    const row = data as { revoked_at: string | null; provider: string | null } | null
+    const state = { revoked: !!row?.revoked_at, provider: row?.provider || null }
+    if (sessionStateCache.size > 10000) {
+      sessionStateCache.clear()
+    }
+    sessionStateCache.set(sessionId, { ...state, checkedAt: Date.now() })
+    return state
+  } catch (error) {
+    logger.error('Session state check error', { error })
+    recordSupabaseError('session_state', error)
+    return cached || { revoked: false, provider: null }
+  }
+}
+
+/**
+ * 判断会话是否已被吊销
+ * 吊销状态短暂缓存；查询失败时不拒绝，避免数据库故障导致所有应用不可用
+ * @param sessionId - 会话 ID
+ * @returns 是否已吊销
+ */
+export async function isSessionRevoked(sessionId: string): Promise<boolean> {
+  if (locallyRevoked.has(sessionId)) {
+    return true
+  }
+
+  const { revoked } = await getSessionState(sessionId)
+  if (revoked) {
+    locallyRevoked.add(sessionId)
+  }
+  return revoked
+}
+
+/**
+ * 获取会话的登录方式
+ * 与吊销状态共用同一次查询与缓存
+ * @param sessionId - 会话 ID
+ * @returns Supabase 提供商名称，未记录时返回 null
+ */
+export async function getSessionProvider(sessionId: string): Promise<string | null> {
+  const { provider } = await getSessionState(sessionId)
+  return provider
+}
+
+/**
+ * 列出用户的全部有效会话
+ * @param userId - 用户 ID
+ * @returns 会话列表，按最后访问时间倒序
+ */
+export async function listUserSessions(userId: string): Promise<UserSession[]> {
+  const supabase = createSupabaseAdminClient()
+  const { data, error } = await supabase.rpc('list_user_sessions', { p_user_id: userId })
+
+  if (error) {
+    throw error
+  }
+
+  return (data || []) as UserSession[]
+}
+
+/**
+ * 吊销用户的单个会话
+ * @param userId - 用户 ID，只能吊销自己的会话
+ * @param sessionId - 会话 ID
+ * @returns 是否吊销成功
+ */
+export async function revokeUserSession(userId: string, sessionId: string): Promise<boolean> {
+  const supabase = createSupabaseAdminClient()
+  const { data, error } = await supabase.rpc('revoke_user_session', {
+    p_user_id: userId,
+    p_session_id: sessionId
+  })
+
+  if (error) {
+    throw error
+  }
+
+  if (data) {
+    locallyRevoked.add(sessionId)
+  }
+  return !!data
+}
+
+/**
+ * 吊销用户的全部会话
+ * @param userId - 用户 ID
+ * @returns 被吊销的会话数量
+ */
+export async function revokeAllUserSessions(userId: string): Promise<number> {
+  const supabase = createSupabaseAdminClient()
+  const { data, error } = await supabase.rpc('revoke_all_user_sessions', { p_user_id: userId })
+
+  if (error) {
+    throw error
+  }
+
+  const sessionIds = (data || []) as string[]
+  sessionIds.forEach(sessionId => locallyRevoked.add(sessionId))
+  return sessionIds.length
+}
+
+/**
+ * 吊销用户除当前会话外的全部会话
+ * @param userId - 用户 ID
+ * @param currentSessionId - 保留的当前会话 ID
+ * @returns 被吊销的会话数量
+ */
+export async function revokeOtherUserSessions(userId: string, currentSessionId: string | null): Promise<number> {
+  const sessions = await listUserSessions(userId)
+  let revoked = 0
+  for (const session of sessions) {
+    if (session.id !== currentSessionId && await revokeUserSession(userId, session.id)) {
+      revoked++
+    }
+  }
+  return revoked
+}
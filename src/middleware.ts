@@ -0,0 +1,26 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { getCorsHeaders, getCorsPolicy } from './lib/cors'
+
+/**
+ * 接口跨域处理
+ * 只回显 ALLOWED_DOMAINS 允许的来源并支持携带 Cookie，预检请求在这里直接应答
+ */
+export function middleware(request: NextRequest) {
+  const origin = request.headers.get('origin')
+  const policy = getCorsPolicy(request.nextUrl.pathname)
+  if (!origin || !policy) {
+    return NextResponse.next()
+  }
+
+  if (request.method === 'OPTIONS' && request.headers.has('access-control-request-method')) {
+    return new NextResponse(null, { status: 204, headers: getCorsHeaders(origin, policy, true) })
+  }
+
+  const response = NextResponse.next()
+  getCorsHeaders(origin, policy, false).forEach((value, key) => response.headers.set(key, value))
+  return response
+}
+
+export const config = {
+  matcher: '/api/:path*'
+}
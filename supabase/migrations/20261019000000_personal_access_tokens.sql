@@ -0,0 +1,20 @@
+-- 个人访问令牌：供脚本与 CI 通过 Authorization: Bearer 访问受保护应用
+-- 只保存令牌哈希，仅服务端通过 service role 访问
+create table if not exists public.personal_access_tokens (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null,
+  token_hash text not null unique,
+  token_prefix text not null,
+  hosts text[] not null default '{}',
+  created_at timestamptz not null default now(),
+  last_used_at timestamptz,
+  expires_at timestamptz,
+  revoked_at timestamptz
+);
+
+create index if not exists personal_access_tokens_user_id_idx
+  on public.personal_access_tokens (user_id);
+
+-- 启用 RLS 且不创建任何策略：anon / authenticated 角色无法直接读写
+alter table public.personal_access_tokens enable row level security;
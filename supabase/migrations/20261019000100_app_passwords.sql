@@ -0,0 +1,17 @@
+-- 应用专用密码：供只能发送 HTTP Basic 凭据的旧客户端（git、WebDAV、Prometheus 等）使用
+-- 与用户的 Supabase 密码无关，只保存哈希，仅服务端通过 service role 访问
+create table if not exists public.app_passwords (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null,
+  password_hash text not null unique,
+  created_at timestamptz not null default now(),
+  last_used_at timestamptz,
+  revoked_at timestamptz
+);
+
+create index if not exists app_passwords_user_id_idx
+  on public.app_passwords (user_id);
+
+-- 启用 RLS 且不创建任何策略：anon / authenticated 角色无法直接读写
+alter table public.app_passwords enable row level security;
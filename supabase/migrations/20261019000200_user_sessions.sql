@@ -0,0 +1,101 @@
+-- 会话活动记录：补充 auth.sessions 缺少的信息
+-- auth.sessions 中的 user_agent / ip 来自换取会话的服务端请求，不能反映用户设备，
+-- 因此由本服务在登录回调与 ForwardAuth 中记录真实的设备信息与最后访问时间
+-- revoked_at 用于在访问令牌过期前立即拒绝已吊销的会话
+create table if not exists public.session_activity (
+  session_id uuid primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  user_agent text,
+  ip text,
+  created_at timestamptz not null default now(),
+  last_seen_at timestamptz not null default now(),
+  revoked_at timestamptz
+);
+
+create index if not exists session_activity_user_id_idx
+  on public.session_activity (user_id);
+
+-- 启用 RLS 且不创建任何策略：anon / authenticated 角色无法直接读写
+alter table public.session_activity enable row level security;
+
+-- 列出用户的全部有效会话
+create or replace function public.list_user_sessions(p_user_id uuid)
+returns table (
+  id uuid,
+  created_at timestamptz,
+  refreshed_at timestamptz,
+  aal text,
+  user_agent text,
+  ip text,
+  last_seen_at timestamptz
+)
+language sql
+security definer
+set search_path = ''
+as $$
+  select
+    s.id,
+    s.created_at,
+    coalesce(s.refreshed_at::timestamptz, s.updated_at),
+    s.aal::text,
+    coalesce(a.user_agent, s.user_agent),
+    coalesce(a.ip, host(s.ip)),
+    coalesce(a.last_seen_at, s.updated_at)
+  from auth.sessions s
+  left join public.session_activity a on a.session_id = s.id
+  where s.user_id = p_user_id
+    and a.revoked_at is null
+    and (s.not_after is null or s.not_after > now())
+  order by coalesce(a.last_seen_at, s.updated_at) desc;
+$$;
+
+-- 吊销单个会话：标记吊销并删除 auth.sessions 中的记录（其刷新令牌随之失效）
+create or replace function public.revoke_user_session(p_user_id uuid, p_session_id uuid)
+returns boolean
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  deleted_count integer;
+begin
+  delete from auth.sessions where id = p_session_id and user_id = p_user_id;
+  get diagnostics deleted_count = row_count;
+
+  if deleted_count > 0 then
+    insert into public.session_activity (session_id, user_id, revoked_at)
+    values (p_session_id, p_user_id, now())
+    on conflict (session_id) do update set revoked_at = now();
+  end if;
+
+  return deleted_count > 0;
+end;
+$$;
+
+-- 吊销用户的全部会话
+create or replace function public.revoke_all_user_sessions(p_user_id uuid)
+returns setof uuid
+language plpgsql
+security definer
+set search_path = ''
+as $$
+begin
+  return query
+  with deleted as (
+    delete from auth.sessions where user_id = p_user_id returning id
+  ), marked as (
+    insert into public.session_activity (session_id, user_id, revoked_at)
+    select id, p_user_id, now() from deleted
+    on conflict (session_id) do update set revoked_at = now()
+    returning session_id
+  )
+  select session_id from marked;
+end;
+$$;
+
+revoke execute on function public.list_user_sessions(uuid) from public, anon, authenticated;
+revoke execute on function public.revoke_user_session(uuid, uuid) from public, anon, authenticated;
+revoke execute on function public.revoke_all_user_sessions(uuid) from public, anon, authenticated;
+grant execute on function public.list_user_sessions(uuid) to service_role;
+grant execute on function public.revoke_user_session(uuid, uuid) to service_role;
+grant execute on function public.revoke_all_user_sessions(uuid) to service_role;
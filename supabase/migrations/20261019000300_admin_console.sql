@@ -0,0 +1,66 @@
+-- 管理后台操作记录：记录执行操作的管理员、操作类型与目标用户
+create table if not exists public.admin_actions (
+  id uuid primary key default gen_random_uuid(),
+  actor_id uuid not null,
+  actor_email text,
+  action text not null,
+  target_user_id uuid,
+  target_email text,
+  details jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists admin_actions_created_at_idx
+  on public.admin_actions (created_at desc);
+
+create index if not exists admin_actions_target_user_id_idx
+  on public.admin_actions (target_user_id);
+
+-- 启用 RLS 且不创建任何策略：anon / authenticated 角色无法直接读写
+alter table public.admin_actions enable row level security;
+
+-- 分页列出与搜索用户
+-- Admin API 的 listUsers 不支持按邮箱搜索，因此直接查询 auth.users
+create or replace function public.admin_list_users(p_query text, p_limit integer, p_offset integer)
+returns table (
+  id uuid,
+  email text,
+  created_at timestamptz,
+  last_sign_in_at timestamptz,
+  email_confirmed_at timestamptz,
+  banned_until timestamptz,
+  app_metadata jsonb,
+  mfa_factors integer,
+  total_count bigint
+)
+language sql
+security definer
+set search_path = ''
+as $$
+  select
+    u.id,
+    u.email::text,
+    u.created_at,
+    u.last_sign_in_at,
+    u.email_confirmed_at,
+    u.banned_until,
+    coalesce(u.raw_app_meta_data, '{}'::jsonb),
+    (
+      select count(*)::integer from auth.mfa_factors f
+      where f.user_id = u.id and f.status = 'verified'
+    ),
+    count(*) over ()
+  from auth.users u
+  where u.deleted_at is null
+    and (
+      coalesce(p_query, '') = ''
+      or u.email ilike '%' || p_query || '%'
+      or u.id::text = p_query
+    )
+  order by u.created_at desc
+  limit p_limit
+  offset p_offset;
+$$;
+
+revoke execute on function public.admin_list_users(text, integer, integer) from public, anon, authenticated;
+grant execute on function public.admin_list_users(text, integer, integer) to service_role;
@@ -0,0 +1,38 @@
+-- 审计日志：登录、登出、会话刷新、ForwardAuth 判断与管理操作
+create table if not exists public.audit_events (
+  id bigint generated always as identity primary key,
+  occurred_at timestamptz not null default now(),
+  type text not null,
+  user_id uuid,
+  email text,
+  actor_id uuid,
+  actor_email text,
+  host text,
+  path text,
+  method text,
+  ip text,
+  user_agent text,
+  details jsonb not null default '{}'::jsonb
+);
+
+create index if not exists audit_events_occurred_at_idx
+  on public.audit_events (occurred_at desc);
+
+create index if not exists audit_events_user_id_idx
+  on public.audit_events (user_id, occurred_at desc);
+
+create index if not exists audit_events_type_idx
+  on public.audit_events (type, occurred_at desc);
+
+create index if not exists audit_events_host_idx
+  on public.audit_events (host, occurred_at desc);
+
+-- 启用 RLS 且不创建任何策略：anon / authenticated 角色无法直接读写
+alter table public.audit_events enable row level security;
+
+-- 管理操作记录并入审计日志
+insert into public.audit_events (occurred_at, type, user_id, email, actor_id, actor_email, details)
+select created_at, 'admin.' || action, target_user_id, target_email, actor_id, actor_email, details
+from public.admin_actions;
+
+drop table if exists public.admin_actions;
@@ -0,0 +1,13 @@
+-- 多因素认证恢复码：丢失 TOTP 验证器时用于解除绑定
+-- Supabase MFA 本身不提供恢复码，只保存哈希，仅服务端通过 service role 访问
+create table if not exists public.mfa_recovery_codes (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  code_hash text not null,
+  created_at timestamptz not null default now(),
+  used_at timestamptz,
+  unique (user_id, code_hash)
+);
+
+-- 启用 RLS 且不创建任何策略：anon / authenticated 角色无法直接读写
+alter table public.mfa_recovery_codes enable row level security;
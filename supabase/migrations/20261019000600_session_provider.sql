@@ -0,0 +1,4 @@
+-- 会话的登录方式（Supabase 提供商名称，邮箱密码登录为 email）
+-- 由本服务在登录成功时记录，访问策略可以要求特定应用只接受某些登录方式
+alter table public.session_activity
+  add column if not exists provider text;
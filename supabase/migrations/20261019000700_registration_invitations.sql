@@ -0,0 +1,20 @@
+-- 注册邀请：限制注册模式下凭邀请码注册，邀请码只保存哈希，仅服务端通过 service role 访问
+create table if not exists public.registration_invitations (
+  id uuid primary key default gen_random_uuid(),
+  code_hash text not null unique,
+  -- 为空时任何邮箱都可以使用
+  email text,
+  created_by uuid,
+  created_by_email text,
+  created_at timestamptz not null default now(),
+  expires_at timestamptz not null,
+  used_at timestamptz,
+  used_by uuid references auth.users (id) on delete set null,
+  revoked_at timestamptz
+);
+
+create index if not exists registration_invitations_created_at_idx
+  on public.registration_invitations (created_at desc);
+
+-- 启用 RLS 且不创建任何策略：anon / authenticated 角色无法直接读写
+alter table public.registration_invitations enable row level security;